@@ -4,29 +4,65 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import StartScreen from './components/StartScreen';
-import Canvas, { VideoModelType } from './components/Canvas';
+import Canvas from './components/Canvas';
 import WardrobePanel from './components/WardrobeModal';
-import OutfitStack from './components/OutfitStack';
+import HistoryTree from './components/HistoryTree';
+import PosePanel from './components/PosePanel';
 import SavedOutfits from './components/SavedOutfits';
-import { generateVirtualTryOnImage, generatePoseVariation, generateVideo } from './services/geminiService';
-import { OutfitLayer, WardrobeItem, SavedOutfit } from './types';
-import { ChevronDownIcon, ChevronUpIcon } from './components/icons';
+import BatchTryOnModal from './components/BatchTryOnModal';
+import FullLookModal from './components/FullLookModal';
+import RecommendModal from './components/RecommendModal';
+import LookbookModal from './components/LookbookModal';
+import JobsTray from './components/JobsTray';
+import { generateFullLook, generateVirtualTryOnImage, generatePoseVariation, generateVideo, tryOnProvider } from './services/geminiService';
+import { OutfitLayer, OutfitNode, OutfitTree, WardrobeItem, SavedOutfit, SavedModel, Pose, DriftFlag, OutfitCollection, GeneratedVideo, VideoSettings } from './types';
+import { describeVideoSettings, normalizeVideoSettings, VIDEO_MODELS } from './lib/videoSettings';
+import type { PoseReferences } from './services/tryOnProvider';
+import { detectDrift } from './lib/perceptual';
+import { loadWardrobeItemFile } from './lib/garmentPreprocess';
+import { ChevronDownIcon, ChevronUpIcon, ShirtIcon, UsersIcon, Wand2Icon } from './components/icons';
 import { defaultWardrobe } from './wardrobe';
 import Footer from './components/Footer';
-import { getFriendlyErrorMessage } from './lib/utils';
+import { downloadBlob, getFriendlyErrorMessage } from './lib/utils';
 import Spinner from './components/Spinner';
+import { discardStoredSession, loadSession, saveSession } from './services/sessionStore';
+import { addOutfitChain, addOutfitNode, createOutfitTree, findChildWithGarment, GarmentUsage, getActivePath, getCurrentNode, getLayerGarments, getOutdatedNodeIds, getPathToNode, jumpToNode, mergeOutfitLayers, outfitTreeFromLayers, redoOutfit, undoOutfit, updateOutfitNodeLayer } from './lib/outfitTree';
+import { recordGarmentUsage, withSavedOutfitUsage } from './lib/wardrobeSearch';
+import { replayOutfit, ReplayStep } from './services/outfitReplay';
+import { enqueueJob, JobCancelledError } from './services/jobQueue';
+import { SLOT_INFO, slotsConflict } from './lib/garmentSlots';
+import { BASE_POSE_ID, DEFAULT_POSES, getPoseSource, movePose } from './lib/poses';
+import { BUNDLE_FILE_EXTENSION, exportSessionBundle, importSessionBundle } from './services/sessionBundle';
 
-const POSE_INSTRUCTIONS = [
-  "ยืนตัวตรง มือวางข้างลำตัว",
-  "หันข้างเล็กน้อย 45 องศา",
-  "หันข้างเต็มตัว",
-  "กระโดดในอากาศ ท่าแอคชั่น",
-  "กำลังเดินเข้าหาหน้าจอ",
-  "พิงกำแพงแบบเท่ๆ",
-];
+const SESSION_SAVE_DELAY_MS = 800;
+
+// A new image for a pose also clears any drift found in the image it replaces.
+const withPoseImage = (pose: string, imageUrl: string) => ({ driftFlags, ...layer }: OutfitLayer): OutfitLayer => {
+  const { [pose]: _replaced, ...otherFlags } = driftFlags ?? {};
+  return {
+    ...layer,
+    poseImages: { ...layer.poseImages, [pose]: imageUrl },
+    ...(Object.keys(otherFlags).length > 0 ? { driftFlags: otherFlags } : {}),
+  };
+};
+
+const withDriftFlags = (pose: string, flags: DriftFlag[]) => (layer: OutfitLayer): OutfitLayer =>
+  flags.length > 0 ? { ...layer, driftFlags: { ...layer.driftFlags, [pose]: flags } } : layer;
+
+/** Identity and garment references sent with pose requests in consistency mode. */
+interface ConsistencyReferences {
+  identityUrl: string;
+  garmentUrls: string[];
+}
+
+const toPoseReferences = (pose: Pose, consistency: ConsistencyReferences | null): PoseReferences => ({
+  pose: pose.referenceImageUrl,
+  identity: consistency?.identityUrl,
+  garments: consistency?.garmentUrls,
+});
 
 const useMediaQuery = (query: string): boolean => {
   const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
@@ -49,244 +85,693 @@ const useMediaQuery = (query: string): boolean => {
 
 const App: React.FC = () => {
   const [modelImageUrl, setModelImageUrl] = useState<string | null>(null);
-  const [outfitHistory, setOutfitHistory] = useState<OutfitLayer[]>([]);
-  const [currentOutfitIndex, setCurrentOutfitIndex] = useState(0);
+  const [outfitTree, setOutfitTree] = useState<OutfitTree | null>(null);
+  // งานที่กดลองใหม่จากรายการงาน AI ได้ต้องดูประวัติชุดล่าสุด ไม่ใช่ค่าตอนที่สั่งงานครั้งแรก
+  const outfitTreeRef = useRef<OutfitTree | null>(null);
+  outfitTreeRef.current = outfitTree;
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [currentPoseIndex, setCurrentPoseIndex] = useState(0);
+  const [currentPoseId, setCurrentPoseId] = useState(BASE_POSE_ID);
+  const [poses, setPoses] = useState<Pose[]>(DEFAULT_POSES);
+  const [isConsistencyMode, setIsConsistencyMode] = useState(true);
   const [isSheetCollapsed, setIsSheetCollapsed] = useState(false);
   const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(defaultWardrobe);
-  const [videoUrls, setVideoUrls] = useState<string[]>([]);
+  const [videos, setVideos] = useState<GeneratedVideo[]>([]);
   const [isVideoLoading, setIsVideoLoading] = useState(false);
   const [savedOutfits, setSavedOutfits] = useState<SavedOutfit[]>([]);
+  const [outfitCollections, setOutfitCollections] = useState<OutfitCollection[]>([]);
+  const [savedModels, setSavedModels] = useState<SavedModel[]>([]);
+  const [garmentUsage, setGarmentUsage] = useState<Record<string, GarmentUsage>>({});
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isFullLookOpen, setIsFullLookOpen] = useState(false);
+  const [isRecommendOpen, setIsRecommendOpen] = useState(false);
+  const [isLookbookOpen, setIsLookbookOpen] = useState(false);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [swapTargetNodeId, setSwapTargetNodeId] = useState<string | null>(null);
+  const [duplicateSourceId, setDuplicateSourceId] = useState<string | null>(null);
+  const [loadingController, setLoadingController] = useState<AbortController | null>(null);
+  const [pendingPoses, setPendingPoses] = useState<Record<string, string[]>>({});
 
   const isMobile = useMediaQuery('(max-width: 767px)');
 
-  // โหลดข้อมูลชุดที่บันทึกไว้จาก localStorage เมื่อเริ่มแอป
+  // กู้คืนเซสชันล่าสุดจาก IndexedDB เมื่อเริ่มแอป
   useEffect(() => {
-    const stored = localStorage.getItem('wear-fit-saved-outfits');
-    if (stored) {
-      try {
-        setSavedOutfits(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to load saved outfits", e);
-      }
-    }
+    let cancelled = false;
+    loadSession()
+      .then(session => {
+        if (cancelled || !session) return;
+        setModelImageUrl(session.modelImageUrl);
+        setOutfitTree(session.outfitTree);
+        setWardrobe(session.wardrobe);
+        setSavedOutfits(session.savedOutfits);
+        setOutfitCollections(session.outfitCollections);
+        setSavedModels(session.savedModels);
+        setPoses(session.poses);
+        setGarmentUsage(session.garmentUsage);
+      })
+      .catch(e => {
+        console.error("Failed to restore session", e);
+        if (!cancelled) setRestoreError(getFriendlyErrorMessage(e, 'กู้คืนเซสชันล่าสุดไม่สำเร็จ'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoringSession(false);
+      });
+    return () => { cancelled = true; };
   }, []);
 
-  // บันทึกข้อมูลลง localStorage เมื่อมีการเปลี่ยนแปลง
+  // บันทึกเซสชันลง IndexedDB เมื่อมีการเปลี่ยนแปลง (หน่วงเวลาเล็กน้อยเพื่อรวมการเปลี่ยนแปลงที่ติดกัน)
+  // ถ้ากู้คืนไม่สำเร็จจะไม่บันทึกเลย เพื่อไม่ให้สถานะว่างเขียนทับและลบรูปของเซสชันเดิม
   useEffect(() => {
-    localStorage.setItem('wear-fit-saved-outfits', JSON.stringify(savedOutfits));
-  }, [savedOutfits]);
+    if (isRestoringSession || restoreError) return;
+    const timeout = setTimeout(() => {
+      saveSession({ modelImageUrl, outfitTree, wardrobe, savedOutfits, outfitCollections, savedModels, poses, garmentUsage })
+        .catch(e => console.error("Failed to save session", e));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isRestoringSession, restoreError, modelImageUrl, outfitTree, wardrobe, savedOutfits, outfitCollections, savedModels, poses, garmentUsage]);
+
+  const handleDiscardStoredSession = async () => {
+    if (!window.confirm('ลบเซสชันที่กู้คืนไม่ได้ทั้งหมด รวมถึงรูปที่เก็บไว้ แล้วเริ่มบันทึกใหม่?')) return;
+    try {
+      await discardStoredSession();
+      setRestoreError(null);
+    } catch (err) {
+      setRestoreError(getFriendlyErrorMessage(err, 'ลบเซสชันเดิมไม่สำเร็จ'));
+    }
+  };
 
   const activeOutfitLayers = useMemo(() => 
-    outfitHistory.slice(0, currentOutfitIndex + 1), 
-    [outfitHistory, currentOutfitIndex]
+    outfitTree ? getActivePath(outfitTree).map(node => node.layer) : [], 
+    [outfitTree]
   );
   
-  const activeGarmentIds = useMemo(() => 
-    activeOutfitLayers.map(layer => layer.garment?.id).filter(Boolean) as string[], 
-    [activeOutfitLayers]
-  );
+  const activeGarments = useMemo(() => activeOutfitLayers.flatMap(getLayerGarments), [activeOutfitLayers]);
+
+  const activeGarmentIds = useMemo(() => activeGarments.map(garment => garment.id), [activeGarments]);
+
+  const outdatedNodeIds = useMemo(() => outfitTree ? getOutdatedNodeIds(outfitTree, wardrobe) : new Set<string>(), [outfitTree, wardrobe]);
+
+  // ลำดับ "ใช้ล่าสุด" และ "ใส่บ่อยที่สุด" นับทั้งการลองชุดที่บันทึกไว้ถาวรและชุดที่บันทึกเก็บไว้
+  const wardrobeUsage = useMemo(() => withSavedOutfitUsage(garmentUsage, savedOutfits), [garmentUsage, savedOutfits]);
 
-  const currentLayer = useMemo(() => outfitHistory[currentOutfitIndex], [outfitHistory, currentOutfitIndex]);
+  const currentLayer: OutfitLayer | undefined = useMemo(() => outfitTree ? getCurrentNode(outfitTree).layer : undefined, [outfitTree]);
   
   const displayImageUrl = useMemo(() => {
-    if (outfitHistory.length === 0) return modelImageUrl;
     if (!currentLayer) return modelImageUrl;
 
-    const poseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
-    return currentLayer.poseImages[poseInstruction] ?? Object.values(currentLayer.poseImages)[0];
-  }, [outfitHistory, currentOutfitIndex, currentPoseIndex, modelImageUrl, currentLayer]);
+    return currentLayer.poseImages[currentPoseId] ?? Object.values(currentLayer.poseImages)[0];
+  }, [currentPoseId, modelImageUrl, currentLayer]);
 
   const availablePoseKeys = useMemo(() => {
-    if (outfitHistory.length === 0) return [];
-    const layer = outfitHistory[currentOutfitIndex];
-    return layer ? Object.keys(layer.poseImages) : [];
-  }, [outfitHistory, currentOutfitIndex]);
+    return currentLayer ? Object.keys(currentLayer.poseImages) : [];
+  }, [currentLayer]);
+
+  // The model photo itself has nothing to regenerate from; any other image on screen does.
+  const canRegenerateImage = !!currentLayer && (!!currentLayer.garment || currentPoseId !== getPoseSource(currentLayer)?.[0]);
 
   const handleModelFinalized = (url: string) => {
+    // เก็บโมเดลทุกตัวที่สร้างไว้ในคลัง เพื่อเลือกใช้ซ้ำหรือลองชุดหลายโมเดลพร้อมกัน
+    setSavedModels(prev => prev.some(model => model.imageUrl === url) ? prev : [
+      ...prev,
+      { id: `model-${Date.now()}`, name: `โมเดล ${prev.length + 1}`, imageUrl: url, createdAt: Date.now() },
+    ]);
     setModelImageUrl(url);
-    setOutfitHistory([{
+    setOutfitTree(createOutfitTree({
       garment: null,
-      poseImages: { [POSE_INSTRUCTIONS[0]]: url }
-    }]);
-    setCurrentOutfitIndex(0);
+      poseImages: { [BASE_POSE_ID]: url }
+    }));
   };
 
+  // เริ่มใหม่เฉพาะโมเดลและชุดที่กำลังแต่ง ตู้เสื้อผ้า คลังโมเดล ชุดที่บันทึก และคลังท่าโพสยังอยู่ครบ
   const handleStartOver = () => {
+    loadingController?.abort();
+    setPendingPoses({});
     setModelImageUrl(null);
-    setOutfitHistory([]);
-    setCurrentOutfitIndex(0);
+    setOutfitTree(null);
+    setSwapTargetNodeId(null);
+    setDuplicateSourceId(null);
     setIsLoading(false);
     setLoadingMessage('');
     setError(null);
-    setCurrentPoseIndex(0);
+    setCurrentPoseId(BASE_POSE_ID);
     setIsSheetCollapsed(false);
-    setWardrobe(defaultWardrobe);
-    setVideoUrls([]);
+    setVideos([]);
+  };
+
+  const handleExportSession = async () => {
+    setError(null);
+    try {
+      const bundle = await exportSessionBundle({ modelImageUrl, outfitTree, wardrobe, savedOutfits, outfitCollections, savedModels, poses, garmentUsage });
+      downloadBlob(bundle, `wear-fit-session-${Date.now()}${BUNDLE_FILE_EXTENSION}`);
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'ส่งออกเซสชันไม่สำเร็จ'));
+    }
+  };
+
+  // โยน error ต่อให้ผู้เรียกแสดงผลในหน้าที่กดนำเข้า
+  const importSession = async (file: File) => {
+    const session = await importSessionBundle(file);
+    setModelImageUrl(session.modelImageUrl);
+    setOutfitTree(session.outfitTree);
+    setWardrobe(session.wardrobe);
+    setSavedOutfits(session.savedOutfits);
+    setOutfitCollections(session.outfitCollections);
+    setSavedModels(session.savedModels);
+    setPoses(session.poses);
+    setGarmentUsage(session.garmentUsage);
+    setSwapTargetNodeId(null);
+    setCurrentPoseId(BASE_POSE_ID);
+    setVideos([]);
+    setError(null);
+  };
+
+  const handleImportSession = (file: File) => {
+    if (isLoading) return;
+    importSession(file).catch(err => setError(getFriendlyErrorMessage(err, 'นำเข้าเซสชันไม่สำเร็จ')));
+  };
+
+  // นับการใช้ไอเทมตอนลองชุดแยกจากประวัติชุด จึงไม่หายไปเมื่อเริ่มใหม่หรือเปลี่ยนโมเดล
+  const recordTryOns = (layers: OutfitLayer[]) =>
+    setGarmentUsage(prev => recordGarmentUsage(prev, layers.flatMap(getLayerGarments), Date.now()));
+
+  const rememberGarment = (garmentInfo: WardrobeItem) => {
+    setWardrobe(prev => {
+      if (prev.find(item => item.id === garmentInfo.id)) {
+          return prev;
+      }
+      return [...prev, garmentInfo];
+    });
+  };
+
+  /**
+   * ถอดหรือเปลี่ยนไอเทมชั้นกลางของชุด: แตกกิ่งใหม่จากชั้นก่อนหน้า แล้วใส่ไอเทมที่ตามมาใหม่ทีละชิ้นตามลำดับเดิม
+   * ชั้นที่อยู่ใน `dropNodeIds` จะถูกถอดออกไปด้วย (เช่น ใส่เดรสแทนทั้งเสื้อและกางเกง)
+   * ชุดเต็มตัวที่ถูกแทนที่บางชิ้นจะแตกเป็นไอเทมเดี่ยว โดยเก็บชิ้นที่ไม่ชนกับไอเทมใหม่ไว้
+   */
+  const rebuildOutfitFrom = async (targetNodeId: string, replacement: ReplayStep | null, dropNodeIds: Set<string> = new Set()) => {
+    if (!outfitTree || isLoading) return;
+    const path = getActivePath(outfitTree);
+    const targetIndex = path.findIndex(node => node.id === targetNodeId);
+    if (targetIndex < 1) return;
+
+    const survivingGarments = (layer: OutfitLayer) => replacement
+      ? getLayerGarments(layer).filter(garment => !slotsConflict(replacement.garment.slot, garment.slot))
+      : [];
+    const targetLayer: OutfitLayer = path[targetIndex].layer;
+    const steps: ReplayStep[] = [
+      ...(replacement ? [replacement] : []),
+      ...(targetLayer.lookGarments ? survivingGarments(targetLayer) : []).map(garment => ({ garment })),
+      ...path.slice(targetIndex + 1)
+        .flatMap(node => dropNodeIds.has(node.id) ? survivingGarments(node.layer) : getLayerGarments(node.layer))
+        .map(garment => ({ garment })),
+    ];
+
+    if (replacement) rememberGarment(replacement.garment);
+    await dressFrom(path[targetIndex - 1].id, steps);
+  };
+
+  /**
+   * Dresses the outfit at `startId` with `steps` in order, one try-on per step,
+   * and moves to the result. Branches that already hold the same garments are
+   * reused before any AI call is made.
+   */
+  const dressFrom = async (startId: string, plannedSteps: ReplayStep[]) => {
+    if (!outfitTree) return;
+    // ใช้กิ่งที่เคยสร้างไว้แล้วให้มากที่สุดก่อนเรียก AI
+    let anchorId = startId;
+    const steps = [...plannedSteps];
+    while (steps.length > 0) {
+      const existing = findChildWithGarment(outfitTree, anchorId, steps[0].garment);
+      if (!existing) break;
+      anchorId = existing.id;
+      steps.shift();
+    }
+
+    if (steps.length === 0) {
+      setOutfitTree(tree => tree && jumpToNode(tree, anchorId));
+      setCurrentPoseId(BASE_POSE_ID);
+      setVideos([]);
+      return;
+    }
+
+    const anchorLayer: OutfitLayer = outfitTree.nodes[anchorId].layer;
+    const [poseKey, baseImageUrl] = getPoseSource(anchorLayer);
+    const controller = new AbortController();
+    setLoadingController(controller);
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const layers = await replayOutfit(baseImageUrl, steps, {
+        poseKey,
+        signal: controller.signal,
+        onProgress: ({ completed, total, garment }) =>
+          setLoadingMessage(`กำลังสร้างชุดใหม่ (${completed + 1}/${total}): ${garment.name}...`),
+      });
+      setOutfitTree(tree => tree && addOutfitChain(tree, anchorId, layers));
+      recordTryOns(layers);
+      setCurrentPoseId(poseKey);
+      setVideos([]);
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'ไม่สามารถสร้างชุดใหม่ได้'));
+      }
+    } finally {
+      setLoadingController(null);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
   };
 
   const handleGarmentSelect = useCallback(async (garmentFile: File, garmentInfo: WardrobeItem) => {
-    if (!displayImageUrl || isLoading) return;
+    if (!displayImageUrl || isLoading || !outfitTree) return;
+
+    // ไอเทมที่อยู่ตำแหน่งเดียวกันบนร่างกายจะถูกแทนที่ ไม่ใส่ทับกัน
+    const conflictingIds = getActivePath(outfitTree)
+      .filter(node => getLayerGarments(node.layer).some(garment => slotsConflict(garmentInfo.slot, garment.slot)))
+      .map(node => node.id);
+    const targetNodeId = swapTargetNodeId ?? conflictingIds[0];
+    if (targetNodeId) {
+      setSwapTargetNodeId(null);
+      const dropNodeIds = new Set(conflictingIds.filter(id => id !== targetNodeId));
+      await rebuildOutfitFrom(targetNodeId, { garment: garmentInfo, file: garmentFile }, dropNodeIds);
+      return;
+    }
 
-    const nextLayer = outfitHistory[currentOutfitIndex + 1];
-    if (nextLayer && nextLayer.garment?.id === garmentInfo.id) {
-        setCurrentOutfitIndex(prev => prev + 1);
-        setCurrentPoseIndex(0);
+    // ถ้าเคยลองไอเทมนี้ต่อจากชุดปัจจุบันแล้ว ให้กลับไปที่กิ่งเดิมโดยไม่ต้องสร้างภาพใหม่
+    const parentId = outfitTree.currentId;
+    const existingBranch = findChildWithGarment(outfitTree, parentId, garmentInfo);
+    if (existingBranch) {
+        setOutfitTree(tree => tree && jumpToNode(tree, existingBranch.id));
+        setCurrentPoseId(BASE_POSE_ID);
         return;
     }
 
+    const controller = new AbortController();
+    setLoadingController(controller);
     setError(null);
     setIsLoading(true);
-    const actionText = garmentInfo.category === 'accessory' ? 'เพิ่มเครื่องประดับ' : 'ลองชุด';
+    const actionText = garmentInfo.slot && SLOT_INFO[garmentInfo.slot].isAccessory ? 'เพิ่มเครื่องประดับ' : 'ลองชุด';
     setLoadingMessage(`กำลัง${actionText} ${garmentInfo.name}...`);
+    // ในโหมดคงความเหมือน ไอเทมจะถูกลองบนท่ายืนตรงเสมอ ท่าอื่นจึงสร้างต่อจากภาพเดียวกันทั้งหมด
+    const parentBaseImage = outfitTree.nodes[parentId].layer.poseImages[BASE_POSE_ID];
+    const useBasePose = isConsistencyMode && !!parentBaseImage;
+    const baseImageUrl = useBasePose ? parentBaseImage : displayImageUrl;
+    const poseId = useBasePose ? BASE_POSE_ID : currentPoseId;
 
     try {
-      const newImageUrl = await generateVirtualTryOnImage(displayImageUrl!, garmentFile);
-      const currentPoseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
-      
+      const newImageUrl = await enqueueJob(
+        signal => generateVirtualTryOnImage(baseImageUrl, garmentFile, garmentInfo.slot, signal),
+        { label: `${actionText} ${garmentInfo.name}`, signal: controller.signal },
+      );
       const newLayer: OutfitLayer = { 
         garment: garmentInfo, 
-        poseImages: { [currentPoseInstruction]: newImageUrl } 
+        poseImages: { [poseId]: newImageUrl } 
       };
+      setOutfitTree(tree => tree && addOutfitNode(tree, parentId, newLayer));
+      recordTryOns([newLayer]);
+      setCurrentPoseId(poseId);
+      rememberGarment(garmentInfo);
+      setVideos([]);
+    } catch (err: any) {
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'ไม่สามารถใช้ไอเทมนี้ได้'));
+      }
+    } finally {
+      setLoadingController(null);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [displayImageUrl, isLoading, currentPoseId, outfitTree, swapTargetNodeId, isConsistencyMode]);
 
-      setOutfitHistory(prevHistory => {
-        const newHistory = prevHistory.slice(0, currentOutfitIndex + 1);
-        return [...newHistory, newLayer];
-      });
-      setCurrentOutfitIndex(prev => prev + 1);
-      
-      setWardrobe(prev => {
-        if (prev.find(item => item.id === garmentInfo.id)) {
-            return prev;
+  const getConsistencyReferences = (tree: OutfitTree, nodeId: string): ConsistencyReferences | null =>
+    isConsistencyMode && modelImageUrl
+      ? {
+          identityUrl: modelImageUrl,
+          garmentUrls: getPathToNode(tree, nodeId).flatMap(node => getLayerGarments(node.layer).map(garment => garment.url)),
         }
-        return [...prev, garmentInfo];
+      : null;
+
+  // ตรวจภาพที่สร้างเสร็จแล้วในเครื่อง ถ้าใบหน้าหรือสีชุดเพี้ยนจากภาพอ้างอิงมากเกินไปจะติดธงเตือนไว้
+  const flagPoseDrift = async (nodeId: string, poseId: string, imageUrl: string, consistency: ConsistencyReferences | null) => {
+    if (!consistency) return;
+    try {
+      const { flags } = await detectDrift(imageUrl, consistency);
+      setOutfitTree(tree => tree && updateOutfitNodeLayer(tree, nodeId, withDriftFlags(poseId, flags)));
+    } catch (e) {
+      console.warn("Drift check failed", e);
+    }
+  };
+
+  const navigateOutfit = (navigate: (tree: OutfitTree) => OutfitTree) => {
+    if (isLoading) return;
+    setOutfitTree(tree => tree && navigate(tree));
+    setCurrentPoseId(BASE_POSE_ID);
+    setVideos([]);
+  };
+
+  const handleUndo = () => navigateOutfit(undoOutfit);
+
+  const handleRedo = () => navigateOutfit(redoOutfit);
+
+  const handleJumpToNode = (nodeId: string) => navigateOutfit(tree => jumpToNode(tree, nodeId));
+
+  const handleRemoveLayer = (nodeId: string) => {
+    if (!outfitTree) return;
+    // ชั้นบนสุดถอดออกได้ทันทีโดยย้อนกลับหนึ่งขั้น ไม่ต้องสร้างภาพใหม่
+    if (nodeId === outfitTree.currentId) {
+      handleUndo();
+      return;
+    }
+    rebuildOutfitFrom(nodeId, null);
+  };
+
+  /**
+   * แต่งชุดเต็มตัวใหม่ในครั้งเดียวด้วยไอเทมทุกชิ้นในเวอร์ชันล่าสุด เป็นกิ่งใหม่จากชั้นก่อนหน้า
+   * แล้วใส่ไอเทมในชั้นที่อยู่ทับชุดนั้นใหม่ทีละชิ้นตามลำดับเดิม
+   */
+  const rebuildFullLook = async (nodeId: string) => {
+    if (!outfitTree || isLoading) return;
+    const path = getActivePath(outfitTree);
+    const targetIndex = path.findIndex(node => node.id === nodeId);
+    const lookGarments = path[targetIndex]?.layer.lookGarments;
+    if (targetIndex < 1 || !lookGarments) return;
+    const items = lookGarments.map(garment => wardrobe.find(item => item.id === garment.id) ?? garment);
+    const parentId = path[targetIndex - 1].id;
+    const [poseKey, baseImageUrl] = getPoseSource(path[targetIndex - 1].layer);
+    const stepsAbove: ReplayStep[] = path.slice(targetIndex + 1)
+      .flatMap(node => getLayerGarments(node.layer))
+      .map(garment => ({ garment }));
+
+    const controller = new AbortController();
+    setLoadingController(controller);
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(`กำลังแต่งชุดเต็มตัวใหม่ ${items.length} ชิ้น...`);
+
+    try {
+      const files = await Promise.all(items.map(loadWardrobeItemFile));
+      const lookImageUrl = await enqueueJob(
+        signal => generateFullLook(
+          baseImageUrl,
+          files.map((image, index) => ({ image, slot: items[index].slot })),
+          signal,
+        ),
+        { label: `อัปเดตชุดเต็มตัว (${items.length} ชิ้น)`, signal: controller.signal },
+      );
+      const lookLayer: OutfitLayer = { garment: items[0], lookGarments: items, poseImages: { [poseKey]: lookImageUrl } };
+      const layersAbove = await replayOutfit(lookImageUrl, stepsAbove, {
+        poseKey,
+        signal: controller.signal,
+        onProgress: ({ completed, total, garment }) =>
+          setLoadingMessage(`กำลังสร้างชุดใหม่ (${completed + 1}/${total}): ${garment.name}...`),
       });
-      setVideoUrls([]);
-    } catch (err: any) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      setError(getFriendlyErrorMessage(errorMsg, 'ไม่สามารถใช้ไอเทมนี้ได้'));
+      setOutfitTree(tree => tree && addOutfitChain(tree, parentId, [lookLayer, ...layersAbove]));
+      recordTryOns([lookLayer, ...layersAbove]);
+      setCurrentPoseId(poseKey);
+      setVideos([]);
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'อัปเดตชุดเต็มตัวไม่สำเร็จ'));
+      }
     } finally {
+      setLoadingController(null);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentPoseIndex, outfitHistory, currentOutfitIndex]);
+  };
 
-  const handleRemoveLastGarment = () => {
-    if (currentOutfitIndex > 0) {
-      setCurrentOutfitIndex(prevIndex => prevIndex - 1);
-      setCurrentPoseIndex(0);
-      setVideoUrls([]);
+  // แทนที่ไอเทมในชั้นนั้นด้วยเวอร์ชันล่าสุดจากตู้เสื้อผ้า แล้วสร้างชั้นที่ใส่ทับใหม่ตามลำดับเดิม
+  const handleUpdateLayer = (nodeId: string) => {
+    const layer = outfitTree?.nodes[nodeId]?.layer;
+    if (layer?.lookGarments) {
+      rebuildFullLook(nodeId);
+      return;
     }
+    const garment = layer?.garment;
+    const latest = garment && wardrobe.find(item => item.id === garment.id);
+    if (latest) rebuildOutfitFrom(nodeId, { garment: latest });
   };
+
+  const handleCancelLoading = () => loadingController?.abort();
   
-  const handlePoseSelect = useCallback(async (newIndex: number) => {
-    if (isLoading || outfitHistory.length === 0 || newIndex === currentPoseIndex) return;
+  const handlePoseSelect = useCallback(async (poseId: string) => {
+    if (isLoading || !outfitTree || poseId === currentPoseId) return;
     
-    const poseInstruction = POSE_INSTRUCTIONS[newIndex];
-    const layer = outfitHistory[currentOutfitIndex];
+    const pose = poses.find(candidate => candidate.id === poseId);
+    const nodeId = outfitTree.currentId;
+    const layer = getCurrentNode(outfitTree).layer;
 
-    if (layer.poseImages[poseInstruction]) {
-      setCurrentPoseIndex(newIndex);
+    if (layer.poseImages[poseId]) {
+      setCurrentPoseId(poseId);
       return;
     }
+    if (!pose) return;
 
-    const baseImageForPoseChange = Object.values(layer.poseImages)[0];
+    const baseImageForPoseChange = getPoseSource(layer)?.[1];
     if (!baseImageForPoseChange) return;
+    const consistency = getConsistencyReferences(outfitTree, nodeId);
 
+    const controller = new AbortController();
+    setLoadingController(controller);
     setError(null);
     setIsLoading(true);
     setLoadingMessage(`กำลังเปลี่ยนท่าทาง...`);
     
-    const prevPoseIndex = currentPoseIndex;
-    setCurrentPoseIndex(newIndex);
+    const prevPoseId = currentPoseId;
+    setCurrentPoseId(poseId);
 
     try {
-      const newImageUrl = await generatePoseVariation(baseImageForPoseChange, poseInstruction);
-      setOutfitHistory((prevHistory: OutfitLayer[]) => {
-        const newHistory = [...prevHistory];
-        const updatedLayer = { ...newHistory[currentOutfitIndex] };
-        updatedLayer.poseImages = { ...updatedLayer.poseImages, [poseInstruction]: newImageUrl };
-        newHistory[currentOutfitIndex] = updatedLayer;
-        return newHistory;
-      });
-      setVideoUrls([]);
+      const newImageUrl = await enqueueJob(
+        signal => generatePoseVariation(baseImageForPoseChange, pose.instruction, toPoseReferences(pose, consistency), signal),
+        { label: `ท่าทาง: ${pose.name}`, signal: controller.signal },
+      );
+      setOutfitTree(tree => tree && updateOutfitNodeLayer(tree, nodeId, withPoseImage(poseId, newImageUrl)));
+      setVideos([]);
+      await flagPoseDrift(nodeId, poseId, newImageUrl, consistency);
     } catch (err: any) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      setError(getFriendlyErrorMessage(errorMsg, 'ไม่สามารถเปลี่ยนท่าทางได้'));
-      setCurrentPoseIndex(prevPoseIndex);
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'ไม่สามารถเปลี่ยนท่าทางได้'));
+      }
+      setCurrentPoseId(prevPoseId);
+    } finally {
+      setLoadingController(null);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [currentPoseId, poses, outfitTree, isLoading, isConsistencyMode, modelImageUrl]);
+
+  /**
+   * Calls the AI again for the image on screen, bypassing the generation cache.
+   * A pose is replaced in place; a try-on result becomes a new sibling branch so
+   * the outfits already built on top of the old one are left untouched. A full
+   * look is dressed again in a single pass with the same items.
+   */
+  const handleRegenerateImage = useCallback(async () => {
+    if (isLoading || !outfitTree) return;
+    const node = getCurrentNode(outfitTree);
+    const pose = poses.find(candidate => candidate.id === currentPoseId);
+    const [basePoseKey, baseImageUrl] = getPoseSource(node.layer) ?? [];
+    const garment = node.layer.garment;
+    const lookGarments = node.layer.lookGarments;
+    const parentImages = node.parentId ? outfitTree.nodes[node.parentId].layer.poseImages : null;
+    const isPose = !!baseImageUrl && !!pose && pose.id !== basePoseKey;
+    if (!isPose && !(garment && parentImages)) return;
+
+    const controller = new AbortController();
+    setLoadingController(controller);
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(isPose ? 'กำลังสร้างท่าทางใหม่...' : lookGarments ? 'กำลังแต่งชุดเต็มตัวใหม่...' : `กำลังลองชุด ${garment.name} ใหม่...`);
+
+    try {
+      if (isPose) {
+        const consistency = getConsistencyReferences(outfitTree, node.id);
+        const newImageUrl = await enqueueJob(
+          signal => generatePoseVariation(baseImageUrl, pose.instruction, toPoseReferences(pose, consistency), signal, { force: true }),
+          { label: `สร้างใหม่: ${pose.name}`, signal: controller.signal },
+        );
+        setOutfitTree(tree => tree && updateOutfitNodeLayer(tree, node.id, withPoseImage(pose.id, newImageUrl)));
+        await flagPoseDrift(node.id, pose.id, newImageUrl, consistency);
+      } else if (lookGarments) {
+        const parentImageUrl = parentImages[basePoseKey] ?? Object.values(parentImages)[0];
+        const files = await Promise.all(lookGarments.map(loadWardrobeItemFile));
+        const items = files.map((image, index) => ({ image, slot: lookGarments[index].slot }));
+        const newImageUrl = await enqueueJob(
+          signal => generateFullLook(parentImageUrl, items, signal, { force: true }),
+          { label: `สร้างใหม่: ชุดเต็มตัว (${lookGarments.length} ชิ้น)`, signal: controller.signal },
+        );
+        const newLayer: OutfitLayer = { garment, lookGarments, poseImages: { [basePoseKey]: newImageUrl } };
+        setOutfitTree(tree => tree && addOutfitNode(tree, node.parentId, newLayer));
+        recordTryOns([newLayer]);
+      } else {
+        const parentImageUrl = parentImages[basePoseKey] ?? Object.values(parentImages)[0];
+        const garmentFile = await loadWardrobeItemFile(garment);
+        const newImageUrl = await enqueueJob(
+          signal => generateVirtualTryOnImage(parentImageUrl, garmentFile, garment.slot, signal, { force: true }),
+          { label: `สร้างใหม่: ${garment.name}`, signal: controller.signal },
+        );
+        const newLayer: OutfitLayer = { garment, poseImages: { [basePoseKey]: newImageUrl } };
+        setOutfitTree(tree => tree && addOutfitNode(tree, node.parentId, newLayer));
+        recordTryOns([newLayer]);
+      }
+      setVideos([]);
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'สร้างภาพใหม่ไม่สำเร็จ'));
+      }
+    } finally {
+      setLoadingController(null);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [currentPoseId, poses, outfitTree, isLoading, isConsistencyMode, modelImageUrl]);
+
+  /**
+   * Dresses the base model in every item of `items` with one AI call. The look
+   * becomes a single layer on a new branch from the root, so the outfit being
+   * built on the current branch is kept.
+   */
+  const handleDressFullLook = async (items: WardrobeItem[]) => {
+    if (!outfitTree || isLoading || items.length === 0) return;
+    setIsFullLookOpen(false);
+    const root: OutfitNode = outfitTree.nodes[outfitTree.rootId];
+    const [poseKey, baseImageUrl] = getPoseSource(root.layer);
+
+    const controller = new AbortController();
+    setLoadingController(controller);
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(`กำลังแต่งชุดเต็มตัว ${items.length} ชิ้น...`);
+
+    try {
+      const files = await Promise.all(items.map(loadWardrobeItemFile));
+      const newImageUrl = await enqueueJob(
+        signal => generateFullLook(
+          baseImageUrl,
+          files.map((image, index) => ({ image, slot: items[index].slot })),
+          signal,
+        ),
+        { label: `แต่งชุดเต็มตัว (${items.length} ชิ้น)`, signal: controller.signal },
+      );
+      const newLayer: OutfitLayer = { garment: items[0], lookGarments: items, poseImages: { [poseKey]: newImageUrl } };
+      setOutfitTree(tree => tree && addOutfitNode(tree, tree.rootId, newLayer));
+      recordTryOns([newLayer]);
+      setCurrentPoseId(poseKey);
+      items.forEach(rememberGarment);
+      setVideos([]);
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) {
+        setError(getFriendlyErrorMessage(err, 'แต่งชุดเต็มตัวไม่สำเร็จ'));
+      }
     } finally {
+      setLoadingController(null);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex]);
+  };
 
+  // ลุคที่แนะนำจะถูกลองทีละชิ้นบนโมเดลต้นฉบับ เป็นกิ่งใหม่ในประวัติชุด
+  const handleTryRecommendedLook = (items: WardrobeItem[]) => {
+    if (!outfitTree || isLoading) return;
+    setIsRecommendOpen(false);
+    dressFrom(outfitTree.rootId, items.map(garment => ({ garment })));
+  };
+
+  // ท่าทางทั้งหมดเข้าคิวงานพร้อมกันและไม่ล็อกหน้าจอ แต่ละท่าจะแสดงขึ้นมาทันทีที่สร้างเสร็จ
   const handleGenerateAllPoses = useCallback(async () => {
-    if (isLoading || !currentLayer) return;
+    if (!currentLayer || !outfitTree) return;
 
-    const baseImage = Object.values(currentLayer.poseImages)[0];
+    const nodeId = outfitTree.currentId;
+    const baseImage = getPoseSource(currentLayer)?.[1];
     if (!baseImage) return;
+    const consistency = getConsistencyReferences(outfitTree, nodeId);
+
+    const alreadyPending = pendingPoses[nodeId] ?? [];
+    const missingPoses = poses.filter(
+        (pose) => !currentLayer.poseImages[pose.id] && !alreadyPending.includes(pose.id)
+    );
+    if (missingPoses.length === 0) return;
 
-    setIsLoading(true);
     setError(null);
-    setVideoUrls([]);
+    setVideos([]);
+    setPendingPoses(prev => ({ ...prev, [nodeId]: [...(prev[nodeId] ?? []), ...missingPoses.map(pose => pose.id)] }));
 
-    const missingPoses = POSE_INSTRUCTIONS.filter(
-        (pose) => !currentLayer.poseImages[pose]
-    );
+    const results = await Promise.allSettled(missingPoses.map(pose =>
+      enqueueJob(async signal => {
+        // ลองใหม่หลังเริ่มชุดใหม่หรือเปลี่ยนโมเดลแล้ว ชุดเดิมไม่อยู่ในประวัติอีกต่อไป
+        const isNodeGone = () => !outfitTreeRef.current?.nodes[nodeId];
+        if (isNodeGone()) throw new Error('ชุดนี้ไม่อยู่ในประวัติชุดแล้ว');
+        const newImageUrl = await generatePoseVariation(baseImage, pose.instruction, toPoseReferences(pose, consistency), signal);
+        if (signal.aborted || isNodeGone()) return;
+        setOutfitTree(tree => tree && updateOutfitNodeLayer(tree, nodeId, withPoseImage(pose.id, newImageUrl)));
+        await flagPoseDrift(nodeId, pose.id, newImageUrl, consistency);
+      }, { label: `ท่าทาง: ${pose.name}`, retryable: true })
+        .finally(() => setPendingPoses(prev => ({ ...prev, [nodeId]: (prev[nodeId] ?? []).filter(id => id !== pose.id) })))
+    ));
 
-    if (missingPoses.length === 0) {
-        setIsLoading(false);
-        return;
+    const failedCount = results.filter(result => result.status === 'rejected' && !(result.reason instanceof JobCancelledError)).length;
+    if (failedCount > 0) {
+      setError(`สร้างท่าทางไม่สำเร็จ ${failedCount} ท่า กดลองใหม่ได้ที่รายการงาน AI`);
     }
+  }, [currentLayer, outfitTree, pendingPoses, poses, isConsistencyMode, modelImageUrl]);
 
-    // Generate sequentially to show progress in UI (Colage mode will likely be active)
-    for (let i = 0; i < missingPoses.length; i++) {
-        const pose = missingPoses[i];
-        setLoadingMessage(`กำลังสร้างท่าทาง (${i + 1}/${missingPoses.length}): ${pose}...`);
-        
-        try {
-            // We use 'await' here to do it sequentially, updating state each time so users see cards pop in
-            const newImageUrl = await generatePoseVariation(baseImage, pose);
-            
-            setOutfitHistory((prevHistory: OutfitLayer[]) => {
-                const newHistory = [...prevHistory];
-                const updatedLayer = { ...newHistory[currentOutfitIndex] };
-                updatedLayer.poseImages = { ...updatedLayer.poseImages, [pose]: newImageUrl };
-                newHistory[currentOutfitIndex] = updatedLayer;
-                return newHistory;
-            });
-        } catch (err) {
-            console.error(`Failed to generate pose: ${pose}`, err);
-            // Continue to next pose even if one fails
-        }
-    }
+  const handleAddPose = (pose: Pose) => setPoses(prev => [...prev, pose]);
 
-    setIsLoading(false);
-    setLoadingMessage('');
-  }, [currentLayer, isLoading, currentOutfitIndex]);
+  const handleUpdatePose = (updated: Pose) =>
+    setPoses(prev => prev.map(pose => pose.id === updated.id ? updated : pose));
 
-  const handleGenerateVideo = async (model: VideoModelType) => {
-    if (!displayImageUrl || isVideoLoading) return;
+  // ภาพของท่าที่ลบยังอยู่ในประวัติชุด เพียงแต่เลือกท่านั้นใหม่ไม่ได้
+  const handleDeletePose = (poseId: string) => {
+    setPoses(prev => prev.filter(pose => pose.id !== poseId || pose.builtIn));
+    if (poseId === currentPoseId) setCurrentPoseId(BASE_POSE_ID);
+  };
 
-    const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      await (window as any).aistudio.openSelectKey();
+  const handleMovePose = (poseId: string, offset: number) => setPoses(prev => movePose(prev, poseId, offset));
+
+  // ส่ง `regenerate` มาเพื่อสร้างคลิปเดิมใหม่จากภาพต้นฉบับของคลิปนั้น แล้วแทนที่ในตำแหน่งเดิม
+  const handleGenerateVideo = async (requestedSettings: VideoSettings, regenerate?: GeneratedVideo) => {
+    const sourceImageUrl = regenerate?.sourceImageUrl ?? displayImageUrl;
+    if (!sourceImageUrl || isVideoLoading) return;
+    const settings = normalizeVideoSettings(requestedSettings);
+
+    // Veo needs a paid key; inside AI Studio the user picks one here, whichever provider the build chose.
+    const aistudio = (window as any).aistudio;
+    const needsKeySelection = !!aistudio;
+    if (needsKeySelection) {
+      const hasKey = await aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        await aistudio.openSelectKey();
+      }
     }
 
     setIsVideoLoading(true);
     setError(null);
-    setLoadingMessage(`กำลังสร้างวิดีโอด้วย ${model === 'veo-3.1-generate-preview' ? 'Veo Pro' : 'Veo Fast'}...`);
+    setLoadingMessage(`กำลังสร้างวิดีโอด้วย ${VIDEO_MODELS[settings.model].label}...`);
 
+    // งานนี้กดลองใหม่จากรายการงาน AI ได้ จึงคืนหน่วยความจำของคลิปเดิมเพียงครั้งเดียว
+    let isReplacedUrlRevoked = false;
     try {
-      const videoUrl = await generateVideo(displayImageUrl as string, model);
-      setVideoUrls(prev => [...prev, videoUrl].slice(-2));
+      await enqueueJob(async signal => {
+        const url = await generateVideo(sourceImageUrl, settings, signal);
+        if (signal.aborted) return;
+        const video: GeneratedVideo = { id: `video-${Date.now()}`, url, settings, sourceImageUrl };
+        // คลิปเดิมอาจถูกล้างไปแล้วระหว่างรอ เช่น เปลี่ยนชุด คลิปใหม่จึงต่อท้ายแทน
+        setVideos(prev => regenerate && prev.some(existing => existing.id === regenerate.id)
+          ? prev.map(existing => existing.id === regenerate.id ? video : existing)
+          : [...prev, video].slice(-2));
+        if (regenerate && !isReplacedUrlRevoked) {
+          isReplacedUrlRevoked = true;
+          URL.revokeObjectURL(regenerate.url);
+        }
+      }, { label: `สร้างวิดีโอ (${describeVideoSettings(settings)})`, retryable: true });
     } catch (err: any) {
+      if (err instanceof JobCancelledError) return;
       const errorMsg = err instanceof Error ? err.message : String(err);
-      if (errorMsg.includes("Requested entity was not found")) {
-        await (window as any).aistudio.openSelectKey();
+      if (needsKeySelection && errorMsg.includes("Requested entity was not found")) {
+        await aistudio.openSelectKey();
       }
       setError(getFriendlyErrorMessage(errorMsg, 'ไม่สามารถสร้างวิดีโอได้'));
     } finally {
@@ -299,6 +784,10 @@ const App: React.FC = () => {
     setWardrobe(prev => [item, ...prev]);
   };
 
+  const handleUpdateWardrobeItem = (updated: WardrobeItem) => {
+    setWardrobe(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
   const handleRemoveWardrobeItem = (itemId: string) => {
     setWardrobe(prev => prev.filter(item => item.id !== itemId));
   };
@@ -306,24 +795,96 @@ const App: React.FC = () => {
   const handleSaveOutfit = () => {
     if (!displayImageUrl) return;
     
-    const currentItems = activeOutfitLayers
-      .map(layer => layer.garment)
-      .filter((item): item is WardrobeItem => item !== null);
-    
     const newSaved: SavedOutfit = {
       id: `saved-${Date.now()}`,
       imageUrl: displayImageUrl,
-      items: currentItems,
-      timestamp: Date.now()
+      items: activeGarments,
+      timestamp: Date.now(),
+      ...(modelImageUrl ? { modelImageUrl } : {}),
+      layers: activeOutfitLayers,
+      poseId: currentPoseId,
+      ...(duplicateSourceId ? { sourceOutfitId: duplicateSourceId } : {}),
     };
     
     setSavedOutfits(prev => [newSaved, ...prev]);
+    setDuplicateSourceId(null);
   };
 
   const handleDeleteSavedOutfit = (id: string) => {
     setSavedOutfits(prev => prev.filter(o => o.id !== id));
   };
 
+  const handleUpdateSavedOutfit = (id: string, changes: Partial<SavedOutfit>) => {
+    setSavedOutfits(prev => prev.map(outfit => outfit.id === id ? { ...outfit, ...changes } : outfit));
+  };
+
+  const handleCreateCollection = (name: string): string => {
+    const collection: OutfitCollection = { id: `collection-${Date.now()}`, name, createdAt: Date.now() };
+    setOutfitCollections(prev => [...prev, collection]);
+    return collection.id;
+  };
+
+  const handleRenameCollection = (id: string, name: string) => {
+    setOutfitCollections(prev => prev.map(collection => collection.id === id ? { ...collection, name } : collection));
+  };
+
+  // ลบคอลเลกชันแล้วชุดข้างในจะกลับไปอยู่ในหมวดยังไม่จัดกลุ่ม ไม่ถูกลบไปด้วย
+  const handleDeleteCollection = (id: string) => {
+    setOutfitCollections(prev => prev.filter(collection => collection.id !== id));
+    setSavedOutfits(prev => prev.map(outfit => {
+      if (outfit.collectionId !== id) return outfit;
+      const { collectionId, ...unsorted } = outfit;
+      return unsorted;
+    }));
+  };
+
+  /**
+   * Brings a saved look back into the dressing room. Looks saved with their
+   * layers come back without any AI call: on the same model they are merged
+   * into the current history, on another model they replace it. Older looks are
+   * dressed again on the current model, which is free for try-ons still cached.
+   * Returns false when nothing was restored, e.g. the user kept the current history.
+   */
+  const restoreOutfit = (outfit: SavedOutfit): boolean => {
+    if (!outfitTree || isLoading) return false;
+    const replacesHistory = !!outfit.layers?.length && !!outfit.modelImageUrl && outfit.modelImageUrl !== modelImageUrl;
+    // ลุคของโมเดลอื่นจะแทนที่ประวัติชุดทั้งหมด จึงถามก่อนถ้ามีชุดที่แต่งค้างอยู่
+    if (replacesHistory && Object.keys(outfitTree.nodes).length > 1
+      && !window.confirm('ลุคนี้บันทึกไว้กับโมเดลอื่น ประวัติชุดที่แต่งอยู่ตอนนี้จะถูกแทนที่ทั้งหมด (บันทึกลุคปัจจุบันไว้ก่อนถ้ายังต้องการ) ดำเนินการต่อ?')) {
+      return false;
+    }
+    setSwapTargetNodeId(null);
+    setError(null);
+    if (!outfit.layers?.length || !outfit.modelImageUrl) {
+      dressFrom(outfitTree.rootId, outfit.items.map(garment => ({ garment })));
+      return true;
+    }
+    if (!replacesHistory) {
+      setOutfitTree(tree => tree && mergeOutfitLayers(tree, outfit.layers ?? []));
+    } else {
+      // เปลี่ยนโมเดลเหมือนเลือกโมเดลใหม่ ประวัติชุดจะเริ่มจากลุคที่บันทึกไว้
+      setModelImageUrl(outfit.modelImageUrl);
+      setOutfitTree(outfitTreeFromLayers(outfit.layers));
+    }
+    const savedLayer = outfit.layers[outfit.layers.length - 1];
+    setCurrentPoseId(outfit.poseId && savedLayer.poseImages[outfit.poseId] ? outfit.poseId : getPoseSource(savedLayer)?.[0] ?? BASE_POSE_ID);
+    setVideos([]);
+    return true;
+  };
+
+  const handleRestoreOutfit = (outfit: SavedOutfit) => {
+    if (restoreOutfit(outfit)) setDuplicateSourceId(null);
+  };
+
+  // ทำสำเนา: แต่งต่อจากลุคเดิมเป็นกิ่งใหม่ เมื่อบันทึกจะได้ลุคใหม่ที่อ้างถึงลุคต้นฉบับ ลุคเดิมไม่ถูกแก้
+  const handleDuplicateOutfit = (outfit: SavedOutfit) => {
+    if (restoreOutfit(outfit)) setDuplicateSourceId(outfit.id);
+  };
+
+  const handleDeleteSavedModel = (id: string) => {
+    setSavedModels(prev => prev.filter(model => model.id !== id));
+  };
+
   const viewVariants = {
     initial: { opacity: 0, y: 15 },
     animate: { opacity: 1, y: 0 },
@@ -333,7 +894,19 @@ const App: React.FC = () => {
   return (
     <div className="font-sans">
       <AnimatePresence mode="wait">
-        {!modelImageUrl ? (
+        {isRestoringSession ? (
+          <motion.div
+            key="restoring"
+            className="w-screen min-h-screen flex flex-col items-center justify-center bg-gray-50"
+            variants={viewVariants}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+          >
+            <Spinner />
+            <p className="text-sm font-serif text-gray-500 mt-4">กำลังกู้คืนเซสชันล่าสุด...</p>
+          </motion.div>
+        ) : !modelImageUrl ? (
           <motion.div
             key="start-screen"
             className="w-screen min-h-screen flex items-start sm:items-center justify-center bg-gray-50 p-4 pb-20"
@@ -343,7 +916,12 @@ const App: React.FC = () => {
             exit="exit"
             transition={{ duration: 0.5, ease: 'easeInOut' }}
           >
-            <StartScreen onModelFinalized={handleModelFinalized} />
+            <StartScreen
+              onModelFinalized={handleModelFinalized}
+              onImportSession={importSession}
+              savedModels={savedModels}
+              onDeleteSavedModel={handleDeleteSavedModel}
+            />
           </motion.div>
         ) : (
           <motion.div
@@ -360,17 +938,26 @@ const App: React.FC = () => {
                 <Canvas 
                   displayImageUrl={displayImageUrl}
                   onStartOver={handleStartOver}
+                  onExportSession={handleExportSession}
+                  onImportSession={handleImportSession}
                   isLoading={isLoading || isVideoLoading}
                   loadingMessage={loadingMessage}
                   onSelectPose={handlePoseSelect}
-                  poseInstructions={POSE_INSTRUCTIONS}
-                  currentPoseIndex={currentPoseIndex}
+                  poses={poses}
+                  currentPoseId={currentPoseId}
                   availablePoseKeys={availablePoseKeys}
-                  videoUrls={videoUrls}
-                  onGenerateVideo={handleGenerateVideo}
+                  videos={videos}
+                  onGenerateVideo={settings => handleGenerateVideo(settings)}
+                  onRegenerateVideo={video => handleGenerateVideo(video.settings, video)}
                   onSaveOutfit={handleSaveOutfit}
                   activeOutfitLayer={currentLayer}
+                  outfitItems={activeGarments}
                   onGenerateAllPoses={handleGenerateAllPoses}
+                  onCancelLoading={loadingController ? handleCancelLoading : undefined}
+                  pendingPoseKeys={outfitTree ? pendingPoses[outfitTree.currentId] ?? [] : []}
+                  onRegenerateImage={canRegenerateImage ? handleRegenerateImage : undefined}
+                  driftFlags={currentLayer?.driftFlags?.[currentPoseId] ?? []}
+                  onOpenLookbook={() => setIsLookbookOpen(true)}
                 />
               </div>
 
@@ -391,10 +978,45 @@ const App: React.FC = () => {
                         <p>{error}</p>
                       </div>
                     )}
-                    <OutfitStack 
-                      outfitHistory={activeOutfitLayers}
-                      onRemoveLastGarment={handleRemoveLastGarment}
-                    />
+                    {outfitTree && (
+                      <HistoryTree
+                        tree={outfitTree}
+                        isLoading={isLoading}
+                        onJumpToNode={handleJumpToNode}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        onRemoveLayer={handleRemoveLayer}
+                        swapTargetNodeId={swapTargetNodeId}
+                        onStartSwap={setSwapTargetNodeId}
+                        onCancelSwap={() => setSwapTargetNodeId(null)}
+                        outdatedNodeIds={outdatedNodeIds}
+                        onUpdateLayer={handleUpdateLayer}
+                      />
+                    )}
+                    <button
+                      onClick={() => setIsBatchOpen(true)}
+                      disabled={savedModels.length === 0}
+                      className="flex items-center justify-center gap-2 w-full py-2.5 rounded-xl border border-indigo-200 bg-indigo-50/50 text-indigo-700 text-sm font-bold hover:bg-indigo-50 transition-colors disabled:opacity-50"
+                    >
+                      <UsersIcon className="w-4 h-4" />
+                      ลองไอเทมกับหลายโมเดล ({savedModels.length})
+                    </button>
+                    <button
+                      onClick={() => setIsFullLookOpen(true)}
+                      disabled={isLoading || wardrobe.length < 2}
+                      className="flex items-center justify-center gap-2 w-full py-2.5 rounded-xl border border-gray-200 text-gray-700 text-sm font-bold hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <ShirtIcon className="w-4 h-4" />
+                      แต่งทั้งชุดในครั้งเดียว
+                    </button>
+                    <button
+                      onClick={() => setIsRecommendOpen(true)}
+                      disabled={isLoading || wardrobe.length < 2}
+                      className="flex items-center justify-center gap-2 w-full py-2.5 rounded-xl border border-gray-200 text-gray-700 text-sm font-bold hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Wand2Icon className="w-4 h-4" />
+                      แนะนำลุคจากตู้เสื้อผ้า
+                    </button>
                     <WardrobePanel
                       onGarmentSelect={handleGarmentSelect}
                       activeGarmentIds={activeGarmentIds}
@@ -402,14 +1024,70 @@ const App: React.FC = () => {
                       wardrobe={wardrobe}
                       onAddItemToWardrobe={handleAddItemToWardrobe}
                       onRemoveItemFromWardrobe={handleRemoveWardrobeItem}
+                      onUpdateWardrobeItem={handleUpdateWardrobeItem}
+                      garmentUsage={wardrobeUsage}
+                    />
+                    <PosePanel
+                      poses={poses}
+                      currentPoseId={currentPoseId}
+                      isLoading={isLoading}
+                      onPoseSelect={handlePoseSelect}
+                      onAddPose={handleAddPose}
+                      onUpdatePose={handleUpdatePose}
+                      onDeletePose={handleDeletePose}
+                      onMovePose={handleMovePose}
+                      isConsistencyMode={isConsistencyMode}
+                      onConsistencyModeChange={setIsConsistencyMode}
                     />
                     <SavedOutfits 
                       outfits={savedOutfits} 
                       onDelete={handleDeleteSavedOutfit}
+                      onUpdate={handleUpdateSavedOutfit}
+                      collections={outfitCollections}
+                      onCreateCollection={handleCreateCollection}
+                      onRenameCollection={handleRenameCollection}
+                      onDeleteCollection={handleDeleteCollection}
+                      onRestore={handleRestoreOutfit}
+                      onDuplicate={handleDuplicateOutfit}
+                      duplicateSourceId={duplicateSourceId}
+                      isLoading={isLoading}
                     />
                   </div>
               </aside>
             </main>
+            <AnimatePresence>
+              {isBatchOpen && (
+                <BatchTryOnModal
+                  models={savedModels}
+                  wardrobe={wardrobe}
+                  onClose={() => setIsBatchOpen(false)}
+                />
+              )}
+              {isLookbookOpen && (
+                <LookbookModal
+                  savedOutfits={savedOutfits}
+                  collections={outfitCollections}
+                  poses={poses}
+                  currentLayer={currentLayer}
+                  currentItems={activeGarments}
+                  onClose={() => setIsLookbookOpen(false)}
+                />
+              )}
+              {isRecommendOpen && (
+                <RecommendModal
+                  wardrobe={wardrobe}
+                  onTryLook={handleTryRecommendedLook}
+                  onClose={() => setIsRecommendOpen(false)}
+                />
+              )}
+              {isFullLookOpen && (
+                <FullLookModal
+                  wardrobe={wardrobe}
+                  onDress={handleDressFullLook}
+                  onClose={() => setIsFullLookOpen(false)}
+                />
+              )}
+            </AnimatePresence>
             <AnimatePresence>
               {(isLoading || isVideoLoading) && isMobile && (
                 <motion.div
@@ -422,12 +1100,37 @@ const App: React.FC = () => {
                   {loadingMessage && (
                     <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  {loadingController && (
+                    <button onClick={handleCancelLoading} className="mt-6 px-6 py-2 rounded-full border border-gray-300 bg-white text-sm font-bold text-gray-700 hover:bg-gray-50">
+                      ยกเลิก
+                    </button>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
           </motion.div>
         )}
       </AnimatePresence>
+      {restoreError && (
+        <div className="fixed top-0 inset-x-0 z-[110] bg-red-50 border-b border-red-200 text-red-700 px-4 py-3 text-sm flex flex-wrap items-center gap-x-4 gap-y-2 shadow-md">
+          <div className="flex-grow min-w-0">
+            <p className="font-bold">{restoreError}</p>
+            <p className="text-xs">ระบบหยุดบันทึกอัตโนมัติไว้ เพื่อไม่ให้เซสชันเดิมถูกเขียนทับ การเปลี่ยนแปลงตอนนี้จะไม่ถูกเก็บไว้</p>
+          </div>
+          <button onClick={() => window.location.reload()} className="px-3 py-1.5 rounded-full border border-red-200 bg-white font-bold text-xs hover:bg-red-100">
+            ลองกู้คืนอีกครั้ง
+          </button>
+          <button onClick={handleDiscardStoredSession} className="px-3 py-1.5 rounded-full bg-red-600 text-white font-bold text-xs hover:bg-red-700">
+            ลบเซสชันเดิมและเริ่มบันทึกใหม่
+          </button>
+        </div>
+      )}
+      {tryOnProvider.id === 'mock' && (
+        <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[105] bg-amber-100 border border-amber-300 text-amber-800 rounded-full px-3 py-1 text-[11px] font-bold shadow-sm pointer-events-none">
+          โหมดเดโม: ภาพทั้งหมดสร้างด้วยผู้ให้บริการจำลอง (TRY_ON_PROVIDER=mock) ไม่ใช่ AI จริง
+        </div>
+      )}
+      <JobsTray />
       <Footer isOnDressingScreen={!!modelImageUrl} />
     </div>
   );
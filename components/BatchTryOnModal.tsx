@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { SavedModel, WardrobeItem } from '../types';
+import { BatchTryOnResult, runBatchTryOn } from '../services/batchTryOn';
+import { getJobConcurrency } from '../services/jobQueue';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { CheckCircleIcon, RotateCcwIcon, UsersIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface BatchTryOnModalProps {
+  models: SavedModel[];
+  wardrobe: WardrobeItem[];
+  onClose: () => void;
+}
+
+const BatchTryOnModal: React.FC<BatchTryOnModalProps> = ({ models, wardrobe, onClose }) => {
+  const [garmentId, setGarmentId] = useState<string | null>(null);
+  const [selectedModelIds, setSelectedModelIds] = useState<string[]>(() => models.map(model => model.id));
+  const [results, setResults] = useState<Record<string, BatchTryOnResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // ปิดหน้าต่างระหว่างทำงานจะยกเลิกงานที่ยังไม่เสร็จ
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const garment = wardrobe.find(item => item.id === garmentId);
+  const batchModels = models.filter(model => selectedModelIds.includes(model.id));
+  const resultList: BatchTryOnResult[] = Object.values(results);
+  const doneCount = resultList.filter(result => result.status === 'done').length;
+  const failedIds = resultList.filter(result => result.status === 'error').map(result => result.modelId);
+
+  const toggleModel = (modelId: string) => {
+    setSelectedModelIds(prev => prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]);
+  };
+
+  const runBatch = async (targets: SavedModel[]) => {
+    if (!garment || targets.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setIsRunning(true);
+    setResults(prev => ({
+      ...prev,
+      ...Object.fromEntries(targets.map(model => [model.id, { modelId: model.id, status: 'pending' }])),
+    }));
+    try {
+      await runBatchTryOn(targets, garment, {
+        signal: controller.signal,
+        onResult: result => setResults(prev => ({ ...prev, [result.modelId]: result })),
+      });
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'เริ่มงานลองชุดหลายโมเดลไม่สำเร็จ'));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    setResults({});
+    runBatch(batchModels);
+  };
+
+  const handleRetryFailed = () => runBatch(models.filter(model => failedIds.includes(model.id)));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <UsersIcon className="w-6 h-6" />
+            ลองไอเทมกับหลายโมเดล
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">1. เลือกไอเทม</h3>
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {wardrobe.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setGarmentId(item.id)}
+                disabled={isRunning}
+                className={`relative flex-shrink-0 w-20 h-20 rounded-xl border bg-white overflow-hidden transition-all disabled:opacity-60 ${item.id === garmentId ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200 hover:border-gray-300'}`}
+                title={item.name}
+              >
+                <img src={item.url} alt={item.name} className="w-full h-full object-contain p-1.5" />
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">2. เลือกโมเดล ({batchModels.length}/{models.length})</h3>
+          <div className="flex flex-wrap gap-2">
+            {models.map(model => {
+              const isSelected = selectedModelIds.includes(model.id);
+              return (
+                <button
+                  key={model.id}
+                  onClick={() => toggleModel(model.id)}
+                  disabled={isRunning}
+                  className={`relative w-16 aspect-[9/16] rounded-lg overflow-hidden border transition-all disabled:opacity-60 ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200 opacity-50'}`}
+                  title={model.name}
+                >
+                  <img src={model.imageUrl} alt={model.name} className="w-full h-full object-cover" />
+                  {isSelected && <CheckCircleIcon className="absolute top-1 right-1 w-4 h-4 text-white drop-shadow" />}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <button
+            onClick={handleStart}
+            disabled={isRunning || !garment || batchModels.length === 0}
+            className="px-6 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40 flex items-center gap-2"
+          >
+            {isRunning && <Spinner className="w-4 h-4 border-white/30 border-t-white" />}
+            {isRunning ? `กำลังลองชุด (${doneCount}/${resultList.length})` : 'เริ่มลองชุด'}
+          </button>
+          {!isRunning && failedIds.length > 0 && (
+            <button onClick={handleRetryFailed} className="px-4 py-2.5 rounded-xl border border-gray-200 text-sm font-bold text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+              <RotateCcwIcon className="w-4 h-4" />
+              ลองใหม่เฉพาะที่ล้มเหลว ({failedIds.length})
+            </button>
+          )}
+          <span className="text-xs text-gray-400">ทำพร้อมกันครั้งละ {getJobConcurrency()} งาน (ปรับได้ในรายการงาน AI)</span>
+        </div>
+        {error && <p className="text-red-500 text-sm mb-4 bg-red-50 p-2 rounded">{error}</p>}
+
+        {resultList.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {models.filter(model => results[model.id]).map(model => {
+              const result = results[model.id];
+              return (
+                <div key={model.id} className="rounded-xl border border-gray-200 overflow-hidden bg-gray-50">
+                  <div className="relative aspect-[9/16] bg-white">
+                    <img
+                      src={result.imageUrl ?? model.imageUrl}
+                      alt={model.name}
+                      className={`w-full h-full object-cover ${result.status === 'done' ? '' : 'opacity-40'}`}
+                    />
+                    {(result.status === 'pending' || result.status === 'running') && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        {result.status === 'running' ? <Spinner /> : <span className="text-xs font-bold text-gray-500">รอคิว</span>}
+                      </div>
+                    )}
+                    {result.status === 'error' && (
+                      <div className="absolute inset-0 flex items-center justify-center p-3">
+                        <p className="text-xs text-red-600 bg-white/90 rounded p-2 text-center">
+                          {getFriendlyErrorMessage(result.error, 'ลองชุดไม่สำเร็จ')}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="px-3 py-2 flex items-center justify-between text-xs">
+                    <span className="font-semibold text-gray-700 truncate">{model.name}</span>
+                    <span className={result.status === 'done' ? 'text-green-600' : result.status === 'error' ? 'text-red-500' : 'text-gray-400'}>
+                      {result.status === 'done' ? 'สำเร็จ' : result.status === 'error' ? 'ล้มเหลว' : result.status === 'running' ? 'กำลังทำ' : 'รอ'}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BatchTryOnModal;
@@ -4,29 +4,48 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, VideoIcon, PlayIcon, HeartIcon, DownloadIcon, XIcon, Settings2Icon, GridIcon, SquareIcon, Wand2Icon } from './icons';
+import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, VideoIcon, PlayIcon, HeartIcon, DownloadIcon, XIcon, Settings2Icon, GridIcon, SquareIcon, Wand2Icon, FileDownIcon, FileUpIcon, RefreshCwIcon } from './icons';
 import Spinner from './Spinner';
+import CollageExportModal from './CollageExportModal';
+import TurntableModal from './TurntableModal';
 import { AnimatePresence, motion } from 'framer-motion';
-import { OutfitLayer } from '../types';
-
-export type VideoModelType = 'veo-3.1-fast-generate-preview' | 'veo-3.1-generate-preview';
+import { DriftFlag, GeneratedVideo, OutfitLayer, Pose, VideoModelType, VideoScene, VideoSettings, WardrobeItem } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, ExportFormat, ExportOptions, FitMode, getSupportedFormats, MAX_EXPORT_DIMENSION, renderExportImage, SIZE_PRESETS, SizePreset } from '../lib/imageExport';
+import { METADATA_TYPES } from '../lib/imageMetadata';
+import { downloadBlob, getFriendlyErrorMessage } from '../lib/utils';
+import { tryOnProvider } from '../services/geminiService';
+import { DEFAULT_VIDEO_SETTINGS, describeVideoSettings, FULL_HD_DURATION, MAX_VIDEO_TEXT_LENGTH, normalizeVideoSettings, VIDEO_ASPECT_RATIOS, VIDEO_DURATIONS, VIDEO_MODELS, VIDEO_RESOLUTIONS, VIDEO_SCENES } from '../lib/videoSettings';
 
 interface CanvasProps {
   displayImageUrl: string | null;
   onStartOver: () => void;
+  onExportSession: () => void;
+  onImportSession: (file: File) => void;
   isLoading: boolean;
   loadingMessage: string;
-  onSelectPose: (index: number) => void;
-  poseInstructions: string[];
-  currentPoseIndex: number;
+  onSelectPose: (poseId: string) => void;
+  poses: Pose[];
+  currentPoseId: string;
   availablePoseKeys: string[];
-  videoUrls: string[];
-  onGenerateVideo: (model: VideoModelType) => void;
+  videos: GeneratedVideo[];
+  onGenerateVideo: (settings: VideoSettings) => void;
+  onRegenerateVideo: (video: GeneratedVideo) => void;
   onSaveOutfit: () => void;
   activeOutfitLayer?: OutfitLayer;
+  outfitItems: WardrobeItem[];
   onGenerateAllPoses: () => void;
+  onCancelLoading?: () => void;
+  pendingPoseKeys: string[];
+  onRegenerateImage?: () => void;
+  driftFlags: DriftFlag[];
+  onOpenLookbook: () => void;
 }
 
+const DRIFT_LABELS: Record<DriftFlag, string> = {
+  face: 'ใบหน้าอาจไม่ตรงกับโมเดล',
+  garment: 'สีชุดอาจเพี้ยนจากไอเทมจริง',
+};
+
 const VIDEO_LOADING_MESSAGES = [
   "กำลังจัดเตรียมรันเวย์...",
   "กำลังปรับแต่งการเคลื่อนไหวของเนื้อผ้า...",
@@ -38,30 +57,42 @@ const VIDEO_LOADING_MESSAGES = [
 const Canvas: React.FC<CanvasProps> = ({ 
   displayImageUrl, 
   onStartOver, 
+  onExportSession,
+  onImportSession,
   isLoading, 
   loadingMessage, 
   onSelectPose, 
-  poseInstructions, 
-  currentPoseIndex, 
+  poses, 
+  currentPoseId, 
   availablePoseKeys,
-  videoUrls,
+  videos,
   onGenerateVideo,
+  onRegenerateVideo,
   onSaveOutfit,
   activeOutfitLayer,
-  onGenerateAllPoses
+  outfitItems,
+  onGenerateAllPoses,
+  onCancelLoading,
+  pendingPoseKeys,
+  onRegenerateImage,
+  driftFlags,
+  onOpenLookbook
 }) => {
   const [isPoseMenuOpen, setIsPoseMenuOpen] = useState(false);
   const [activeVideoIndex, setActiveVideoIndex] = useState<number | null>(null);
   const [messageIndex, setMessageIndex] = useState(0);
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
   const [showVideoSettings, setShowVideoSettings] = useState(false);
-  const [selectedVideoModel, setSelectedVideoModel] = useState<VideoModelType>('veo-3.1-fast-generate-preview');
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
   
-  const [downloadFormat, setDownloadFormat] = useState<'png' | 'jpeg'>('png');
-  const [downloadQuality, setDownloadQuality] = useState<'high' | 'standard'>('high');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png', 'jpeg']);
   const [isProcessingDownload, setIsProcessingDownload] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
   
   const [viewMode, setViewMode] = useState<'single' | 'collage'>('single');
+  const [isCollageExportOpen, setIsCollageExportOpen] = useState(false);
+  const [isTurntableOpen, setIsTurntableOpen] = useState(false);
 
   const downloadMenuRef = useRef<HTMLDivElement>(null);
   const videoSettingsRef = useRef<HTMLDivElement>(null);
@@ -76,6 +107,10 @@ const Canvas: React.FC<CanvasProps> = ({
     return () => clearInterval(interval);
   }, [isLoading, loadingMessage]);
 
+  useEffect(() => {
+    getSupportedFormats().then(setSupportedFormats);
+  }, []);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (downloadMenuRef.current && !downloadMenuRef.current.contains(event.target as Node)) {
@@ -91,80 +126,68 @@ const Canvas: React.FC<CanvasProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showDownloadMenu, showVideoSettings]);
   
+  const currentPose = poses.find(pose => pose.id === currentPoseId);
+  const generatedPoses = poses.filter(pose => availablePoseKeys.includes(pose.id));
+  const missingPoseCount = poses.length - generatedPoses.length;
+
+  const collageCells = useMemo(() => activeOutfitLayer
+    ? generatedPoses.map(pose => ({ imageUrl: activeOutfitLayer.poseImages[pose.id], caption: pose.name }))
+    : [], [activeOutfitLayer, poses, availablePoseKeys]);
+
+  // Arrows step through poses that already have an image, in library order;
+  // stepping past the last one moves on to the next pose in the library.
+  const poseAfter = (offset: number) => {
+    const index = poses.findIndex(pose => pose.id === currentPoseId);
+    return poses[(index + offset + poses.length) % poses.length];
+  };
+
   const handlePreviousPose = () => {
     if (isLoading || availablePoseKeys.length <= 1) return;
-    const currentPoseInstruction = poseInstructions[currentPoseIndex];
-    const currentIndexInAvailable = availablePoseKeys.indexOf(currentPoseInstruction);
-    if (currentIndexInAvailable === -1) {
-        onSelectPose((currentPoseIndex - 1 + poseInstructions.length) % poseInstructions.length);
+    const generatedIndex = generatedPoses.findIndex(pose => pose.id === currentPoseId);
+    if (generatedIndex === -1) {
+        onSelectPose(poseAfter(-1).id);
         return;
     }
-    const prevIndexInAvailable = (currentIndexInAvailable - 1 + availablePoseKeys.length) % availablePoseKeys.length;
-    const prevPoseInstruction = availablePoseKeys[prevIndexInAvailable];
-    const newGlobalPoseIndex = poseInstructions.indexOf(prevPoseInstruction);
-    if (newGlobalPoseIndex !== -1) {
-        onSelectPose(newGlobalPoseIndex);
-    }
+    onSelectPose(generatedPoses[(generatedIndex - 1 + generatedPoses.length) % generatedPoses.length].id);
     setActiveVideoIndex(null);
   };
 
   const handleNextPose = () => {
     if (isLoading) return;
-    const currentPoseInstruction = poseInstructions[currentPoseIndex];
-    const currentIndexInAvailable = availablePoseKeys.indexOf(currentPoseInstruction);
-    if (currentIndexInAvailable === -1 || availablePoseKeys.length === 0) {
-        onSelectPose((currentPoseIndex + 1) % poseInstructions.length);
-        return;
-    }
-    const nextIndexInAvailable = currentIndexInAvailable + 1;
-    if (nextIndexInAvailable < availablePoseKeys.length) {
-        const nextPoseInstruction = availablePoseKeys[nextIndexInAvailable];
-        const newGlobalPoseIndex = poseInstructions.indexOf(nextPoseInstruction);
-        if (newGlobalPoseIndex !== -1) onSelectPose(newGlobalPoseIndex);
+    const generatedIndex = generatedPoses.findIndex(pose => pose.id === currentPoseId);
+    if (generatedIndex !== -1 && generatedIndex + 1 < generatedPoses.length) {
+        onSelectPose(generatedPoses[generatedIndex + 1].id);
     } else {
-        const newGlobalPoseIndex = (currentPoseIndex + 1) % poseInstructions.length;
-        onSelectPose(newGlobalPoseIndex);
+        onSelectPose(poseAfter(1).id);
     }
     setActiveVideoIndex(null);
   };
 
+  const updateVideoSettings = (changes: Partial<VideoSettings>) =>
+    setVideoSettings((prev: VideoSettings) => ({ ...prev, ...changes }));
+
+  const updateExportOptions = (changes: Partial<ExportOptions>) =>
+    setExportOptions((prev: ExportOptions) => ({ ...prev, ...changes }));
+
   const executeDownload = async () => {
     if (!displayImageUrl) return;
+    setDownloadError(null);
     setIsProcessingDownload(true);
 
     try {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.src = displayImageUrl;
-      
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
+      const { blob, extension } = await renderExportImage(displayImageUrl, exportOptions, {
+        title: outfitItems.map(item => item.name).join(' + ') || 'Wear Fit',
+        items: outfitItems.map(({ id, name, slot, versionId }) => ({ id, name, slot, versionId })),
+        pose: currentPose && { id: currentPose.id, name: currentPose.name, instruction: currentPose.instruction },
+        provider: tryOnProvider.id,
+        model: tryOnProvider.imageModel,
+        createdAt: new Date().toISOString(),
       });
-
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Canvas context error");
-
-      let scale = downloadQuality === 'high' ? 1 : 0.6;
-      canvas.width = img.width * scale;
-      canvas.height = img.height * scale;
-
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-      const mimeType = `image/${downloadFormat}`;
-      const dataUrl = canvas.toDataURL(mimeType, downloadFormat === 'jpeg' ? 0.9 : undefined);
-
-      const link = document.createElement('a');
-      link.href = dataUrl;
-      link.download = `wear-fit-outfit-${Date.now()}.${downloadFormat}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
+      downloadBlob(blob, `wear-fit-outfit-${Date.now()}.${extension}`);
       setShowDownloadMenu(false);
     } catch (err) {
       console.error("Download failed", err);
+      setDownloadError(getFriendlyErrorMessage(err, 'ดาวน์โหลดรูปไม่สำเร็จ'));
     } finally {
       setIsProcessingDownload(false);
     }
@@ -175,8 +198,12 @@ const Canvas: React.FC<CanvasProps> = ({
     return loadingMessage;
   }, [loadingMessage, messageIndex]);
 
-  // Check if we are currently generating missing poses
-  const isGeneratingCollage = isLoading && loadingMessage.includes("ท่าทาง");
+  const optionClassName = (isOn: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${isOn ? 'bg-gray-900 text-white border-gray-900 shadow-md' : 'bg-white text-gray-600 border-gray-200'}`;
+  const labelClassName = 'text-[10px] uppercase tracking-widest text-gray-500 font-bold';
+
+  // Poses still queued or running from "Magic Generate All"
+  const isGeneratingCollage = pendingPoseKeys.length > 0;
   
   return (
     <div className="w-full h-full flex flex-col p-4 relative animate-zoom-in group bg-gray-50/50">
@@ -190,6 +217,31 @@ const Canvas: React.FC<CanvasProps> = ({
               <RotateCcwIcon className="w-3.5 h-3.5 mr-2" />
               เริ่มใหม่
           </button>
+          <button
+              onClick={onExportSession}
+              disabled={isLoading}
+              className="flex items-center justify-center bg-white border border-gray-200 text-gray-700 p-2 rounded-full transition-all hover:bg-gray-50 hover:border-gray-300 active:scale-95 shadow-sm disabled:opacity-50"
+              title="ส่งออกเซสชันเป็นไฟล์"
+          >
+              <FileDownIcon className="w-4 h-4" />
+          </button>
+          <label
+              className={`flex items-center justify-center bg-white border border-gray-200 text-gray-700 p-2 rounded-full transition-all hover:bg-gray-50 hover:border-gray-300 active:scale-95 shadow-sm ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+              title="นำเข้าเซสชันจากไฟล์"
+          >
+              <FileUpIcon className="w-4 h-4" />
+              <input
+                  type="file"
+                  className="hidden"
+                  accept=".json,application/json"
+                  disabled={isLoading}
+                  onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) onImportSession(file);
+                  }}
+              />
+          </label>
       </div>
 
       <div className="absolute top-4 right-4 z-30 flex items-center gap-2">
@@ -227,7 +279,7 @@ const Canvas: React.FC<CanvasProps> = ({
                         initial={{ opacity: 0, y: 10, scale: 0.95 }}
                         animate={{ opacity: 1, y: 0, scale: 1 }}
                         exit={{ opacity: 0, y: 10, scale: 0.95 }}
-                        className="absolute right-0 mt-12 w-64 bg-white rounded-2xl shadow-xl border border-gray-100 p-4 z-50 overflow-hidden"
+                        className="absolute right-0 mt-12 w-72 bg-white rounded-2xl shadow-xl border border-gray-100 p-4 z-50 overflow-hidden"
                       >
                          {/* Download Menu Content (Same as before) */}
                          <div className="space-y-4">
@@ -238,23 +290,102 @@ const Canvas: React.FC<CanvasProps> = ({
                             </button>
                           </div>
                           <div className="space-y-2">
-                            <label className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">รูปแบบไฟล์</label>
+                            <label className={labelClassName}>รูปแบบไฟล์</label>
                             <div className="flex gap-2">
-                              {['png', 'jpeg'].map((format) => (
+                              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
                                 <button
                                   key={format}
-                                  onClick={() => setDownloadFormat(format as any)}
-                                  className={`flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${downloadFormat === format ? 'bg-gray-900 text-white border-gray-900 shadow-md' : 'bg-white text-gray-600 border-gray-200'}`}
+                                  onClick={() => updateExportOptions({ format })}
+                                  disabled={!supportedFormats.includes(format)}
+                                  title={supportedFormats.includes(format) ? undefined : 'เบราว์เซอร์นี้ยังบันทึกรูปแบบนี้ไม่ได้'}
+                                  className={`${optionClassName(exportOptions.format === format)} disabled:opacity-30 disabled:cursor-not-allowed`}
                                 >
-                                  {format.toUpperCase()}
+                                  {EXPORT_FORMATS[format].label}
                                 </button>
                               ))}
                             </div>
                           </div>
+                          <div className="space-y-2">
+                            <label className={labelClassName}>ขนาด</label>
+                            <select
+                              value={exportOptions.preset}
+                              onChange={(e) => updateExportOptions({ preset: e.target.value as SizePreset })}
+                              className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                            >
+                              {(Object.keys(SIZE_PRESETS) as SizePreset[]).map(preset => {
+                                const { label, width, height } = SIZE_PRESETS[preset];
+                                return <option key={preset} value={preset}>{width ? `${label} (${width} × ${height})` : label}</option>;
+                              })}
+                            </select>
+                            {exportOptions.preset === 'custom' && (
+                              <div className="flex items-center gap-2 text-xs text-gray-500">
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={MAX_EXPORT_DIMENSION}
+                                  value={exportOptions.customWidth}
+                                  onChange={(e) => updateExportOptions({ customWidth: Number(e.target.value) })}
+                                  className="w-full border border-gray-200 rounded-lg px-2 py-1 text-xs"
+                                  aria-label="ความกว้าง (px)"
+                                />
+                                ×
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={MAX_EXPORT_DIMENSION}
+                                  value={exportOptions.customHeight}
+                                  onChange={(e) => updateExportOptions({ customHeight: Number(e.target.value) })}
+                                  className="w-full border border-gray-200 rounded-lg px-2 py-1 text-xs"
+                                  aria-label="ความสูง (px)"
+                                />
+                                px
+                              </div>
+                            )}
+                            {exportOptions.preset !== 'original' && (
+                              <div className="flex items-center gap-2">
+                                {([['crop', 'ครอปอัตโนมัติ'], ['pad', 'เติมขอบ']] as [FitMode, string][]).map(([fit, label]) => (
+                                  <button key={fit} onClick={() => updateExportOptions({ fit })} className={optionClassName(exportOptions.fit === fit)}>
+                                    {label}
+                                  </button>
+                                ))}
+                                {exportOptions.fit === 'pad' && (
+                                  <input
+                                    type="color"
+                                    value={exportOptions.padColor}
+                                    onChange={(e) => updateExportOptions({ padColor: e.target.value })}
+                                    className="w-8 h-7 rounded border border-gray-200 cursor-pointer shrink-0"
+                                    aria-label="สีขอบ"
+                                  />
+                                )}
+                              </div>
+                            )}
+                          </div>
+                          <label className="flex items-start gap-2 text-xs font-semibold text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions.embedMetadata}
+                              onChange={(e) => updateExportOptions({ embedMetadata: e.target.checked })}
+                              className="mt-0.5"
+                            />
+                            <span>
+                              ฝังรายการไอเทมและค่าที่ใช้สร้างภาพไว้ในไฟล์
+                              {!METADATA_TYPES.includes(EXPORT_FORMATS[exportOptions.format].type) && (
+                                <span className="block font-normal text-gray-400">ไฟล์ {EXPORT_FORMATS[exportOptions.format].label} จะไม่มีข้อมูลนี้</span>
+                              )}
+                            </span>
+                          </label>
                           <button onClick={executeDownload} disabled={isProcessingDownload} className="w-full py-2 bg-indigo-600 text-white rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 hover:bg-indigo-700">
                             {isProcessingDownload ? <Spinner className="w-4 h-4 border-white/30 border-t-white" /> : <DownloadIcon className="w-4 h-4" />}
                             ดาวน์โหลดตอนนี้
                           </button>
+                          {downloadError && <p className="text-red-500 text-xs bg-red-50 p-2 rounded">{downloadError}</p>}
+                          <button
+                            onClick={() => { setShowDownloadMenu(false); onOpenLookbook(); }}
+                            className="w-full py-2 border border-gray-200 text-gray-700 rounded-xl font-bold text-xs flex items-center justify-center gap-2 hover:bg-gray-50"
+                          >
+                            <FileDownIcon className="w-4 h-4" />
+                            ลุคบุ๊ก PDF / คอนแทกต์ชีต
+                          </button>
                         </div>
                       </motion.div>
                     )}
@@ -271,7 +402,7 @@ const Canvas: React.FC<CanvasProps> = ({
           )}
       </div>
 
-      {videoUrls.length > 0 && !isLoading && viewMode === 'single' && (
+      {videos.length > 0 && !isLoading && viewMode === 'single' && (
         <div className="absolute top-20 right-4 z-20 flex flex-col gap-2">
             <button 
                 onClick={() => setActiveVideoIndex(null)}
@@ -279,15 +410,31 @@ const Canvas: React.FC<CanvasProps> = ({
             >
                 ภาพนิ่ง
             </button>
-            {videoUrls.map((_, i) => (
-                <button 
-                    key={i}
-                    onClick={() => setActiveVideoIndex(i)}
-                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold backdrop-blur-sm border transition-all ${activeVideoIndex === i ? 'bg-gray-900 text-white border-gray-900' : 'bg-white/80 text-gray-600 border-gray-200'}`}
-                >
-                    <PlayIcon className="w-2.5 h-2.5" />
-                    วิดีโอ {i + 1}
-                </button>
+            {videos.map((video, i) => (
+                <div key={video.id} className="flex items-center gap-1">
+                    <button 
+                        onClick={() => setActiveVideoIndex(i)}
+                        title={describeVideoSettings(video.settings)}
+                        className={`flex-1 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold backdrop-blur-sm border transition-all ${activeVideoIndex === i ? 'bg-gray-900 text-white border-gray-900' : 'bg-white/80 text-gray-600 border-gray-200'}`}
+                    >
+                        <PlayIcon className="w-2.5 h-2.5" />
+                        วิดีโอ {i + 1} · {VIDEO_SCENES[video.settings.scene].label}
+                    </button>
+                    <button
+                        onClick={() => { setVideoSettings(video.settings); setShowVideoSettings(true); setActiveVideoIndex(null); }}
+                        className="p-1.5 rounded-full bg-white/80 border border-gray-200 text-gray-500 hover:text-gray-800 backdrop-blur-sm"
+                        title="ใช้การตั้งค่าของคลิปนี้"
+                    >
+                        <Settings2Icon className="w-3 h-3" />
+                    </button>
+                    <button
+                        onClick={() => onRegenerateVideo(video)}
+                        className="p-1.5 rounded-full bg-white/80 border border-gray-200 text-gray-500 hover:text-gray-800 backdrop-blur-sm"
+                        title="สร้างคลิปนี้ใหม่ด้วยการตั้งค่าเดิม"
+                    >
+                        <RefreshCwIcon className="w-3 h-3" />
+                    </button>
+                </div>
             ))}
         </div>
       )}
@@ -302,8 +449,8 @@ const Canvas: React.FC<CanvasProps> = ({
                 <>
                     {activeVideoIndex !== null ? (
                         <video
-                            key={videoUrls[activeVideoIndex]}
-                            src={videoUrls[activeVideoIndex]}
+                            key={videos[activeVideoIndex]?.url}
+                            src={videos[activeVideoIndex]?.url}
                             autoPlay
                             loop
                             className="w-full h-full object-contain rounded-2xl shadow-2xl"
@@ -316,6 +463,12 @@ const Canvas: React.FC<CanvasProps> = ({
                             className="w-full h-full object-contain transition-opacity duration-500 animate-fade-in rounded-2xl shadow-2xl bg-white"
                         />
                     )}
+                    {activeVideoIndex === null && driftFlags.length > 0 && (
+                        <div className="absolute top-3 left-3 right-3 z-10 bg-amber-50/95 border border-amber-200 text-amber-800 rounded-xl px-3 py-2 text-xs shadow-sm">
+                            <p className="font-bold">{driftFlags.map(flag => DRIFT_LABELS[flag]).join(' · ')}</p>
+                            <p className="text-[10px] text-amber-700">กดปุ่มสร้างใหม่ข้างตัวเลือกท่าทางเพื่อลองอีกครั้ง</p>
+                        </div>
+                    )}
                 </>
                 ) : (
                     <div className="w-full h-full bg-white border border-gray-200 rounded-2xl flex flex-col items-center justify-center shadow-inner">
@@ -325,7 +478,7 @@ const Canvas: React.FC<CanvasProps> = ({
                 )}
                 
                 <AnimatePresence>
-                {isLoading && !isGeneratingCollage && (
+                {isLoading && (
                     <motion.div
                         className="absolute inset-0 bg-white/80 backdrop-blur-md flex flex-col items-center justify-center z-20 rounded-2xl border border-white/50"
                         initial={{ opacity: 0 }}
@@ -341,6 +494,14 @@ const Canvas: React.FC<CanvasProps> = ({
                         >
                             {currentDisplayMessage}
                         </motion.p>
+                        {onCancelLoading && (
+                            <button
+                                onClick={onCancelLoading}
+                                className="mt-6 px-5 py-2 rounded-full border border-gray-300 bg-white text-xs font-bold text-gray-700 hover:bg-gray-50 active:scale-95 transition-all"
+                            >
+                                ยกเลิก
+                            </button>
+                        )}
                     </motion.div>
                 )}
                 </AnimatePresence>
@@ -351,24 +512,34 @@ const Canvas: React.FC<CanvasProps> = ({
         {viewMode === 'collage' && (
             <div className="w-full h-full max-w-4xl overflow-y-auto pr-2 custom-scrollbar">
                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pb-20">
-                    {poseInstructions.map((pose, index) => {
-                        const hasImage = activeOutfitLayer?.poseImages[pose];
-                        const isCurrent = currentPoseIndex === index;
+                    {poses.map((pose) => {
+                        const hasImage = activeOutfitLayer?.poseImages[pose.id];
+                        const isCurrent = currentPoseId === pose.id;
                         
                         return (
                             <div 
-                                key={pose} 
+                                key={pose.id} 
                                 className={`relative aspect-[9/16] rounded-xl overflow-hidden border transition-all cursor-pointer group ${isCurrent ? 'ring-2 ring-indigo-500 shadow-lg' : 'border-gray-200 hover:border-gray-300'}`}
                                 onClick={() => {
-                                    onSelectPose(index);
+                                    onSelectPose(pose.id);
                                     // Optionally switch back to single view on click? For now, let's keep in collage.
                                 }}
                             >
                                 {hasImage ? (
-                                    <img src={hasImage} alt={pose} className="w-full h-full object-cover" />
+                                    <>
+                                        <img src={hasImage} alt={pose.name} className="w-full h-full object-cover" />
+                                        {activeOutfitLayer?.driftFlags?.[pose.id] && (
+                                            <span
+                                                className="absolute top-2 right-2 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-800 text-[9px] font-bold"
+                                                title={activeOutfitLayer.driftFlags[pose.id].map(flag => DRIFT_LABELS[flag]).join(' · ')}
+                                            >
+                                                เพี้ยน
+                                            </span>
+                                        )}
+                                    </>
                                 ) : (
                                     <div className="w-full h-full bg-gray-50 flex flex-col items-center justify-center p-4 text-center">
-                                        {isGeneratingCollage && index === currentPoseIndex ? (
+                                        {pendingPoseKeys.includes(pose.id) ? (
                                             <div className="flex flex-col items-center">
                                                 <Spinner className="w-6 h-6 text-indigo-500 mb-2"/>
                                                 <span className="text-[10px] text-indigo-600 font-bold animate-pulse">กำลังสร้าง...</span>
@@ -376,13 +547,13 @@ const Canvas: React.FC<CanvasProps> = ({
                                         ) : (
                                             <>
                                                 <div className="w-8 h-8 rounded-full bg-gray-200 mb-2" />
-                                                <span className="text-[10px] text-gray-400">{pose}</span>
+                                                <span className="text-[10px] text-gray-400">{pose.name}</span>
                                             </>
                                         )}
                                     </div>
                                 )}
                                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-3 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <p className="text-white text-[10px] font-medium">{pose}</p>
+                                    <p className="text-white text-[10px] font-medium">{pose.name}</p>
                                 </div>
                             </div>
                         )
@@ -390,21 +561,48 @@ const Canvas: React.FC<CanvasProps> = ({
                  </div>
                  
                  {/* Empty State / Call to Action in Collage */}
-                 {!isGeneratingCollage && availablePoseKeys.length < poseInstructions.length && (
-                     <div className="sticky bottom-4 flex justify-center w-full z-10">
+                 <div className="sticky bottom-4 flex flex-wrap justify-center gap-2 w-full z-10">
+                 {collageCells.length > 0 && (
+                     <button
+                         onClick={() => setIsCollageExportOpen(true)}
+                         className="bg-white text-gray-800 border border-gray-200 px-6 py-3 rounded-full shadow-xl font-bold flex items-center gap-2 hover:bg-gray-50 hover:scale-105 transition-all text-sm"
+                     >
+                         <DownloadIcon className="w-4 h-4" />
+                         ส่งออกคอลลาจ
+                     </button>
+                 )}
+                 {collageCells.length > 1 && (
+                     <button
+                         onClick={() => setIsTurntableOpen(true)}
+                         className="bg-white text-gray-800 border border-gray-200 px-6 py-3 rounded-full shadow-xl font-bold flex items-center gap-2 hover:bg-gray-50 hover:scale-105 transition-all text-sm"
+                     >
+                         <PlayIcon className="w-4 h-4" />
+                         GIF / WebM
+                     </button>
+                 )}
+                 {!isGeneratingCollage && missingPoseCount > 0 && (
                         <button 
                             onClick={onGenerateAllPoses}
                             className="bg-indigo-600 text-white px-6 py-3 rounded-full shadow-xl font-bold flex items-center gap-2 hover:bg-indigo-700 hover:scale-105 transition-all text-sm"
                         >
                             <Wand2Icon className="w-4 h-4" />
-                            Magic Generate All ({poseInstructions.length - availablePoseKeys.length} Remaining)
+                            Magic Generate All ({missingPoseCount} Remaining)
                         </button>
-                     </div>
                  )}
+                 </div>
             </div>
         )}
       </div>
 
+      <AnimatePresence>
+        {isCollageExportOpen && (
+          <CollageExportModal cells={collageCells} onClose={() => setIsCollageExportOpen(false)} />
+        )}
+        {isTurntableOpen && (
+          <TurntableModal cells={collageCells} onClose={() => setIsTurntableOpen(false)} />
+        )}
+      </AnimatePresence>
+
       {/* Control bar (Only show in Single View) */}
       {viewMode === 'single' && (
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-4 transition-all duration-300 w-full px-4">
@@ -414,7 +612,7 @@ const Canvas: React.FC<CanvasProps> = ({
                         <button 
                             onClick={() => setShowVideoSettings(!showVideoSettings)}
                             className="p-3.5 bg-white text-gray-700 rounded-full shadow-lg hover:bg-gray-50 transition-all border border-gray-200"
-                            title="เลือก Video Engine"
+                            title="ตั้งค่าวิดีโอ"
                         >
                             <Settings2Icon className="w-5 h-5" />
                         </button>
@@ -422,27 +620,99 @@ const Canvas: React.FC<CanvasProps> = ({
                         <AnimatePresence>
                             {showVideoSettings && (
                                 <motion.div
-                                    initial={{ opacity: 0, y: -10, scale: 0.95 }}
-                                    animate={{ opacity: 1, y: -130, scale: 1 }}
-                                    exit={{ opacity: 0, y: -10, scale: 0.95 }}
-                                    className="absolute left-0 w-64 bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-gray-200 p-3"
+                                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                                    exit={{ opacity: 0, y: 10, scale: 0.95 }}
+                                    className="absolute left-0 bottom-full mb-3 w-80 max-h-[70vh] overflow-y-auto bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-gray-200 p-3 space-y-3"
                                 >
-                                    <h4 className="text-[10px] uppercase tracking-widest text-gray-500 font-bold mb-2">Video Engine</h4>
+                                    <div>
+                                        <h4 className={`${labelClassName} mb-2`}>Video Engine</h4>
+                                        <div className="space-y-1">
+                                            {(Object.keys(VIDEO_MODELS) as VideoModelType[]).map(model => (
+                                                <button
+                                                    key={model}
+                                                    onClick={() => updateVideoSettings({ model })}
+                                                    className={`w-full text-left p-2 rounded-lg text-xs transition-all ${videoSettings.model === model ? 'bg-indigo-50 border border-indigo-200 font-bold' : 'hover:bg-gray-100'}`}
+                                                >
+                                                    <div className="flex justify-between"><span>{VIDEO_MODELS[model].label}</span><span className="text-[10px] text-indigo-600">{VIDEO_MODELS[model].badge}</span></div>
+                                                    <p className="text-[10px] text-gray-400 font-normal">{VIDEO_MODELS[model].description}</p>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <h4 className={`${labelClassName} mb-2`}>ฉาก</h4>
+                                        <div className="grid grid-cols-2 gap-1">
+                                            {(Object.keys(VIDEO_SCENES) as VideoScene[]).map(scene => (
+                                                <button
+                                                    key={scene}
+                                                    onClick={() => updateVideoSettings({ scene })}
+                                                    className={`text-left p-2 rounded-lg text-xs transition-all border ${videoSettings.scene === scene ? 'bg-indigo-50 border-indigo-200 font-bold' : 'border-transparent hover:bg-gray-100'}`}
+                                                >
+                                                    {VIDEO_SCENES[scene].label}
+                                                    <p className="text-[10px] text-gray-400 font-normal">{VIDEO_SCENES[scene].description}</p>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="space-y-1">
+                                        <h4 className={labelClassName}>กำกับเพิ่มเติม</h4>
+                                        <textarea
+                                            value={videoSettings.direction}
+                                            maxLength={MAX_VIDEO_TEXT_LENGTH}
+                                            onChange={(e) => updateVideoSettings({ direction: e.target.value })}
+                                            placeholder="เช่น หยุดโพสที่ปลายรันเวย์แล้วหันมายิ้ม"
+                                            rows={2}
+                                            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-xs resize-none focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <h4 className={labelClassName}>สิ่งที่ไม่ต้องการ</h4>
+                                        <input
+                                            value={videoSettings.negativePrompt}
+                                            maxLength={MAX_VIDEO_TEXT_LENGTH}
+                                            onChange={(e) => updateVideoSettings({ negativePrompt: e.target.value })}
+                                            placeholder="เช่น text, logos, blurry motion"
+                                            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <h4 className={labelClassName}>สัดส่วนภาพ</h4>
+                                        <div className="flex gap-2">
+                                            {VIDEO_ASPECT_RATIOS.map(aspectRatio => (
+                                                <button key={aspectRatio} onClick={() => updateVideoSettings({ aspectRatio })} className={optionClassName(videoSettings.aspectRatio === aspectRatio)}>
+                                                    {aspectRatio}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="space-y-1">
+                                        <h4 className={labelClassName}>ความละเอียด</h4>
+                                        <div className="flex gap-2">
+                                            {VIDEO_RESOLUTIONS.map(resolution => (
+                                                <button key={resolution} onClick={() => updateVideoSettings({ resolution })} className={optionClassName(videoSettings.resolution === resolution)}>
+                                                    {resolution}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
                                     <div className="space-y-1">
-                                        <button 
-                                            onClick={() => { setSelectedVideoModel('veo-3.1-fast-generate-preview'); setShowVideoSettings(false); }}
-                                            className={`w-full text-left p-2 rounded-lg text-xs transition-all ${selectedVideoModel === 'veo-3.1-fast-generate-preview' ? 'bg-indigo-50 border border-indigo-200 font-bold' : 'hover:bg-gray-100'}`}
-                                        >
-                                            <div className="flex justify-between"><span>Veo 3.1 Fast</span><span className="text-[10px] text-green-600">รวดเร็ว</span></div>
-                                            <p className="text-[10px] text-gray-400 font-normal">ประมวลผลไว เหมาะสำหรับทดสอบท่าทาง</p>
-                                        </button>
-                                        <button 
-                                            onClick={() => { setSelectedVideoModel('veo-3.1-generate-preview'); setShowVideoSettings(false); }}
-                                            className={`w-full text-left p-2 rounded-lg text-xs transition-all ${selectedVideoModel === 'veo-3.1-generate-preview' ? 'bg-indigo-50 border border-indigo-200 font-bold' : 'hover:bg-gray-100'}`}
-                                        >
-                                            <div className="flex justify-between"><span>Veo 3.1 Pro</span><span className="text-[10px] text-indigo-600">HQ</span></div>
-                                            <p className="text-[10px] text-gray-400 font-normal">คุณภาพสูงสุด Cinematic และสมจริงกว่า</p>
-                                        </button>
+                                        <h4 className={labelClassName}>ความยาว</h4>
+                                        <div className="flex gap-2">
+                                            {VIDEO_DURATIONS.map(durationSeconds => (
+                                                <button
+                                                    key={durationSeconds}
+                                                    onClick={() => updateVideoSettings({ durationSeconds })}
+                                                    disabled={videoSettings.resolution === '1080p' && durationSeconds !== FULL_HD_DURATION}
+                                                    className={`${optionClassName(normalizeVideoSettings(videoSettings).durationSeconds === durationSeconds)} disabled:opacity-30 disabled:cursor-not-allowed`}
+                                                >
+                                                    {durationSeconds} วิ
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {videoSettings.resolution === '1080p' && (
+                                            <p className="text-[10px] text-gray-400">1080p สร้างได้เฉพาะคลิป {FULL_HD_DURATION} วินาที</p>
+                                        )}
                                     </div>
                                 </motion.div>
                             )}
@@ -450,13 +720,24 @@ const Canvas: React.FC<CanvasProps> = ({
                     </div>
 
                     <button 
-                        onClick={() => onGenerateVideo(selectedVideoModel)}
-                        disabled={videoUrls.length >= 2}
+                        onClick={() => { setShowVideoSettings(false); onGenerateVideo(videoSettings); }}
+                        disabled={videos.length >= 2}
+                        title={describeVideoSettings(normalizeVideoSettings(videoSettings))}
                         className="flex items-center gap-2 px-8 py-3.5 bg-indigo-600 text-white rounded-full font-bold shadow-2xl hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50 disabled:bg-gray-400 text-base"
                     >
                         <VideoIcon className="w-5 h-5" />
-                        {videoUrls.length === 0 ? "สร้างวิดีโอ" : "สร้างเพิ่ม"}
+                        {videos.length === 0 ? "สร้างวิดีโอ" : "สร้างเพิ่ม"}
                     </button>
+
+                    {collageCells.length > 1 && (
+                        <button
+                            onClick={() => setIsTurntableOpen(true)}
+                            className="p-3.5 bg-white text-gray-700 rounded-full shadow-lg hover:bg-gray-50 transition-all border border-gray-200"
+                            title="ภาพเคลื่อนไหวจากท่าที่สร้างแล้ว (GIF / WebM ไม่ใช้ Veo)"
+                        >
+                            <PlayIcon className="w-5 h-5" />
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -475,15 +756,15 @@ const Canvas: React.FC<CanvasProps> = ({
                             className="absolute bottom-full mb-3 w-64 bg-white/95 backdrop-blur-lg rounded-xl p-2 border border-gray-200 shadow-2xl"
                         >
                             <div className="grid grid-cols-1 gap-1">
-                                {poseInstructions.map((pose, index) => (
+                                {poses.map((pose) => (
                                     <button
-                                        key={pose}
-                                        onClick={() => onSelectPose(index)}
-                                        disabled={isLoading || index === currentPoseIndex}
-                                        className={`w-full text-left text-xs font-medium p-2 rounded-lg flex justify-between items-center ${index === currentPoseIndex ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-gray-700 hover:bg-gray-100'}`}
+                                        key={pose.id}
+                                        onClick={() => onSelectPose(pose.id)}
+                                        disabled={isLoading || pose.id === currentPoseId}
+                                        className={`w-full text-left text-xs font-medium p-2 rounded-lg flex justify-between items-center ${pose.id === currentPoseId ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-gray-700 hover:bg-gray-100'}`}
                                     >
-                                        {pose}
-                                        {activeOutfitLayer?.poseImages[pose] && <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>}
+                                        {pose.name}
+                                        {activeOutfitLayer?.poseImages[pose.id] && <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>}
                                     </button>
                                 ))}
                             </div>
@@ -499,8 +780,8 @@ const Canvas: React.FC<CanvasProps> = ({
                     <ChevronLeftIcon className="w-5 h-5 text-gray-800" />
                 </button>
                 <div className="flex flex-col items-center justify-center w-40 px-2 cursor-pointer" onClick={() => setIsPoseMenuOpen(!isPoseMenuOpen)}>
-                    <span className="text-xs font-bold text-gray-800 truncate w-full text-center">{poseInstructions[currentPoseIndex]}</span>
-                    <span className="text-[9px] text-gray-500">{availablePoseKeys.length}/{poseInstructions.length} Poses</span>
+                    <span className="text-xs font-bold text-gray-800 truncate w-full text-center">{currentPose?.name ?? 'ท่าทางที่ลบไปแล้ว'}</span>
+                    <span className="text-[9px] text-gray-500">{generatedPoses.length}/{poses.length} Poses</span>
                 </div>
                 <button 
                     onClick={handleNextPose}
@@ -509,6 +790,15 @@ const Canvas: React.FC<CanvasProps> = ({
                 >
                     <ChevronRightIcon className="w-5 h-5 text-gray-800" />
                 </button>
+                {onRegenerateImage && (
+                    <button
+                        onClick={onRegenerateImage}
+                        className="p-2.5 rounded-full hover:bg-gray-100 active:scale-90 transition-all border-l border-gray-200"
+                        title="สร้างภาพนี้ใหม่ (ไม่ใช้ผลลัพธ์ที่เก็บไว้)"
+                    >
+                        <RefreshCwIcon className="w-4 h-4 text-gray-800" />
+                    </button>
+                )}
                 </div>
             )}
         </div>
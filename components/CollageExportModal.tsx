@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  COLLAGE_FORMATS,
+  COLLAGE_LAYOUTS,
+  CollageCell,
+  CollageFormat,
+  CollageLayout,
+  CollageOptions,
+  DEFAULT_COLLAGE_OPTIONS,
+  getCollageSize,
+  MAX_COLLAGE_SPACING,
+  renderCollage,
+} from '../lib/collage';
+import { downloadBlob, getFriendlyErrorMessage } from '../lib/utils';
+import { DownloadIcon, GridIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface CollageExportModalProps {
+  cells: CollageCell[];
+  onClose: () => void;
+}
+
+const PREVIEW_SCALE = 0.25;
+const PREVIEW_DELAY_MS = 250;
+
+const CollageExportModal: React.FC<CollageExportModalProps> = ({ cells, onClose }) => {
+  const [options, setOptions] = useState<CollageOptions>(DEFAULT_COLLAGE_OPTIONS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateOptions = (changes: Partial<CollageOptions>) => setOptions((prev: CollageOptions) => ({ ...prev, ...changes }));
+
+  // ตัวอย่างย่อขนาดจะวาดใหม่หลังเลิกปรับค่าสักครู่ ไม่ต้องวาดทุกครั้งที่ลากแถบระยะห่าง
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      renderCollage(cells, { ...options, format: 'jpeg' }, PREVIEW_SCALE)
+        .then(blob => { if (!cancelled) setPreviewUrl(URL.createObjectURL(blob)); })
+        .catch(err => { if (!cancelled) setError(getFriendlyErrorMessage(err, 'สร้างตัวอย่างคอลลาจไม่สำเร็จ')); });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [cells, options]);
+
+  // ตัวอย่างเก่ายังแสดงอยู่จนกว่าตัวใหม่จะเสร็จ แล้วจึงคืนหน่วยความจำ
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  // โลโก้อยู่แค่ในหน้าต่างนี้ ปิดแล้วคืนหน่วยความจำ
+  useEffect(() => () => {
+    if (options.logoUrl) URL.revokeObjectURL(options.logoUrl);
+  }, [options.logoUrl]);
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) updateOptions({ logoUrl: URL.createObjectURL(file) });
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      const blob = await renderCollage(cells, options);
+      downloadBlob(blob, `wear-fit-collage-${Date.now()}.${COLLAGE_FORMATS[options.format].extension}`);
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'ส่งออกคอลลาจไม่สำเร็จ'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const size = getCollageSize(cells.length, options);
+  const optionClassName = (isOn: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${isOn ? 'bg-gray-900 text-white border-gray-900 shadow-md' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`;
+  const labelClassName = 'text-[10px] uppercase tracking-widest text-gray-500 font-bold';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <GridIcon className="w-6 h-6" />
+            ส่งออกคอลลาจ
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-[1fr_16rem] gap-6">
+          <div className="bg-gray-100 rounded-xl p-4 flex items-center justify-center min-h-[16rem]">
+            {previewUrl ? (
+              <img src={previewUrl} alt="ตัวอย่างคอลลาจ" className="max-w-full max-h-[60vh] object-contain shadow-lg" />
+            ) : (
+              <Spinner />
+            )}
+          </div>
+
+          <section className="space-y-4">
+            <div className="space-y-1">
+              <label className={labelClassName}>เลย์เอาต์</label>
+              <div className="flex gap-2">
+                {(Object.keys(COLLAGE_LAYOUTS) as CollageLayout[]).map(layout => (
+                  <button key={layout} onClick={() => updateOptions({ layout })} className={optionClassName(options.layout === layout)}>
+                    {COLLAGE_LAYOUTS[layout].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className={`${labelClassName} flex justify-between`}>
+                ระยะห่าง <span className="normal-case tracking-normal text-gray-400">{options.spacing}px</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_COLLAGE_SPACING}
+                step={4}
+                value={options.spacing}
+                onChange={(e) => updateOptions({ spacing: Number(e.target.value) })}
+                className="w-full accent-gray-900"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <label className={labelClassName}>สีพื้นหลัง</label>
+              <input
+                type="color"
+                value={options.background}
+                onChange={(e) => updateOptions({ background: e.target.value })}
+                className="w-10 h-7 rounded border border-gray-200 cursor-pointer"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+              <input type="checkbox" checked={options.showCaptions} onChange={(e) => updateOptions({ showCaptions: e.target.checked })} />
+              แสดงชื่อท่าใต้ภาพ
+            </label>
+            <div className="space-y-1">
+              <label className={labelClassName}>ลายน้ำ</label>
+              <input
+                value={options.watermarkText}
+                onChange={(e) => updateOptions({ watermarkText: e.target.value })}
+                placeholder="ข้อความ เช่น @yourshop"
+                className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <div className="flex items-center gap-2">
+                <label className="flex-1 text-center cursor-pointer py-1.5 rounded-lg text-xs font-semibold border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50">
+                  {options.logoUrl ? 'เปลี่ยนโลโก้' : 'เพิ่มโลโก้'}
+                  <input type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+                </label>
+                {options.logoUrl && (
+                  <button onClick={() => updateOptions({ logoUrl: null })} className="text-xs font-semibold text-gray-400 hover:text-red-500">
+                    ลบโลโก้
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClassName}>รูปแบบไฟล์</label>
+              <div className="flex gap-2">
+                {(Object.keys(COLLAGE_FORMATS) as CollageFormat[]).map(format => (
+                  <button key={format} onClick={() => updateOptions({ format })} className={optionClassName(options.format === format)}>
+                    {COLLAGE_FORMATS[format].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting || cells.length === 0}
+              className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 hover:bg-indigo-700 disabled:opacity-40"
+            >
+              {isExporting ? <Spinner className="w-4 h-4 border-white/30 border-t-white" /> : <DownloadIcon className="w-4 h-4" />}
+              ดาวน์โหลด ({size.width} × {size.height})
+            </button>
+            {error && <p className="text-red-500 text-sm bg-red-50 p-2 rounded">{error}</p>}
+          </section>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CollageExportModal;
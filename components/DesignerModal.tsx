@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { DesignParams, GarmentSlot, WardrobeItem } from '../types';
+import { analyzeGarment, generateFashionItem } from '../services/geminiService';
+import { enqueueJob, JobCancelledError } from '../services/jobQueue';
+import { SLOT_INFO } from '../lib/garmentSlots';
+import { applyGarmentAttributes, COLOR_NAMES, colorSwatch } from '../lib/garmentAttributes';
+import {
+  DEFAULT_DESIGN_PARAMS,
+  describeDesign,
+  DesignOption,
+  ERA_OPTIONS,
+  FABRIC_OPTIONS,
+  FIT_OPTIONS,
+  MAX_DESIGN_CANDIDATES,
+  PATTERN_OPTIONS,
+} from '../lib/garmentDesign';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { CheckCircleIcon, Wand2Icon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface DesignerModalProps {
+  initialParams?: DesignParams;
+  onAddItems: (items: WardrobeItem[]) => void;
+  onClose: () => void;
+}
+
+interface Candidate {
+  status: 'running' | 'done' | 'error';
+  imageUrl?: string;
+  error?: string;
+}
+
+const inputClassName = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200';
+
+const DesignerModal: React.FC<DesignerModalProps> = ({ initialParams, onAddItems, onClose }) => {
+  const [params, setParams] = useState<DesignParams>(initialParams ?? DEFAULT_DESIGN_PARAMS);
+  const [candidateCount, setCandidateCount] = useState(MAX_DESIGN_CANDIDATES);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [generatedParams, setGeneratedParams] = useState<DesignParams | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // ปิดหน้าต่างจะยกเลิกแบบที่ยังสร้างไม่เสร็จ
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isGenerating = candidates.some(candidate => candidate.status === 'running');
+  const updateParams = (changes: Partial<DesignParams>) => setParams((prev: DesignParams) => ({ ...prev, ...changes }));
+  const setCandidate = (index: number, candidate: Candidate) =>
+    setCandidates((prev: Candidate[]) => prev.map((existing, i) => i === index ? candidate : existing));
+
+  const togglePaletteColor = (color: string) => updateParams({
+    palette: params.palette.includes(color) ? params.palette.filter(name => name !== color) : [...params.palette, color],
+  });
+
+  const handleGenerate = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const brief = params;
+    setGeneratedParams(brief);
+    setSelected([]);
+    setError(null);
+    setCandidates(Array.from({ length: candidateCount }, () => ({ status: 'running' })));
+    // แต่ละแบบเป็นงานแยกในคิว จึงสร้างพร้อมกันได้ตามที่ตั้งไว้ในรายการงาน AI
+    await Promise.all(Array.from({ length: candidateCount }, (_, index) => {
+      const { category, style } = describeDesign(brief, index, candidateCount);
+      return enqueueJob(async signal => {
+        const imageUrl = await generateFashionItem(category, style, signal);
+        if (signal.aborted) return;
+        setCandidate(index, { status: 'done', imageUrl });
+      }, { label: `ออกแบบ ${brief.garmentType} (${index + 1}/${candidateCount})`, signal: controller.signal, retryable: true })
+        .catch(err => {
+          if (err instanceof JobCancelledError) return;
+          setCandidate(index, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+        });
+    }));
+    if (controllerRef.current === controller) controllerRef.current = null;
+  };
+
+  const toggleCandidate = (index: number) =>
+    setSelected((prev: number[]) => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+  // ไอเทมที่เก็บไว้จะผ่านการวิเคราะห์ชื่อและสีเหมือนไอเทมที่สร้างด้วย AI อื่นๆ
+  const handleKeep = async () => {
+    if (!generatedParams || selected.length === 0) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const createdAt = Date.now();
+      const items = await Promise.all(selected.map(async (index, order) => {
+        const imageUrl = candidates[index].imageUrl;
+        const attributes = await enqueueJob(signal => analyzeGarment(imageUrl, signal), { label: `วิเคราะห์ไอเทม: ${generatedParams.garmentType}` });
+        return applyGarmentAttributes({
+          id: `ai-${createdAt}-${order}`,
+          name: `ออกแบบ: ${generatedParams.garmentType}`,
+          url: imageUrl,
+          slot: generatedParams.slot,
+          source: 'ai',
+          designParams: generatedParams,
+        }, attributes);
+      }));
+      onAddItems(items);
+      onClose();
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) setError(getFriendlyErrorMessage(err, 'เก็บไอเทมไม่สำเร็จ'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptionSelect = (label: string, value: string | undefined, options: DesignOption[], onChange: (value: string | undefined) => void) => (
+    <label className="block text-xs font-bold text-gray-500 space-y-1">
+      {label}
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className={inputClassName}>
+        <option value="">ไม่ระบุ</option>
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <Wand2Icon className="w-6 h-6" />
+            ออกแบบไอเทมด้วย AI
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-xs font-bold text-gray-500 space-y-1">
+                ตำแหน่ง
+                <select value={params.slot} onChange={(e) => updateParams({ slot: e.target.value as GarmentSlot })} className={inputClassName}>
+                  {(Object.keys(SLOT_INFO) as GarmentSlot[]).map(slot => <option key={slot} value={slot}>{SLOT_INFO[slot].label}</option>)}
+                </select>
+              </label>
+              <label className="block text-xs font-bold text-gray-500 space-y-1">
+                ประเภท (ภาษาอังกฤษ)
+                <input value={params.garmentType} onChange={(e) => updateParams({ garmentType: e.target.value })} placeholder="bomber jacket" className={inputClassName} />
+              </label>
+            </div>
+            <div className="text-xs font-bold text-gray-500 space-y-1">
+              <p>โทนสี</p>
+              <div className="flex flex-wrap gap-1.5">
+                {COLOR_NAMES.map(color => {
+                  const isSelected = params.palette.includes(color);
+                  return (
+                    <button
+                      key={color}
+                      onClick={() => togglePaletteColor(color)}
+                      className={`flex items-center gap-1.5 px-2 py-1 rounded-full border text-[11px] font-semibold ${isSelected ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: colorSwatch(color) }} />
+                      {color}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {renderOptionSelect('เนื้อผ้า', params.fabric, FABRIC_OPTIONS, fabric => updateParams({ fabric }))}
+              {renderOptionSelect('ทรง', params.fit, FIT_OPTIONS, fit => updateParams({ fit }))}
+              {renderOptionSelect('ลวดลาย', params.pattern, PATTERN_OPTIONS, pattern => updateParams({ pattern }))}
+              {renderOptionSelect('ยุค/สไตล์', params.era, ERA_OPTIONS, era => updateParams({ era }))}
+            </div>
+            <label className="block text-xs font-bold text-gray-500 space-y-1">
+              รายละเอียดเพิ่มเติม
+              <textarea value={params.notes ?? ''} onChange={(e) => updateParams({ notes: e.target.value || undefined })} rows={2} placeholder="e.g. contrast stitching, oversized pockets" className={inputClassName} />
+            </label>
+            <div className="flex items-center gap-3 pt-1">
+              <select value={candidateCount} onChange={(e) => setCandidateCount(Number(e.target.value))} className="border border-gray-200 rounded-lg px-2 py-2 text-sm" aria-label="จำนวนแบบ">
+                {Array.from({ length: MAX_DESIGN_CANDIDATES }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count} แบบ</option>)}
+              </select>
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating || isSaving || !params.garmentType.trim()}
+                className="flex-grow px-6 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {isGenerating && <Spinner className="w-4 h-4 border-white/30 border-t-white" />}
+                {isGenerating ? 'กำลังออกแบบ...' : candidates.length > 0 ? 'ออกแบบใหม่' : 'เริ่มออกแบบ'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            {candidates.length === 0 ? (
+              <div className="h-full min-h-[200px] flex items-center justify-center border-2 border-dashed border-gray-200 rounded-xl text-sm text-gray-400">
+                แบบที่สร้างจะแสดงที่นี่
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  {candidates.map((candidate, index) => {
+                    const isSelected = selected.includes(index);
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => toggleCandidate(index)}
+                        disabled={candidate.status !== 'done' || isSaving}
+                        className={`relative aspect-square rounded-xl border bg-white overflow-hidden ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200'}`}
+                      >
+                        {candidate.imageUrl && <img src={candidate.imageUrl} alt={`แบบที่ ${index + 1}`} className="w-full h-full object-contain p-2" />}
+                        {candidate.status === 'running' && <div className="absolute inset-0 flex items-center justify-center"><Spinner /></div>}
+                        {candidate.status === 'error' && (
+                          <p className="absolute inset-0 flex items-center justify-center p-3 text-xs text-red-600 text-center">
+                            {getFriendlyErrorMessage(candidate.error, 'ออกแบบไม่สำเร็จ')}
+                          </p>
+                        )}
+                        {isSelected && <CheckCircleIcon className="absolute top-2 right-2 w-5 h-5 text-indigo-600" />}
+                      </button>
+                    );
+                  })}
+                </div>
+                <button
+                  onClick={handleKeep}
+                  disabled={selected.length === 0 || isSaving}
+                  className="mt-4 w-full px-6 py-2.5 rounded-xl border border-indigo-200 bg-indigo-50/50 text-indigo-700 text-sm font-bold hover:bg-indigo-50 disabled:opacity-40 flex items-center justify-center gap-2"
+                >
+                  {isSaving && <Spinner className="w-4 h-4 border-indigo-400" />}
+                  เก็บเข้าตู้เสื้อผ้า ({selected.length})
+                </button>
+              </>
+            )}
+            {error && <p className="text-red-500 text-xs mt-3 bg-red-50 p-2 rounded">{error}</p>}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default DesignerModal;
@@ -13,6 +13,7 @@ const REMIX_SUGGESTIONS = [
   "ไอเดีย: บันทึกชุดที่คุณชอบไว้ในคอลเลกชันส่วนตัว",
   "ไอเดีย: สร้างวิดีโอเพื่อดูความสมจริงของการเคลื่อนไหว",
   "ไอเดีย: มิกซ์แอนด์แมทช์เครื่องประดับให้เข้ากับชุดทางการ",
+  "ไอเดีย: กด \"แนะนำลุคจากตู้เสื้อผ้า\" เพื่อให้ช่วยจัดชุดตามโอกาสที่คุณเลือก",
 ];
 
 interface FooterProps {
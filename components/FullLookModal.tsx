@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { WardrobeItem } from '../types';
+import { DRESSING_ORDER, SLOT_INFO, slotsConflict } from '../lib/garmentSlots';
+import { CheckCircleIcon, ChevronDownIcon, ChevronUpIcon, ShirtIcon, XIcon } from './icons';
+
+interface FullLookModalProps {
+  wardrobe: WardrobeItem[];
+  onDress: (items: WardrobeItem[]) => void;
+  onClose: () => void;
+}
+
+const MAX_LOOK_ITEMS = 6;
+
+const dressingRank = (item: WardrobeItem) => item.slot ? DRESSING_ORDER.indexOf(item.slot) : DRESSING_ORDER.length;
+
+const FullLookModal: React.FC<FullLookModalProps> = ({ wardrobe, onDress, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selectedItems = selectedIds
+    .map(id => wardrobe.find(item => item.id === id))
+    .filter((item): item is WardrobeItem => !!item);
+
+  // เลือกไอเทมที่อยู่ตำแหน่งเดียวกันจะแทนที่ชิ้นเดิมในลุค แล้วเรียงตามลำดับการแต่งตัวให้
+  const toggleItem = (item: WardrobeItem) => {
+    if (selectedIds.includes(item.id)) {
+      setSelectedIds(selectedIds.filter(id => id !== item.id));
+      return;
+    }
+    const kept = selectedItems.filter(other => !slotsConflict(item.slot, other.slot) && !slotsConflict(other.slot, item.slot));
+    if (kept.length >= MAX_LOOK_ITEMS) return;
+    const next = [...kept, item].sort((a, b) => dressingRank(a) - dressingRank(b));
+    setSelectedIds(next.map(other => other.id));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= selectedIds.length) return;
+    const next = [...selectedIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSelectedIds(next);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <ShirtIcon className="w-6 h-6" />
+            แต่งทั้งชุดในครั้งเดียว
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">1. เลือกไอเทม (สูงสุด {MAX_LOOK_ITEMS} ชิ้น)</h3>
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {wardrobe.map(item => {
+              const isSelected = selectedIds.includes(item.id);
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => toggleItem(item)}
+                  className={`relative aspect-square rounded-xl border bg-white overflow-hidden transition-all ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200 hover:border-gray-300'}`}
+                  title={item.name}
+                >
+                  <img src={item.url} alt={item.name} className="w-full h-full object-contain p-1.5" />
+                  {isSelected && <CheckCircleIcon className="absolute top-1 right-1 w-4 h-4 text-indigo-600" />}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">2. ลำดับการแต่ง (ชั้นในก่อน)</h3>
+          {selectedItems.length === 0 ? (
+            <p className="text-sm text-gray-400">ยังไม่ได้เลือกไอเทม</p>
+          ) : (
+            <ol className="space-y-1.5">
+              {selectedItems.map((item, index) => (
+                <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-200">
+                  <span className="w-6 h-6 flex items-center justify-center text-xs font-bold rounded-full bg-gray-100 text-gray-600">{index + 1}</span>
+                  <img src={item.url} alt="" className="w-10 h-10 object-contain rounded-md" />
+                  <span className="flex-grow text-sm font-semibold text-gray-800 truncate">{item.name}</span>
+                  <span className="text-[10px] text-gray-400">{item.slot ? SLOT_INFO[item.slot].label : 'ไม่ระบุตำแหน่ง'}</span>
+                  <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="p-1 rounded-md text-gray-400 hover:bg-gray-100 disabled:opacity-30" aria-label={`เลื่อน ${item.name} ขึ้น`}>
+                    <ChevronUpIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveItem(index, 1)} disabled={index === selectedItems.length - 1} className="p-1 rounded-md text-gray-400 hover:bg-gray-100 disabled:opacity-30" aria-label={`เลื่อน ${item.name} ลง`}>
+                    <ChevronDownIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onDress(selectedItems)}
+            disabled={selectedItems.length < 2}
+            className="px-6 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40"
+          >
+            แต่งชุดนี้ ({selectedItems.length} ชิ้น)
+          </button>
+          <span className="text-xs text-gray-400">แต่งบนโมเดลต้นฉบับด้วยคำขอเดียว ได้ผลลัพธ์เป็นกิ่งใหม่ในประวัติชุด</span>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default FullLookModal;
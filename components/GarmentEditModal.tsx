@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { WardrobeItem } from '../types';
+import { editGarment } from '../services/geminiService';
+import { enqueueJob, JobCancelledError } from '../services/jobQueue';
+import { addGarmentVersion, getCurrentVersionId, getGarmentVersions, revertGarmentVersion } from '../lib/garmentVersions';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { Compare } from './ui/compare';
+import { RefreshCwIcon, RotateCcwIcon, Wand2Icon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface GarmentEditModalProps {
+  item: WardrobeItem;
+  onSave: (item: WardrobeItem) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ['เปลี่ยนเป็นสีกรมท่า', 'ทำแขนให้สั้นลง', 'เพิ่มโลโก้เล็กๆ ที่หน้าอก', 'เปลี่ยนเป็นลายทาง'];
+
+/** Edits a wardrobe item with a text instruction and lists its earlier versions. */
+const GarmentEditModal: React.FC<GarmentEditModalProps> = ({ item, onSave, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [result, setResult] = useState<{ url: string; instruction: string } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const versions = getGarmentVersions(item);
+  const currentVersionId = getCurrentVersionId(item);
+
+  const runEdit = async (force: boolean) => {
+    const text = instruction.trim();
+    if (!text || isEditing) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsEditing(true);
+    setError(null);
+    try {
+      const url = await enqueueJob(
+        signal => editGarment(item.url, text, signal, { force }),
+        { label: `แก้ไขไอเทม: ${item.name}`, signal: controller.signal },
+      );
+      setResult({ url, instruction: text });
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) setError(getFriendlyErrorMessage(err, 'แก้ไขไอเทมไม่สำเร็จ'));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsEditing(false);
+    }
+  };
+
+  const handleSaveVersion = () => {
+    if (!result) return;
+    onSave(addGarmentVersion(item, result.url, result.instruction));
+    setResult(null);
+    setInstruction('');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2 truncate">
+            <Wand2Icon className="w-6 h-6 flex-shrink-0" />
+            แก้ไข {item.name}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="relative w-full md:w-1/2 aspect-square flex-shrink-0">
+            {result ? (
+              <Compare
+                firstImage={item.url}
+                secondImage={result.url}
+                className="w-full h-full rounded-xl border border-gray-200 bg-white"
+                slideMode="drag"
+                imageFit="contain"
+              />
+            ) : (
+              <img src={item.url} alt={item.name} className="w-full h-full object-contain rounded-xl border border-gray-200 bg-white p-2" />
+            )}
+            {isEditing && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-xl">
+                <Spinner />
+              </div>
+            )}
+          </div>
+
+          <div className="flex-grow space-y-3">
+            <label className="block text-xs font-bold text-gray-500 space-y-1">
+              ต้องการเปลี่ยนอะไร
+              <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                rows={3}
+                placeholder="เช่น เปลี่ยนเป็นสีกรมท่า"
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+            </label>
+            <div className="flex flex-wrap gap-1.5">
+              {SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => setInstruction(suggestion)}
+                  className="text-[11px] font-semibold px-2.5 py-1 rounded-full border border-gray-200 text-gray-600 hover:bg-gray-50"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => runEdit(false)}
+                disabled={isEditing || !instruction.trim()}
+                className="flex-grow px-4 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40"
+              >
+                {isEditing ? 'กำลังแก้ไข...' : 'แก้ไขไอเทม'}
+              </button>
+              {result && (
+                <button
+                  onClick={() => runEdit(true)}
+                  disabled={isEditing}
+                  className="p-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                  title="สร้างผลลัพธ์ใหม่"
+                >
+                  <RefreshCwIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {result && !isEditing && (
+              <button
+                onClick={handleSaveVersion}
+                className="w-full px-4 py-2.5 rounded-xl border border-indigo-200 bg-indigo-50/50 text-indigo-700 text-sm font-bold hover:bg-indigo-50"
+              >
+                บันทึกเป็นเวอร์ชันใหม่
+              </button>
+            )}
+            {error && <p className="text-red-500 text-xs bg-red-50 p-2 rounded">{error}</p>}
+          </div>
+        </div>
+
+        {versions.length > 1 && (
+          <section className="mt-6 border-t pt-4">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">ประวัติเวอร์ชัน</h3>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {versions.map((version, index) => {
+                const isCurrent = version.id === currentVersionId;
+                return (
+                  <div key={version.id} className={`flex-shrink-0 w-28 rounded-xl border p-2 ${isCurrent ? 'border-indigo-400 ring-1 ring-indigo-200' : 'border-gray-200'}`}>
+                    <img src={version.url} alt={`เวอร์ชัน ${index + 1}`} className="w-full aspect-square object-contain bg-white rounded-lg" />
+                    <p className="text-[10px] text-gray-500 mt-1 line-clamp-2" title={version.instruction}>
+                      {version.instruction ?? 'ต้นฉบับ'}
+                    </p>
+                    {isCurrent ? (
+                      <p className="text-[10px] font-bold text-indigo-600 mt-1">ใช้อยู่</p>
+                    ) : (
+                      <button
+                        onClick={() => onSave(revertGarmentVersion(item, version.id))}
+                        className="flex items-center gap-1 text-[10px] font-bold text-gray-600 hover:text-indigo-600 mt-1"
+                      >
+                        <RotateCcwIcon className="w-3 h-3" />
+                        ย้อนกลับ
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default GarmentEditModal;
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  GarmentPreprocessOptions,
+  MAX_EDGE_PRESETS,
+  PreprocessedGarment,
+  preprocessGarment,
+  WARNING_LABELS,
+} from '../lib/garmentPreprocess';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { Compare } from './ui/compare';
+import { XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface GarmentPreprocessModalProps {
+  file: File;
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+/** Before/after preview of the local clean-up applied to an uploaded garment. */
+const GarmentPreprocessModal: React.FC<GarmentPreprocessModalProps> = ({ file, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<GarmentPreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [result, setResult] = useState<PreprocessedGarment | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setError(null);
+    setResult(null);
+    setResultUrl(null);
+    preprocessGarment(file, file.name, options)
+      .then(processed => {
+        if (cancelled) return;
+        url = URL.createObjectURL(processed.file);
+        setResult(processed);
+        setResultUrl(url);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getFriendlyErrorMessage(err, 'ปรับภาพไอเทมไม่สำเร็จ'));
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, options]);
+
+  const updateOptions = (changes: Partial<GarmentPreprocessOptions>) => setOptions((prev: GarmentPreprocessOptions) => ({ ...prev, ...changes }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">เตรียมภาพไอเทม</h2>
+          <button onClick={onCancel} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="relative w-full md:w-1/2 aspect-square flex-shrink-0">
+            <Compare
+              firstImage={originalUrl ?? undefined}
+              secondImage={resultUrl ?? undefined}
+              className="w-full h-full rounded-xl border border-gray-200 bg-white"
+              slideMode="drag"
+              imageFit="contain"
+            />
+            {!result && !error && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-xl">
+                <Spinner />
+              </div>
+            )}
+          </div>
+
+          <div className="flex-grow space-y-4 text-sm">
+            <p className="text-xs text-gray-400">เลื่อนแถบเพื่อเทียบภาพต้นฉบับ (ซ้าย) กับภาพที่ปรับแล้ว (ขวา)</p>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={options.crop} onChange={(e) => updateOptions({ crop: e.target.checked })} />
+              ตัดขอบว่างรอบไอเทม
+            </label>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={options.flatten} onChange={(e) => updateOptions({ flatten: e.target.checked })} />
+              เติมพื้นหลังโปร่งใสเป็นสีขาว
+            </label>
+            <label className="flex items-center justify-between gap-2 text-gray-700">
+              ขนาดด้านยาวสูงสุด
+              <select
+                value={options.maxEdge}
+                onChange={(e) => updateOptions({ maxEdge: Number(e.target.value) })}
+                className="border border-gray-200 rounded-lg px-2 py-1 text-sm"
+              >
+                {MAX_EDGE_PRESETS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+              </select>
+            </label>
+            {result && (
+              <p className="text-xs text-gray-500">
+                {result.originalWidth}×{result.originalHeight}px → {result.width}×{result.height}px
+              </p>
+            )}
+            {result?.warnings.map(warning => (
+              <p key={warning} className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">{WARNING_LABELS[warning]}</p>
+            ))}
+            {error && <p className="text-red-500 text-xs bg-red-50 p-2 rounded">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 mt-6">
+          <button onClick={() => onConfirm(file)} className="px-4 py-2.5 rounded-xl border border-gray-200 text-sm font-bold text-gray-700 hover:bg-gray-50">
+            ใช้ภาพต้นฉบับ
+          </button>
+          <button
+            onClick={() => result && onConfirm(result.file)}
+            disabled={!result}
+            className="px-6 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40"
+          >
+            ใช้ภาพที่ปรับแล้ว
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default GarmentPreprocessModal;
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { OutfitNode, OutfitTree } from '../types';
+import { canRedo, canUndo, getActivePath } from '../lib/outfitTree';
+import { ArrowLeftRightIcon, GitBranchIcon, Redo2Icon, RefreshCwIcon, Trash2Icon, Undo2Icon, XIcon } from './icons';
+
+interface HistoryTreeProps {
+  tree: OutfitTree;
+  isLoading: boolean;
+  onJumpToNode: (nodeId: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRemoveLayer: (nodeId: string) => void;
+  swapTargetNodeId: string | null;
+  onStartSwap: (nodeId: string) => void;
+  onCancelSwap: () => void;
+  outdatedNodeIds: Set<string>;
+  onUpdateLayer: (nodeId: string) => void;
+}
+
+const HistoryTree: React.FC<HistoryTreeProps> = ({
+  tree,
+  isLoading,
+  onJumpToNode,
+  onUndo,
+  onRedo,
+  onRemoveLayer,
+  swapTargetNodeId,
+  onStartSwap,
+  onCancelSwap,
+  outdatedNodeIds,
+  onUpdateLayer,
+}) => {
+  const activeIds = useMemo(() => new Set(getActivePath(tree).map(node => node.id)), [tree]);
+  const root = tree.nodes[tree.rootId];
+  const swapTarget = swapTargetNodeId ? tree.nodes[swapTargetNodeId] : undefined;
+
+  const renderNode = (node: OutfitNode, layerIndex: number) => {
+    const isCurrent = node.id === tree.currentId;
+    const isActive = activeIds.has(node.id);
+    const isSwapTarget = node.id === swapTargetNodeId;
+    const lookGarments = node.layer.lookGarments;
+    // ชุดเต็มตัวใช้ภาพผลลัพธ์เป็นภาพย่อ เพราะไม่มีไอเทมชิ้นใดแทนทั้งลุคได้
+    const thumbnailUrl = (!lookGarments && node.layer.garment?.url) || Object.values(node.layer.poseImages)[0];
+    const isOutdated = outdatedNodeIds.has(node.id);
+    const layerName = lookGarments ? `ชุดเต็มตัว (${lookGarments.length} ชิ้น)` : node.layer.garment?.name ?? 'นางแบบพื้นฐาน';
+    return (
+      <div
+        key={node.id}
+        className={`flex items-center justify-between p-2 rounded-lg animate-fade-in border transition-all ${isSwapTarget ? 'bg-amber-50 border-amber-300 ring-1 ring-amber-200' : isCurrent ? 'bg-white border-indigo-300 ring-1 ring-indigo-200' : isActive ? 'bg-white/50 border-gray-200/80' : 'bg-gray-50/50 border-gray-100 opacity-60 hover:opacity-100'}`}
+      >
+        <button
+          onClick={() => onJumpToNode(node.id)}
+          disabled={isLoading || isCurrent}
+          className="flex items-center overflow-hidden text-left flex-grow disabled:cursor-default"
+          title="กลับไปที่ชุดนี้"
+        >
+          <span className={`flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold rounded-full ${isActive ? 'text-gray-600 bg-gray-200' : 'text-gray-400 bg-gray-100'}`}>
+            {layerIndex + 1}
+          </span>
+          {thumbnailUrl && (
+            <img src={thumbnailUrl} alt={layerName} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3" />
+          )}
+          <span className="flex flex-col overflow-hidden">
+            <span className="font-semibold text-gray-800 truncate" title={layerName}>
+              {layerName}
+            </span>
+            {lookGarments && (
+              <span className="flex items-center gap-1 mt-1">
+                {lookGarments.map(item => (
+                  <img key={item.id} src={item.url} alt={item.name} title={item.name} className="w-5 h-5 object-contain rounded bg-white border border-gray-100" />
+                ))}
+              </span>
+            )}
+            {isOutdated && (
+              <span className="text-[10px] font-semibold text-amber-600">ไอเทมถูกแก้ไขแล้ว ภาพนี้ยังเป็นเวอร์ชันเก่า</span>
+            )}
+          </span>
+        </button>
+        {node.childIds.length > 1 && (
+          <span className="flex-shrink-0 flex items-center gap-1 text-[10px] font-bold text-gray-400 mr-1" title={`${node.childIds.length} ทางเลือก`}>
+            <GitBranchIcon className="w-3 h-3" />
+            {node.childIds.length}
+          </span>
+        )}
+        {isActive && node.parentId && (
+          <div className="flex-shrink-0 flex items-center">
+            {isOutdated && (
+              <button
+                onClick={() => onUpdateLayer(node.id)}
+                disabled={isLoading}
+                className="text-amber-600 hover:text-amber-700 transition-colors p-2 rounded-md hover:bg-amber-50 disabled:opacity-40"
+                aria-label={`อัปเดต ${layerName}`}
+                title={lookGarments ? 'แต่งชุดเต็มตัวใหม่ด้วยไอเทมเวอร์ชันล่าสุด' : 'ลองไอเทมเวอร์ชันล่าสุดแทน'}
+              >
+                <RefreshCwIcon className="w-4 h-4" />
+              </button>
+            )}
+            {!lookGarments && (
+              <button
+                onClick={() => onStartSwap(node.id)}
+                disabled={isLoading}
+                className="text-gray-500 hover:text-indigo-600 transition-colors p-2 rounded-md hover:bg-indigo-50 disabled:opacity-40"
+                aria-label={`เปลี่ยน ${node.layer.garment?.name}`}
+                title="เปลี่ยนเป็นไอเทมอื่น"
+              >
+                <ArrowLeftRightIcon className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => onRemoveLayer(node.id)}
+              disabled={isLoading}
+              className="text-gray-500 hover:text-red-600 transition-colors p-2 rounded-md hover:bg-red-50 disabled:opacity-40"
+              aria-label={`เอาออก ${layerName}`}
+              title={isCurrent ? 'เอาออก' : 'เอาออกและสร้างไอเทมที่ใส่ทับใหม่'}
+            >
+              <Trash2Icon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // A chain of single children stays at the same indent; only real branch points nest.
+  const renderBranch = (startNode: OutfitNode, startIndex: number): React.ReactNode[] => {
+    const rows: React.ReactNode[] = [];
+    let node: OutfitNode | undefined = startNode;
+    let layerIndex = startIndex;
+    while (node) {
+      rows.push(renderNode(node, layerIndex));
+      if (node.childIds.length === 1) {
+        node = tree.nodes[node.childIds[0]];
+        layerIndex++;
+        continue;
+      }
+      if (node.childIds.length > 1) {
+        const nextIndex = layerIndex + 1;
+        rows.push(
+          <div key={`${node.id}-branches`} className="ml-3 pl-3 border-l-2 border-gray-200 space-y-3">
+            {node.childIds.map(childId => (
+              <div key={childId} className="space-y-2">{renderBranch(tree.nodes[childId], nextIndex)}</div>
+            ))}
+          </div>
+        );
+      }
+      node = undefined;
+    }
+    return rows;
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between border-b border-gray-400/50 pb-2 mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">ชุดที่เลือก</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={isLoading || !canUndo(tree)}
+            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-30"
+            title="ย้อนกลับ"
+          >
+            <Undo2Icon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={isLoading || !canRedo(tree)}
+            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-30"
+            title="ทำซ้ำ"
+          >
+            <Redo2Icon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {swapTarget && (
+        <div className="flex items-center justify-between gap-2 mb-3 p-2 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          <span>เลือกไอเทมจากตู้เสื้อผ้าเพื่อแทนที่ <b>{swapTarget.layer.garment?.name}</b></span>
+          <button onClick={onCancelSwap} className="p-1 rounded-full hover:bg-amber-100" aria-label="ยกเลิกการเปลี่ยน">
+            <XIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+      <div className="space-y-2">
+        {renderBranch(root, 0)}
+        {root.childIds.length === 0 && (
+            <p className="text-center text-sm text-gray-500 pt-4">เลือกไอเทมจากตู้เสื้อผ้าด้านล่างเพื่อลองสวมใส่</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryTree;
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import {
+  cancelJob,
+  dismissJob,
+  getJobConcurrency,
+  getJobs,
+  Job,
+  JobStatus,
+  MAX_JOB_CONCURRENCY,
+  retryJob,
+  setJobConcurrency,
+  subscribeJobs,
+} from '../services/jobQueue';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { ChevronDownIcon, ChevronUpIcon, RotateCcwIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'รอคิว',
+  running: 'กำลังทำ',
+  retrying: 'รอลองใหม่',
+  done: 'เสร็จแล้ว',
+  failed: 'ล้มเหลว',
+  cancelled: 'ยกเลิกแล้ว',
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-500',
+  running: 'bg-indigo-50 text-indigo-600',
+  retrying: 'bg-amber-50 text-amber-700',
+  done: 'bg-green-50 text-green-600',
+  failed: 'bg-red-50 text-red-600',
+  cancelled: 'bg-gray-100 text-gray-400',
+};
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+/** Floating list of every AI request in the queue, with cancel and retry controls. */
+const JobsTray: React.FC = () => {
+  const [jobs, setJobs] = useState<Job[]>(getJobs);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => subscribeJobs(setJobs), []);
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isActive).length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const concurrency = getJobConcurrency();
+
+  return (
+    <div className="fixed bottom-16 left-4 z-[60] w-80 max-w-[calc(100vw-2rem)] bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          {activeCount > 0 && <Spinner className="w-4 h-4 text-indigo-600" />}
+          งาน AI
+          {activeCount > 0 && <span className="text-xs font-semibold text-indigo-600">{activeCount} กำลังดำเนินการ</span>}
+          {failedCount > 0 && <span className="text-xs font-semibold text-red-500">{failedCount} ล้มเหลว</span>}
+        </span>
+        {isExpanded ? <ChevronDownIcon className="w-4 h-4 text-gray-400" /> : <ChevronUpIcon className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0 }}
+            animate={{ height: 'auto' }}
+            exit={{ height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="flex items-center justify-between px-4 py-2 border-t border-gray-100 text-xs text-gray-500">
+              <span>ทำพร้อมกันได้</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setJobConcurrency(concurrency - 1)}
+                  disabled={concurrency <= 1}
+                  className="w-6 h-6 rounded-full border border-gray-200 hover:bg-gray-50 disabled:opacity-30"
+                  aria-label="ลดจำนวนงานพร้อมกัน"
+                >
+                  −
+                </button>
+                <span className="w-6 text-center font-bold text-gray-800">{concurrency}</span>
+                <button
+                  onClick={() => setJobConcurrency(concurrency + 1)}
+                  disabled={concurrency >= MAX_JOB_CONCURRENCY}
+                  className="w-6 h-6 rounded-full border border-gray-200 hover:bg-gray-50 disabled:opacity-30"
+                  aria-label="เพิ่มจำนวนงานพร้อมกัน"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 border-t border-gray-100">
+              {jobs.map(job => (
+                <li key={job.id} className="px-4 py-2.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs font-semibold text-gray-800 truncate" title={job.label}>{job.label}</p>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>
+                        {STATUS_LABELS[job.status]}{job.attempts > 1 && isActive(job) ? ` (${job.attempts})` : ''}
+                      </span>
+                      {isActive(job) && (
+                        <button onClick={() => cancelJob(job.id)} className="p-1 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50" title="ยกเลิก">
+                          <XIcon className="w-3 h-3" />
+                        </button>
+                      )}
+                      {job.status === 'failed' && job.retryable && (
+                        <button onClick={() => retryJob(job.id)} className="p-1 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50" title="ลองใหม่">
+                          <RotateCcwIcon className="w-3 h-3" />
+                        </button>
+                      )}
+                      {job.status === 'failed' && (
+                        <button onClick={() => dismissJob(job.id)} className="p-1 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-100" title="ปิด">
+                          <XIcon className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+                    <p className="text-[10px] text-red-500 mt-1 line-clamp-2">{getFriendlyErrorMessage(job.error, 'เกิดข้อผิดพลาด')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default JobsTray;
@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { OutfitCollection, OutfitLayer, Pose, SavedOutfit, WardrobeItem } from '../types';
+import {
+  CONTACT_SHEET_COLUMNS,
+  exportLookbookPdf,
+  LookbookEntry,
+  PAGE_SIZES,
+  PageOrientation,
+  PageSizeId,
+  renderContactSheet,
+} from '../lib/lookbook';
+import { getOutfitTitle, MAX_RATING } from '../lib/savedOutfitSearch';
+import { OCCASION_INFO } from '../lib/outfitRecommender';
+import { downloadBlob, getFriendlyErrorMessage } from '../lib/utils';
+import { CheckCircleIcon, FileDownIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface LookbookModalProps {
+  savedOutfits: SavedOutfit[];
+  collections: OutfitCollection[];
+  poses: Pose[];
+  currentLayer?: OutfitLayer;
+  currentItems: WardrobeItem[]; // Everything worn in the current layer, for the pose pages
+  onClose: () => void;
+}
+
+type LookbookSource = 'outfits' | 'poses';
+type LookbookOutput = 'pdf' | 'sheet';
+
+const toEntryItems = (items: WardrobeItem[]) => items.map(item => ({ name: item.name, url: item.url }));
+
+const outfitSubtitle = (outfit: SavedOutfit) => [
+  new Date(outfit.timestamp).toLocaleDateString('th-TH'),
+  outfit.rating ? '★'.repeat(outfit.rating) + '☆'.repeat(MAX_RATING - outfit.rating) : '',
+  ...(outfit.occasions ?? []).map(occasion => OCCASION_INFO[occasion].label),
+  outfit.notes ?? '',
+].filter(Boolean).join(' · ');
+
+const LookbookModal: React.FC<LookbookModalProps> = ({ savedOutfits, collections, poses, currentLayer, currentItems, onClose }) => {
+  const [source, setSource] = useState<LookbookSource>(savedOutfits.length > 0 ? 'outfits' : 'poses');
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => savedOutfits.map(outfit => outfit.id));
+  const [output, setOutput] = useState<LookbookOutput>('pdf');
+  const [title, setTitle] = useState('Lookbook');
+  const [pageSize, setPageSize] = useState<PageSizeId>('a4');
+  const [orientation, setOrientation] = useState<PageOrientation>('portrait');
+  const [columns, setColumns] = useState(4);
+  const [sheetFormat, setSheetFormat] = useState<'png' | 'jpeg'>('png');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const poseEntries: LookbookEntry[] = useMemo(() => currentLayer
+    ? poses.filter(pose => currentLayer.poseImages[pose.id]).map(pose => ({
+        id: pose.id,
+        title: pose.name,
+        imageUrl: currentLayer.poseImages[pose.id],
+        items: toEntryItems(currentItems),
+      }))
+    : [], [poses, currentLayer, currentItems]);
+
+  const entries: LookbookEntry[] = source === 'poses'
+    ? poseEntries
+    : savedOutfits.filter(outfit => selectedIds.includes(outfit.id)).map(outfit => ({
+        id: outfit.id,
+        title: getOutfitTitle(outfit),
+        subtitle: outfitSubtitle(outfit),
+        imageUrl: outfit.imageUrl,
+        items: toEntryItems(outfit.items),
+      }));
+
+  const toggleOutfit = (id: string) => {
+    setSelectedIds((prev: string[]) => prev.includes(id) ? prev.filter(entry => entry !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+    if (entries.length === 0) return;
+    setError(null);
+    setIsExporting(true);
+    const name = title.trim() || 'Lookbook';
+    try {
+      if (output === 'pdf') {
+        const pdf = await exportLookbookPdf(entries, { title: name, pageSize, orientation }, (completed, total) => setProgress({ completed, total }));
+        downloadBlob(pdf, `wear-fit-lookbook-${Date.now()}.pdf`);
+      } else {
+        const sheet = await renderContactSheet(entries, { title: name, columns }, sheetFormat === 'jpeg' ? 'image/jpeg' : 'image/png');
+        downloadBlob(sheet, `wear-fit-contact-sheet-${Date.now()}.${sheetFormat === 'jpeg' ? 'jpg' : 'png'}`);
+      }
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'ส่งออกลุคบุ๊กไม่สำเร็จ'));
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const optionClassName = (isOn: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${isOn ? 'bg-gray-900 text-white border-gray-900 shadow-md' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`;
+  const selectClassName = 'w-full text-xs font-semibold border border-gray-200 rounded-lg px-2 py-1.5 bg-white text-gray-700 focus:outline-none';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <FileDownIcon className="w-6 h-6" />
+            ส่งออกลุคบุ๊ก
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-[1fr_16rem] gap-6">
+          <section>
+            <div className="flex gap-2 mb-3">
+              <button onClick={() => setSource('outfits')} disabled={isExporting} className={optionClassName(source === 'outfits')}>
+                ชุดที่บันทึกไว้ ({savedOutfits.length})
+              </button>
+              <button onClick={() => setSource('poses')} disabled={isExporting} className={optionClassName(source === 'poses')}>
+                ทุกท่าของชุดปัจจุบัน ({poseEntries.length})
+              </button>
+            </div>
+
+            {source === 'outfits' && (
+              <>
+                <div className="flex flex-wrap items-center gap-3 mb-2 text-[11px] font-semibold text-gray-500">
+                  <button onClick={() => setSelectedIds(savedOutfits.map(outfit => outfit.id))} className="hover:text-gray-900">เลือกทั้งหมด</button>
+                  <button onClick={() => setSelectedIds([])} className="hover:text-gray-900">ไม่เลือกเลย</button>
+                  {collections.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => setSelectedIds(savedOutfits.filter(outfit => outfit.collectionId === e.target.value).map(outfit => outfit.id))}
+                      className="border border-gray-200 rounded-full px-2 py-0.5 bg-white focus:outline-none"
+                      aria-label="เลือกตามคอลเลกชัน"
+                    >
+                      <option value="" disabled>เลือกตามคอลเลกชัน</option>
+                      {collections.map(collection => <option key={collection.id} value={collection.id}>{collection.name}</option>)}
+                    </select>
+                  )}
+                </div>
+                {savedOutfits.length === 0 ? (
+                  <p className="text-sm text-gray-400 italic py-6 text-center bg-gray-50 rounded-lg">ยังไม่มีชุดที่บันทึกไว้</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {savedOutfits.map(outfit => {
+                      const isSelected = selectedIds.includes(outfit.id);
+                      return (
+                        <button
+                          key={outfit.id}
+                          onClick={() => toggleOutfit(outfit.id)}
+                          disabled={isExporting}
+                          className={`relative rounded-lg overflow-hidden border text-left transition-all ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200 opacity-50'}`}
+                        >
+                          <img src={outfit.imageUrl} alt={getOutfitTitle(outfit)} className="w-full aspect-[9/16] object-cover" />
+                          <p className="text-[10px] font-semibold text-gray-700 truncate px-1.5 py-1">{getOutfitTitle(outfit)}</p>
+                          {isSelected && <CheckCircleIcon className="absolute top-1 right-1 w-4 h-4 text-white drop-shadow" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
+
+            {source === 'poses' && (
+              poseEntries.length === 0 ? (
+                <p className="text-sm text-gray-400 italic py-6 text-center bg-gray-50 rounded-lg">ยังไม่มีภาพท่าทางของชุดนี้</p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                  {poseEntries.map(entry => (
+                    <div key={entry.id} className="rounded-lg overflow-hidden border border-gray-200">
+                      <img src={entry.imageUrl} alt={entry.title} className="w-full aspect-[9/16] object-cover" />
+                      <p className="text-[10px] font-semibold text-gray-700 truncate px-1.5 py-1">{entry.title}</p>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">ชื่อบนปก</label>
+              <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">รูปแบบ</label>
+              <div className="flex gap-2">
+                <button onClick={() => setOutput('pdf')} className={optionClassName(output === 'pdf')}>PDF หลายหน้า</button>
+                <button onClick={() => setOutput('sheet')} className={optionClassName(output === 'sheet')}>คอนแทกต์ชีต</button>
+              </div>
+            </div>
+
+            {output === 'pdf' ? (
+              <>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">ขนาดหน้า</label>
+                  <select value={pageSize} onChange={(e) => setPageSize(e.target.value as PageSizeId)} className={selectClassName}>
+                    {(Object.keys(PAGE_SIZES) as PageSizeId[]).map(size => <option key={size} value={size}>{PAGE_SIZES[size].label}</option>)}
+                  </select>
+                </div>
+                {pageSize !== 'square' && (
+                  <div className="flex gap-2">
+                    <button onClick={() => setOrientation('portrait')} className={optionClassName(orientation === 'portrait')}>แนวตั้ง</button>
+                    <button onClick={() => setOrientation('landscape')} className={optionClassName(orientation === 'landscape')}>แนวนอน</button>
+                  </div>
+                )}
+                <p className="text-[11px] text-gray-400">หน้าปก 1 หน้า ตามด้วย 1 หน้าต่อ 1 ลุค พร้อมรูปและชื่อไอเทม</p>
+              </>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-widest text-gray-500 font-bold">จำนวนคอลัมน์</label>
+                  <select value={columns} onChange={(e) => setColumns(Number(e.target.value))} className={selectClassName}>
+                    {CONTACT_SHEET_COLUMNS.map(count => <option key={count} value={count}>{count} คอลัมน์</option>)}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  {(['png', 'jpeg'] as const).map(format => (
+                    <button key={format} onClick={() => setSheetFormat(format)} className={optionClassName(sheetFormat === format)}>
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting || entries.length === 0}
+              className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 hover:bg-indigo-700 disabled:opacity-40"
+            >
+              {isExporting ? <Spinner className="w-4 h-4 border-white/30 border-t-white" /> : <FileDownIcon className="w-4 h-4" />}
+              {isExporting
+                ? progress ? `กำลังสร้างหน้า ${progress.completed}/${progress.total}` : 'กำลังสร้าง...'
+                : `ส่งออก ${entries.length} ลุค`}
+            </button>
+            {error && <p className="text-red-500 text-sm bg-red-50 p-2 rounded">{error}</p>}
+          </section>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default LookbookModal;
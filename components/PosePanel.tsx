@@ -2,38 +2,214 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
+import type { Pose } from '../types';
+import { fileToDataUrl } from '../lib/image';
+import { ChevronDownIcon, ChevronUpIcon, PencilIcon, PlusIcon, Trash2Icon, UploadCloudIcon, XIcon } from './icons';
 
 interface PosePanelProps {
-  onPoseSelect: (poseInstruction: string) => void;
+  poses: Pose[];
+  currentPoseId: string;
   isLoading: boolean;
+  onPoseSelect: (poseId: string) => void;
+  onAddPose: (pose: Pose) => void;
+  onUpdatePose: (pose: Pose) => void;
+  onDeletePose: (poseId: string) => void;
+  onMovePose: (poseId: string, offset: number) => void;
+  isConsistencyMode: boolean;
+  onConsistencyModeChange: (enabled: boolean) => void;
 }
 
-const POSE_OPTIONS = [
-    "Slightly turned, 3/4 view",
-    "Side profile view",
-    "Walking towards camera",
-    "Leaning against a wall"
-];
+interface PoseDraft {
+  id?: string; // Set while editing an existing pose
+  name: string;
+  instruction: string;
+  referenceImageUrl?: string;
+}
 
-const PosePanel: React.FC<PosePanelProps> = ({ onPoseSelect, isLoading }) => {
-  return (
-    <div className="mt-auto pt-6 border-t">
-      <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Change Pose</h2>
-      <div className="grid grid-cols-2 gap-2">
-        {POSE_OPTIONS.map((pose) => (
-          <button
-            key={pose}
-            onClick={() => onPoseSelect(pose)}
-            disabled={isLoading}
-            className="w-full text-center bg-white border border-gray-300 text-gray-700 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-gray-100 hover:border-gray-400 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-gray-100"
-          >
-            {pose}
+const EMPTY_DRAFT: PoseDraft = { name: '', instruction: '' };
+
+const PosePanel: React.FC<PosePanelProps> = ({
+  poses,
+  currentPoseId,
+  isLoading,
+  onPoseSelect,
+  onAddPose,
+  onUpdatePose,
+  onDeletePose,
+  onMovePose,
+  isConsistencyMode,
+  onConsistencyModeChange,
+}) => {
+  const [draft, setDraft] = useState<PoseDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReferenceChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    if (!file.type.startsWith('image/')) {
+      setError('กรุณาเลือกไฟล์รูปภาพ');
+      return;
+    }
+    setError(null);
+    const referenceImageUrl = await fileToDataUrl(file);
+    setDraft(prev => prev && { ...prev, referenceImageUrl });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const instruction = draft.instruction.trim() || name;
+    if (!name) {
+      setError('กรุณาตั้งชื่อท่าทาง');
+      return;
+    }
+    const pose: Pose = { id: draft.id ?? `pose-${Date.now()}`, name, instruction, referenceImageUrl: draft.referenceImageUrl };
+    if (draft.id) onUpdatePose(pose);
+    else onAddPose(pose);
+    setDraft(null);
+    setError(null);
+  };
+
+  const renderDraftForm = () => draft && (
+    <div className="mt-3 p-3 rounded-xl border border-indigo-200 bg-indigo-50/40 space-y-2">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="ชื่อท่าทาง เช่น นั่งไขว่ห้าง"
+        className="w-full text-sm px-3 py-2 rounded-lg border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-200"
+      />
+      <textarea
+        value={draft.instruction}
+        onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+        placeholder="คำอธิบายท่าทางที่ส่งให้ AI (เว้นว่างเพื่อใช้ชื่อท่า)"
+        rows={3}
+        className="w-full text-xs px-3 py-2 rounded-lg border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-200 resize-none"
+      />
+      <div className="flex items-center gap-2">
+        {draft.referenceImageUrl ? (
+          <div className="relative w-12 h-16 rounded-md overflow-hidden border border-gray-200">
+            <img src={draft.referenceImageUrl} alt="ภาพอ้างอิงท่าทาง" className="w-full h-full object-cover" />
+            <button
+              onClick={() => setDraft({ ...draft, referenceImageUrl: undefined })}
+              className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-white/90 text-gray-600 hover:text-red-600"
+              aria-label="ลบภาพอ้างอิง"
+            >
+              <XIcon className="w-3 h-3" />
+            </button>
+          </div>
+        ) : (
+          <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-gray-600 px-3 py-1.5 rounded-full bg-white border border-gray-200 hover:bg-gray-50">
+            <UploadCloudIcon className="w-3.5 h-3.5" />
+            ภาพอ้างอิง (ไม่บังคับ)
+            <input type="file" className="hidden" accept="image/*" onChange={handleReferenceChange} />
+          </label>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => { setDraft(null); setError(null); }} className="text-xs font-semibold text-gray-500 px-3 py-1.5 rounded-full hover:bg-gray-100">
+            ยกเลิก
           </button>
-        ))}
+          <button onClick={handleSave} className="text-xs font-bold text-white bg-gray-900 px-4 py-1.5 rounded-full hover:bg-gray-800">
+            บันทึก
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between border-b border-gray-400/50 pb-2 mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">ท่าทาง</h2>
+        <button
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          disabled={!!draft}
+          className="flex items-center gap-1 text-xs font-bold text-indigo-600 px-2 py-1 rounded-md hover:bg-indigo-50 disabled:opacity-40"
+        >
+          <PlusIcon className="w-3.5 h-3.5" />
+          เพิ่มท่า
+        </button>
       </div>
+      <label className="flex items-start gap-2 mb-3 text-xs text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isConsistencyMode}
+          onChange={(e) => onConsistencyModeChange(e.target.checked)}
+          className="mt-0.5 accent-indigo-600"
+        />
+        <span>
+          <span className="font-bold text-gray-800">โหมดคงความเหมือน</span>
+          <span className="block text-[10px] text-gray-400">ส่งภาพโมเดลต้นฉบับและภาพไอเทมไปกับทุกท่าทาง และเตือนเมื่อใบหน้าหรือสีชุดเพี้ยน</span>
+        </span>
+      </label>
+      <ul className="space-y-1.5">
+        {poses.map((pose, index) => {
+          const isCurrent = pose.id === currentPoseId;
+          return (
+            <li
+              key={pose.id}
+              className={`flex items-center gap-2 p-1.5 rounded-lg border transition-all ${isCurrent ? 'bg-white border-indigo-300 ring-1 ring-indigo-200' : 'bg-white/50 border-gray-200/80'}`}
+            >
+              <button
+                onClick={() => onPoseSelect(pose.id)}
+                disabled={isLoading || isCurrent}
+                className="flex items-center gap-2 flex-grow overflow-hidden text-left disabled:cursor-default"
+                title={pose.instruction}
+              >
+                {pose.referenceImageUrl ? (
+                  <img src={pose.referenceImageUrl} alt="" className="flex-shrink-0 w-7 h-9 object-cover rounded" />
+                ) : (
+                  <span className="flex-shrink-0 w-7 h-9 rounded bg-gray-100" />
+                )}
+                <span className="text-sm font-semibold text-gray-800 truncate">{pose.name}</span>
+              </button>
+              <div className="flex-shrink-0 flex items-center">
+                <button
+                  onClick={() => onMovePose(pose.id, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded-md text-gray-400 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-30"
+                  aria-label={`เลื่อน ${pose.name} ขึ้น`}
+                >
+                  <ChevronUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onMovePose(pose.id, 1)}
+                  disabled={index === poses.length - 1}
+                  className="p-1 rounded-md text-gray-400 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-30"
+                  aria-label={`เลื่อน ${pose.name} ลง`}
+                >
+                  <ChevronDownIcon className="w-3.5 h-3.5" />
+                </button>
+                {!pose.builtIn && (
+                  <>
+                    <button
+                      onClick={() => setDraft({ id: pose.id, name: pose.name, instruction: pose.instruction, referenceImageUrl: pose.referenceImageUrl })}
+                      disabled={!!draft}
+                      className="p-1 rounded-md text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30"
+                      aria-label={`แก้ไข ${pose.name}`}
+                    >
+                      <PencilIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => onDeletePose(pose.id)}
+                      className="p-1 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      aria-label={`ลบ ${pose.name}`}
+                    >
+                      <Trash2Icon className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {renderDraftForm()}
+      <p className="text-[10px] text-gray-400 mt-2">แก้ไขคำอธิบายแล้ว ภาพเดิมของท่านั้นยังอยู่ กดสร้างใหม่บนภาพเพื่อใช้คำอธิบายล่าสุด</p>
     </div>
   );
 };
 
-export default PosePanel;
\ No newline at end of file
+export default PosePanel;
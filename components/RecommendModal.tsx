@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { Occasion, WardrobeItem } from '../types';
+import { rankLooks } from '../services/geminiService';
+import { enqueueJob, JobCancelledError } from '../services/jobQueue';
+import {
+  applyRanking,
+  OCCASION_INFO,
+  OCCASION_PROMPTS,
+  Recommendation,
+  recommendOutfits,
+  summarizeLook,
+} from '../lib/outfitRecommender';
+import { getFriendlyErrorMessage } from '../lib/utils';
+import { Wand2Icon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface RecommendModalProps {
+  wardrobe: WardrobeItem[];
+  onTryLook: (items: WardrobeItem[]) => void;
+  onClose: () => void;
+}
+
+const RecommendModal: React.FC<RecommendModalProps> = ({ wardrobe, onTryLook, onClose }) => {
+  const [occasion, setOccasion] = useState<Occasion>('office');
+  const [useAiRanking, setUseAiRanking] = useState(false);
+  const [rankedLooks, setRankedLooks] = useState<Recommendation[] | null>(null);
+  const [isRanking, setIsRanking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const localLooks: Recommendation[] = useMemo(() => recommendOutfits(wardrobe, occasion), [wardrobe, occasion]);
+  const looks = rankedLooks ?? localLooks;
+
+  // อันดับที่ AI ส่งกลับมาใช้ได้กับโอกาสที่ขอไว้เท่านั้น เปลี่ยนโอกาส ปิดการจัดอันดับ หรือปิดหน้าต่างจึงยกเลิกงานที่ค้างอยู่
+  const selectOccasion = (next: Occasion) => {
+    controllerRef.current?.abort();
+    setOccasion(next);
+    setRankedLooks(null);
+  };
+
+  const toggleAiRanking = (isOn: boolean) => {
+    controllerRef.current?.abort();
+    setUseAiRanking(isOn);
+    setRankedLooks(null);
+  };
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // ให้ AI จัดอันดับลุคที่กฎสีเลือกมาแล้วอีกรอบ ถ้าไม่สำเร็จจะใช้อันดับเดิม
+  const handleAiRanking = async () => {
+    if (localLooks.length < 2) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRanking(true);
+    setError(null);
+    try {
+      const ranked = await enqueueJob(
+        signal => rankLooks(OCCASION_PROMPTS[occasion], localLooks.map(summarizeLook), signal),
+        { label: `จัดอันดับลุค: ${OCCASION_INFO[occasion].label}`, signal: controller.signal },
+      );
+      setRankedLooks(applyRanking(localLooks, ranked));
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) setError(getFriendlyErrorMessage(err, 'AI จัดอันดับไม่สำเร็จ ใช้อันดับจากโทนสีแทน'));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRanking(false);
+      }
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <Wand2Icon className="w-6 h-6" />
+            แนะนำลุคจากตู้เสื้อผ้า
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-5">
+          {(Object.keys(OCCASION_INFO) as Occasion[]).map(key => (
+            <button
+              key={key}
+              onClick={() => selectOccasion(key)}
+              className={`px-4 py-2 rounded-full text-sm font-bold border ${key === occasion ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {OCCASION_INFO[key].label}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={useAiRanking} onChange={(e) => toggleAiRanking(e.target.checked)} />
+            ให้ AI ช่วยจัดอันดับ
+          </label>
+          {useAiRanking && (
+            <button
+              onClick={handleAiRanking}
+              disabled={isRanking || localLooks.length < 2 || !!rankedLooks}
+              className="px-3 py-2 rounded-full text-xs font-bold border border-indigo-200 text-indigo-700 bg-indigo-50/50 hover:bg-indigo-50 disabled:opacity-40 flex items-center gap-1.5"
+            >
+              {isRanking && <Spinner className="w-3 h-3 border-indigo-400" />}
+              {rankedLooks ? 'จัดอันดับแล้ว' : 'จัดอันดับ'}
+            </button>
+          )}
+        </div>
+        {error && <p className="text-red-500 text-xs mb-4 bg-red-50 p-2 rounded">{error}</p>}
+
+        {looks.length === 0 ? (
+          <p className="text-center text-sm text-gray-400 py-10">
+            ยังจัดลุคไม่ได้ ต้องมีเดรส หรือเสื้อกับกางเกง/กระโปรงในตู้เสื้อผ้าก่อน
+          </p>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-4">
+            {looks.map((look, index) => (
+              <div key={look.id} className="rounded-xl border border-gray-200 p-4 flex flex-col gap-3">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-bold text-gray-800">ลุคที่ {index + 1}</span>
+                  <span className="text-gray-400">ความเข้ากัน {Math.round(look.score * 100)}%</span>
+                </div>
+                <div className="flex gap-2 overflow-x-auto">
+                  {look.items.map(item => (
+                    <img key={item.id} src={item.url} alt={item.name} title={item.name} className="flex-shrink-0 w-16 h-16 object-contain rounded-lg border border-gray-100 bg-white p-1" />
+                  ))}
+                </div>
+                {look.reasons.length > 0 && (
+                  <ul className="text-[11px] text-gray-500 list-disc list-inside">
+                    {look.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                  </ul>
+                )}
+                <button
+                  onClick={() => onTryLook(look.items)}
+                  className="mt-auto px-4 py-2 rounded-xl bg-gray-900 text-white text-xs font-bold hover:bg-gray-800"
+                >
+                  ลองลุคนี้ ({look.items.length} ชิ้น)
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default RecommendModal;
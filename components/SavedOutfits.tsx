@@ -1,20 +1,147 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { SavedOutfit } from '../types';
-import { Trash2Icon, XIcon } from './icons';
+import React, { useMemo, useState } from 'react';
+import { Occasion, OutfitCollection, SavedOutfit } from '../types';
+import {
+  clampRating,
+  CollectionScope,
+  EMPTY_OUTFIT_FILTER,
+  getOutfitTitle,
+  matchesOutfitFilter,
+  MAX_RATING,
+  OUTFIT_SORT_LABELS,
+  SavedOutfitFilter,
+  SavedOutfitSort,
+  sortSavedOutfits,
+} from '../lib/savedOutfitSearch';
+import { OCCASION_INFO } from '../lib/outfitRecommender';
+import { GitBranchIcon, PencilIcon, PlusIcon, RotateCcwIcon, Trash2Icon, XIcon } from './icons';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface SavedOutfitsProps {
   outfits: SavedOutfit[];
+  collections: OutfitCollection[];
   onDelete: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<SavedOutfit>) => void;
+  onRestore: (outfit: SavedOutfit) => void;
+  onDuplicate: (outfit: SavedOutfit) => void;
+  onCreateCollection: (name: string) => string;
+  onRenameCollection: (id: string, name: string) => void;
+  onDeleteCollection: (id: string) => void;
+  duplicateSourceId: string | null; // Look currently being modified as a copy
+  isLoading: boolean;
 }
 
-const SavedOutfits: React.FC<SavedOutfitsProps> = ({ outfits, onDelete }) => {
-  const [selectedOutfit, setSelectedOutfit] = useState<SavedOutfit | null>(null);
+// Saved outfits are dragged onto a collection chip to move them there.
+const OUTFIT_DRAG_TYPE = 'application/x-wear-fit-outfit';
+
+const OCCASIONS = Object.keys(OCCASION_INFO) as Occasion[];
+
+const Stars: React.FC<{ rating?: number; onChange?: (rating: number) => void; className?: string }> = ({ rating = 0, onChange, className = '' }) => (
+  <span className={`inline-flex ${className}`}>
+    {Array.from({ length: MAX_RATING }, (_, index) => {
+      const value = index + 1;
+      const star = <span className={value <= rating ? 'text-amber-400' : 'text-gray-300'}>★</span>;
+      // กดดาวเดิมซ้ำเพื่อล้างคะแนน
+      return onChange ? (
+        <button key={value} type="button" onClick={() => onChange(value === rating ? 0 : value)} className="px-0.5 hover:scale-110 transition-transform" aria-label={`${value} ดาว`}>
+          {star}
+        </button>
+      ) : <React.Fragment key={value}>{star}</React.Fragment>;
+    })}
+  </span>
+);
+
+const SavedOutfits: React.FC<SavedOutfitsProps> = ({
+  outfits,
+  collections,
+  onDelete,
+  onUpdate,
+  onRestore,
+  onDuplicate,
+  onCreateCollection,
+  onRenameCollection,
+  onDeleteCollection,
+  duplicateSourceId,
+  isLoading,
+}) => {
+  const [selectedOutfitId, setSelectedOutfitId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<SavedOutfitFilter>(EMPTY_OUTFIT_FILTER);
+  const [sort, setSort] = useState<SavedOutfitSort>('newest');
+  const [collectionDraft, setCollectionDraft] = useState<{ id: string | null; name: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<CollectionScope | null>(null);
+
+  const selectedOutfit = outfits.find(outfit => outfit.id === selectedOutfitId) ?? null;
+  const sourceOutfit = selectedOutfit?.sourceOutfitId ? outfits.find(outfit => outfit.id === selectedOutfit.sourceOutfitId) : undefined;
+  const activeCollection = collections.find(collection => collection.id === filter.collection);
+
+  const visibleOutfits = useMemo(
+    () => sortSavedOutfits(outfits.filter(outfit => matchesOutfitFilter(outfit, filter)), sort),
+    [outfits, filter, sort]
+  );
+
+  const updateFilter = (changes: Partial<SavedOutfitFilter>) => setFilter((prev: SavedOutfitFilter) => ({ ...prev, ...changes }));
+
+  const handleRestore = (outfit: SavedOutfit) => {
+    setSelectedOutfitId(null);
+    onRestore(outfit);
+  };
+
+  const handleDuplicate = (outfit: SavedOutfit) => {
+    setSelectedOutfitId(null);
+    onDuplicate(outfit);
+  };
+
+  const submitCollectionDraft = () => {
+    const name = collectionDraft?.name.trim();
+    if (collectionDraft && name) {
+      if (collectionDraft.id) onRenameCollection(collectionDraft.id, name);
+      else updateFilter({ collection: onCreateCollection(name) });
+    }
+    setCollectionDraft(null);
+  };
+
+  const handleDeleteCollection = (collection: OutfitCollection) => {
+    if (!window.confirm(`ลบคอลเลกชัน "${collection.name}"? ชุดในคอลเลกชันนี้จะย้ายไปที่ยังไม่จัดกลุ่ม`)) return;
+    onDeleteCollection(collection.id);
+    updateFilter({ collection: 'all' });
+  };
+
+  const dropProps = (scope: CollectionScope) => scope === 'all' ? {} : {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(OUTFIT_DRAG_TYPE)) return;
+      e.preventDefault();
+      setDropTarget(scope);
+    },
+    onDragLeave: () => setDropTarget((prev: CollectionScope | null) => prev === scope ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const outfitId = e.dataTransfer.getData(OUTFIT_DRAG_TYPE);
+      if (outfitId) onUpdate(outfitId, { collectionId: scope === 'none' ? undefined : scope });
+    },
+  };
+
+  const renderScopeChip = (scope: CollectionScope, label: string, count: number) => (
+    <button
+      key={scope}
+      onClick={() => updateFilter({ collection: scope })}
+      {...dropProps(scope)}
+      className={`flex-shrink-0 text-[11px] font-semibold px-2.5 py-1 rounded-full border transition-colors ${
+        dropTarget === scope
+          ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+          : filter.collection === scope
+            ? 'border-gray-900 bg-gray-900 text-white'
+            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+      }`}
+    >
+      {label} <span className="opacity-60">{count}</span>
+    </button>
+  );
+
+  const selectClassName = 'text-[11px] font-semibold border border-gray-200 rounded-full px-2 py-1 bg-white text-gray-600 focus:outline-none';
 
   if (outfits.length === 0) return (
     <div className="mt-8 pt-6 border-t border-gray-400/50">
@@ -31,27 +158,120 @@ const SavedOutfits: React.FC<SavedOutfitsProps> = ({ outfits, onDelete }) => {
         ชุดที่บันทึกไว้
         <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded-full">{outfits.length}</span>
       </h2>
-      
+
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {renderScopeChip('all', 'ทั้งหมด', outfits.length)}
+        {renderScopeChip('none', 'ยังไม่จัดกลุ่ม', outfits.filter(outfit => !outfit.collectionId).length)}
+        {collections.map(collection =>
+          renderScopeChip(collection.id, collection.name, outfits.filter(outfit => outfit.collectionId === collection.id).length))}
+        {!collectionDraft && (
+          <button
+            onClick={() => setCollectionDraft({ id: null, name: '' })}
+            className="flex-shrink-0 flex items-center gap-1 text-[11px] font-semibold px-2.5 py-1 rounded-full border border-dashed border-gray-300 text-gray-500 hover:text-gray-800"
+          >
+            <PlusIcon className="w-3 h-3" />
+            คอลเลกชันใหม่
+          </button>
+        )}
+      </div>
+
+      {collectionDraft && (
+        <form onSubmit={(e) => { e.preventDefault(); submitCollectionDraft(); }} className="flex items-center gap-1.5 mb-2">
+          <input
+            autoFocus
+            value={collectionDraft.name}
+            onChange={(e) => setCollectionDraft({ ...collectionDraft, name: e.target.value })}
+            placeholder="ชื่อคอลเลกชัน เช่น ทริปญี่ปุ่น"
+            className="flex-grow min-w-0 border border-gray-200 rounded-full px-3 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <button type="submit" disabled={!collectionDraft.name.trim()} className="text-[11px] font-bold px-3 py-1 rounded-full bg-gray-900 text-white disabled:opacity-40">
+            {collectionDraft.id ? 'เปลี่ยนชื่อ' : 'สร้าง'}
+          </button>
+          <button type="button" onClick={() => setCollectionDraft(null)} className="p-1 rounded-full text-gray-400 hover:text-gray-700" aria-label="ยกเลิก">
+            <XIcon className="w-3 h-3" />
+          </button>
+        </form>
+      )}
+
+      {activeCollection && !collectionDraft && (
+        <div className="flex items-center gap-3 mb-2 text-[11px] font-semibold text-gray-400">
+          <button onClick={() => setCollectionDraft({ id: activeCollection.id, name: activeCollection.name })} className="flex items-center gap-1 hover:text-gray-700">
+            <PencilIcon className="w-3 h-3" />
+            เปลี่ยนชื่อคอลเลกชัน
+          </button>
+          <button onClick={() => handleDeleteCollection(activeCollection)} className="flex items-center gap-1 hover:text-red-500">
+            <Trash2Icon className="w-3 h-3" />
+            ลบคอลเลกชัน
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2 mb-3">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => updateFilter({ query: e.target.value })}
+          placeholder="ค้นหาชื่อ โน้ต หรือไอเทม"
+          className="w-full border border-gray-200 rounded-xl px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <div className="flex flex-wrap items-center gap-1.5">
+          <select value={filter.occasion ?? ''} onChange={(e) => updateFilter({ occasion: (e.target.value || undefined) as Occasion | undefined })} className={selectClassName} aria-label="โอกาส">
+            <option value="">ทุกโอกาส</option>
+            {OCCASIONS.map(occasion => <option key={occasion} value={occasion}>{OCCASION_INFO[occasion].label}</option>)}
+          </select>
+          <select value={filter.minRating} onChange={(e) => updateFilter({ minRating: Number(e.target.value) })} className={selectClassName} aria-label="คะแนนขั้นต่ำ">
+            <option value={0}>ทุกคะแนน</option>
+            {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(rating => (
+              <option key={rating} value={rating}>{'★'.repeat(rating)} ขึ้นไป</option>
+            ))}
+          </select>
+          <select value={sort} onChange={(e) => setSort(e.target.value as SavedOutfitSort)} className={selectClassName} aria-label="เรียงลำดับ">
+            {(Object.keys(OUTFIT_SORT_LABELS) as SavedOutfitSort[]).map(key => <option key={key} value={key}>{OUTFIT_SORT_LABELS[key]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {visibleOutfits.length === 0 ? (
+        <p className="text-xs text-gray-400 italic text-center py-4 bg-gray-50 rounded-lg">ไม่พบชุดที่ตรงกับตัวกรอง</p>
+      ) : (
       <div className="grid grid-cols-2 gap-3">
-        {outfits.map((outfit) => (
-          <div key={outfit.id} className="relative group rounded-lg overflow-hidden border border-gray-200 bg-white">
-            <img 
-              src={outfit.imageUrl} 
-              alt="Saved Outfit" 
+        {visibleOutfits.map((outfit) => (
+          <div
+            key={outfit.id}
+            draggable
+            onDragStart={(e: React.DragEvent) => {
+              e.dataTransfer.setData(OUTFIT_DRAG_TYPE, outfit.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragEnd={() => setDropTarget(null)}
+            className={`relative group rounded-lg overflow-hidden border bg-white ${outfit.id === duplicateSourceId ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-gray-200'}`}
+          >
+            <img
+              src={outfit.imageUrl}
+              alt={getOutfitTitle(outfit)}
               className="w-full h-32 object-cover cursor-pointer hover:scale-105 transition-transform"
-              onClick={() => setSelectedOutfit(outfit)}
+              onClick={() => setSelectedOutfitId(outfit.id)}
             />
             <div className="p-2">
+                <p className="text-[11px] font-semibold text-gray-800 truncate" title={getOutfitTitle(outfit)}>{getOutfitTitle(outfit)}</p>
                 <p className="text-[10px] text-gray-400 mb-1">
                     {new Date(outfit.timestamp).toLocaleDateString('th-TH')}
+                    {outfit.sourceOutfitId && <span className="ml-1 text-indigo-500">· สำเนา</span>}
+                    {outfit.id === duplicateSourceId && <span className="ml-1 text-indigo-500">· กำลังแก้ไขสำเนา</span>}
                 </p>
+                {!!outfit.rating && <Stars rating={outfit.rating} className="text-[10px] mb-1" />}
                 <div className="flex flex-wrap gap-1">
-                    {outfit.items.slice(0, 2).map(item => (
+                    {(outfit.occasions ?? []).map(occasion => (
+                        <span key={occasion} className="text-[9px] bg-indigo-50 text-indigo-600 px-1 rounded">
+                            {OCCASION_INFO[occasion].label}
+                        </span>
+                    ))}
+                    {!outfit.occasions?.length && outfit.items.slice(0, 2).map(item => (
                         <span key={item.id} className="text-[9px] bg-gray-100 px-1 rounded truncate max-w-[50px]">
                             {item.name}
                         </span>
                     ))}
-                    {outfit.items.length > 2 && <span className="text-[9px] text-gray-400">+{outfit.items.length - 2}</span>}
+                    {!outfit.occasions?.length && outfit.items.length > 2 && <span className="text-[9px] text-gray-400">+{outfit.items.length - 2}</span>}
                 </div>
             </div>
             <button
@@ -61,9 +281,31 @@ const SavedOutfits: React.FC<SavedOutfitsProps> = ({ outfits, onDelete }) => {
             >
               <Trash2Icon className="w-3 h-3" />
             </button>
+            <div className="absolute top-1 left-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => onRestore(outfit)}
+                disabled={isLoading}
+                className="p-1 bg-white/80 backdrop-blur-sm rounded-full text-gray-700 hover:bg-white disabled:opacity-40"
+                title="กลับไปแต่งต่อ"
+              >
+                <RotateCcwIcon className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onDuplicate(outfit)}
+                disabled={isLoading}
+                className="p-1 bg-white/80 backdrop-blur-sm rounded-full text-gray-700 hover:bg-white disabled:opacity-40"
+                title="ทำสำเนาแล้วแก้ไข"
+              >
+                <GitBranchIcon className="w-3 h-3" />
+              </button>
+            </div>
           </div>
         ))}
       </div>
+      )}
+      {collections.length > 0 && (
+        <p className="text-[10px] text-gray-400 mt-2">ลากชุดไปวางบนชื่อคอลเลกชันเพื่อย้าย</p>
+      )}
 
       <AnimatePresence>
         {selectedOutfit && (
@@ -72,29 +314,92 @@ const SavedOutfits: React.FC<SavedOutfitsProps> = ({ outfits, onDelete }) => {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
-            onClick={() => setSelectedOutfit(null)}
+            onClick={() => setSelectedOutfitId(null)}
           >
             <motion.div
               initial={{ scale: 0.9, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.9, opacity: 0 }}
-              className="bg-white rounded-2xl max-w-lg w-full overflow-hidden shadow-2xl relative"
+              className="bg-white rounded-2xl max-w-3xl w-full overflow-hidden shadow-2xl relative"
               onClick={(e) => e.stopPropagation()}
             >
-                <button 
-                  onClick={() => setSelectedOutfit(null)}
+                <button
+                  onClick={() => setSelectedOutfitId(null)}
                   className="absolute top-4 right-4 p-2 bg-white/50 backdrop-blur-sm rounded-full text-gray-800 hover:bg-white z-10"
                 >
                   <XIcon className="w-6 h-6" />
                 </button>
                 <div className="flex flex-col md:flex-row h-full max-h-[90vh]">
-                    <div className="w-full md:w-2/3">
-                        <img src={selectedOutfit.imageUrl} alt="Saved Outfit Detail" className="w-full h-full object-contain bg-gray-100" />
+                    <div className="w-full md:w-1/2">
+                        <img src={selectedOutfit.imageUrl} alt={getOutfitTitle(selectedOutfit)} className="w-full h-full object-contain bg-gray-100" />
                     </div>
-                    <div className="w-full md:w-1/3 p-6 flex flex-col bg-white overflow-y-auto">
-                        <h3 className="text-xl font-serif font-bold mb-4">รายละเอียดชุด</h3>
-                        <p className="text-xs text-gray-400 mb-6">บันทึกเมื่อ: {new Date(selectedOutfit.timestamp).toLocaleString('th-TH')}</p>
-                        
+                    <div className="w-full md:w-1/2 p-6 flex flex-col bg-white overflow-y-auto">
+                        {/* key รีเซ็ตช่องกรอกเมื่อเปลี่ยนไปดูชุดอื่น */}
+                        <input
+                            key={`title-${selectedOutfit.id}`}
+                            defaultValue={selectedOutfit.title ?? ''}
+                            onBlur={(e) => onUpdate(selectedOutfit.id, { title: e.target.value.trim() || undefined })}
+                            placeholder={getOutfitTitle(selectedOutfit)}
+                            className="text-xl font-serif font-bold mb-1 mr-10 border-b border-transparent hover:border-gray-200 focus:border-gray-400 focus:outline-none"
+                            aria-label="ชื่อชุด"
+                        />
+                        <p className="text-xs text-gray-400 mb-4">บันทึกเมื่อ: {new Date(selectedOutfit.timestamp).toLocaleString('th-TH')}</p>
+                        {sourceOutfit && (
+                          <p className="text-xs text-indigo-500 -mt-3 mb-4">
+                            ดัดแปลงจาก {getOutfitTitle(sourceOutfit)} ({new Date(sourceOutfit.timestamp).toLocaleString('th-TH')})
+                          </p>
+                        )}
+
+                        <div className="space-y-3 mb-6">
+                            <div className="flex items-center justify-between gap-3">
+                                <span className="text-xs font-bold uppercase tracking-widest text-gray-500">คะแนน</span>
+                                <Stars
+                                    rating={selectedOutfit.rating}
+                                    onChange={rating => onUpdate(selectedOutfit.id, { rating: clampRating(rating) || undefined })}
+                                    className="text-lg"
+                                />
+                            </div>
+                            <div className="flex items-center justify-between gap-3">
+                                <span className="text-xs font-bold uppercase tracking-widest text-gray-500">คอลเลกชัน</span>
+                                <select
+                                    value={selectedOutfit.collectionId ?? ''}
+                                    onChange={(e) => onUpdate(selectedOutfit.id, { collectionId: e.target.value || undefined })}
+                                    className={selectClassName}
+                                >
+                                    <option value="">ยังไม่จัดกลุ่ม</option>
+                                    {collections.map(collection => <option key={collection.id} value={collection.id}>{collection.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <span className="block text-xs font-bold uppercase tracking-widest text-gray-500 mb-1.5">โอกาส</span>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {OCCASIONS.map(occasion => {
+                                        const isOn = !!selectedOutfit.occasions?.includes(occasion);
+                                        const occasions = isOn
+                                            ? (selectedOutfit.occasions ?? []).filter(entry => entry !== occasion)
+                                            : [...(selectedOutfit.occasions ?? []), occasion];
+                                        return (
+                                            <button
+                                                key={occasion}
+                                                onClick={() => onUpdate(selectedOutfit.id, { occasions: occasions.length ? occasions : undefined })}
+                                                className={`text-[11px] font-semibold px-2.5 py-1 rounded-full border transition-colors ${isOn ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'}`}
+                                            >
+                                                {OCCASION_INFO[occasion].label}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                            <textarea
+                                key={`notes-${selectedOutfit.id}`}
+                                defaultValue={selectedOutfit.notes ?? ''}
+                                onBlur={(e) => onUpdate(selectedOutfit.id, { notes: e.target.value.trim() || undefined })}
+                                placeholder="โน้ต เช่น ใส่กับรองเท้าคู่ไหน ใส่ไปงานอะไร"
+                                rows={3}
+                                className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200 resize-none"
+                            />
+                        </div>
+
                         <div className="space-y-4">
                             <h4 className="text-sm font-bold uppercase tracking-widest text-gray-500">ไอเทมในลุคนี้:</h4>
                             {selectedOutfit.items.length === 0 ? (
@@ -110,9 +415,31 @@ const SavedOutfits: React.FC<SavedOutfitsProps> = ({ outfits, onDelete }) => {
                                 ))
                             )}
                         </div>
-                        
-                        <button 
-                            onClick={() => setSelectedOutfit(null)}
+
+                        <div className="mt-8 space-y-2">
+                            <button
+                                onClick={() => handleRestore(selectedOutfit)}
+                                disabled={isLoading}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold hover:bg-gray-800 disabled:opacity-40"
+                            >
+                                <RotateCcwIcon className="w-4 h-4" />
+                                กลับไปแต่งต่อ
+                            </button>
+                            <button
+                                onClick={() => handleDuplicate(selectedOutfit)}
+                                disabled={isLoading}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl border border-gray-200 text-sm font-bold text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                            >
+                                <GitBranchIcon className="w-4 h-4" />
+                                ทำสำเนาแล้วแก้ไข
+                            </button>
+                            {!selectedOutfit.layers && (
+                                <p className="text-[11px] text-gray-400">ลุคนี้บันทึกไว้ก่อนที่จะเก็บภาพแต่ละชั้น จะสร้างชุดใหม่บนโมเดลปัจจุบัน</p>
+                            )}
+                        </div>
+
+                        <button
+                            onClick={() => setSelectedOutfitId(null)}
                             className="mt-auto pt-8 text-center text-sm font-bold text-gray-900 hover:underline"
                         >
                             ปิดหน้าต่างนี้
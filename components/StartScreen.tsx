@@ -6,17 +6,22 @@
 
 import React, { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { UploadCloudIcon, Wand2Icon, CheckCircleIcon, ChevronRightIcon } from './icons';
+import { UploadCloudIcon, Wand2Icon, CheckCircleIcon, ChevronRightIcon, FileUpIcon, Trash2Icon } from './icons';
 import { Compare } from './ui/compare';
 import { generateModelImage, removeBackground } from '../services/geminiService';
+import { enqueueJob } from '../services/jobQueue';
 import Spinner from './Spinner';
 import { getFriendlyErrorMessage } from '../lib/utils';
+import type { SavedModel } from '../types';
 
 interface StartScreenProps {
   onModelFinalized: (modelUrl: string) => void;
+  onImportSession: (file: File) => Promise<void>;
+  savedModels: SavedModel[];
+  onDeleteSavedModel: (modelId: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, onImportSession, savedModels, onDeleteSavedModel }) => {
   const [userImageUrl, setUserImageUrl] = useState<string | null>(null);
   const [originalFile, setOriginalFile] = useState<File | null>(null);
   const [processedUserImageUrl, setProcessedUserImageUrl] = useState<string | null>(null);
@@ -24,6 +29,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
   const [isRemovingBg, setIsRemovingBg] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   const handleFileSelect = useCallback(async (file: File) => {
     if (!file.type.startsWith('image/')) {
@@ -46,6 +52,21 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
     if (e.target.files && e.target.files[0]) handleFileSelect(e.target.files[0]);
   };
 
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+        await onImportSession(file);
+    } catch (err) {
+        setError(getFriendlyErrorMessage(err, 'นำเข้าเซสชันไม่สำเร็จ'));
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
   const handleRemoveBackground = async () => {
     const source = userImageUrl || originalFile;
     if (!source) return;
@@ -53,7 +74,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
     setIsRemovingBg(true);
     setError(null);
     try {
-        const result = await removeBackground(source);
+        const result = await enqueueJob(signal => removeBackground(source, signal), { label: 'ลบพื้นหลัง' });
         setProcessedUserImageUrl(result);
     } catch (err) {
         setError(getFriendlyErrorMessage(err, 'ลบพื้นหลังไม่สำเร็จ'));
@@ -70,7 +91,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
     setIsGenerating(true);
     setError(null);
     try {
-        const result = await generateModelImage(source);
+        const result = await enqueueJob(signal => generateModelImage(source, signal), { label: 'สร้างโมเดล' });
         setGeneratedModelUrl(result);
     } catch (err) {
         setError(getFriendlyErrorMessage(err, 'สร้างโมเดลไม่สำเร็จ'));
@@ -123,11 +144,44 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                 อัปโหลดรูปภาพของคุณ
               </label>
               <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
+              <label htmlFor="session-import-start" className={`flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors ${isImporting ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                {isImporting ? <Spinner className="w-4 h-4 border-indigo-400" /> : <FileUpIcon className="w-4 h-4" />}
+                หรือนำเข้าเซสชันที่ส่งออกไว้
+              </label>
+              <input id="session-import-start" type="file" className="hidden" accept=".json,application/json" onChange={handleImportChange} disabled={isImporting} />
+              {error && <p className="text-red-500 text-sm font-bold">{error}</p>}
               <div className="flex items-center gap-6 text-gray-400 text-xs">
                   <span className="flex items-center gap-1.5"><CheckCircleIcon className="w-4 h-4 text-green-500"/> Full Body 9:16</span>
                   <span className="flex items-center gap-1.5"><CheckCircleIcon className="w-4 h-4 text-green-500"/> Photorealistic AI</span>
               </div>
             </div>
+
+            {savedModels.length > 0 && (
+              <div className="mt-10">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-3">โมเดลที่บันทึกไว้</h3>
+                <div className="flex gap-3 overflow-x-auto pb-2 justify-center lg:justify-start">
+                  {savedModels.map(model => (
+                    <div key={model.id} className="relative group flex-shrink-0">
+                      <button
+                        onClick={() => onModelFinalized(model.imageUrl)}
+                        className="w-20 aspect-[9/16] rounded-xl overflow-hidden border border-gray-200 shadow-sm hover:shadow-md hover:-translate-y-0.5 transition-all bg-white"
+                        title={`ใช้ ${model.name}`}
+                      >
+                        <img src={model.imageUrl} alt={model.name} className="w-full h-full object-cover" />
+                      </button>
+                      <button
+                        onClick={() => onDeleteSavedModel(model.id)}
+                        className="absolute -top-1 -right-1 bg-white rounded-full p-1 shadow border border-gray-100 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label={`ลบ ${model.name}`}
+                      >
+                        <Trash2Icon className="w-3 h-3" />
+                      </button>
+                      <p className="text-[10px] text-gray-500 text-center mt-1 truncate w-20">{model.name}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           
           <div className="w-full lg:w-[420px] relative">
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CollageCell } from '../lib/collage';
+import {
+  DEFAULT_TURNTABLE_OPTIONS,
+  getTurntableDuration,
+  getWebmMimeType,
+  renderTurntable,
+  TURNTABLE_FORMATS,
+  TURNTABLE_WIDTHS,
+  TurntableFormat,
+  TurntableOptions,
+} from '../lib/turntable';
+import { downloadBlob, getFriendlyErrorMessage } from '../lib/utils';
+import { DownloadIcon, PlayIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+
+interface TurntableModalProps {
+  cells: CollageCell[];
+  onClose: () => void;
+}
+
+interface TurntableResult {
+  blob: Blob;
+  url: string;
+  format: TurntableFormat;
+}
+
+const TurntableModal: React.FC<TurntableModalProps> = ({ cells, onClose }) => {
+  const [options, setOptions] = useState<TurntableOptions>(DEFAULT_TURNTABLE_OPTIONS);
+  const [result, setResult] = useState<TurntableResult | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const canRecordWebm = getWebmMimeType() !== null;
+
+  // ปรับค่าแล้วผลลัพธ์เดิมใช้ไม่ได้ ต้องสร้างใหม่
+  const updateOptions = (changes: Partial<TurntableOptions>) => {
+    setOptions((prev: TurntableOptions) => ({ ...prev, ...changes }));
+    setResult(null);
+  };
+
+  useEffect(() => () => {
+    if (result) URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  // ปิดหน้าต่างระหว่างสร้างจะยกเลิกงานที่ค้างอยู่
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setResult(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      const blob = await renderTurntable(cells, options, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult({ blob, url: URL.createObjectURL(blob), format: options.format });
+    } catch (err) {
+      if (!controller.signal.aborted) setError(getFriendlyErrorMessage(err, 'สร้างภาพเคลื่อนไหวไม่สำเร็จ'));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(result.blob, `wear-fit-turntable-${Date.now()}.${TURNTABLE_FORMATS[result.format].extension}`);
+  };
+
+  const isRendering = progress !== null;
+  const seconds = (getTurntableDuration(cells.length, options) / 1000).toFixed(1);
+  const optionClassName = (isOn: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${isOn ? 'bg-gray-900 text-white border-gray-900 shadow-md' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`;
+  const labelClassName = 'text-[10px] uppercase tracking-widest text-gray-500 font-bold';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b pb-3 mb-5">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 flex items-center gap-2">
+            <PlayIcon className="w-6 h-6" />
+            ภาพเคลื่อนไหวหมุนท่า
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-[1fr_16rem] gap-6">
+          <div className="bg-gray-100 rounded-xl p-4 flex flex-col items-center justify-center min-h-[16rem] gap-3">
+            {result ? (
+              result.format === 'gif' ? (
+                <img src={result.url} alt="ตัวอย่างภาพเคลื่อนไหว" className="max-w-full max-h-[60vh] object-contain shadow-lg" />
+              ) : (
+                <video src={result.url} autoPlay muted playsInline loop={options.loop} controls className="max-w-full max-h-[60vh] shadow-lg" />
+              )
+            ) : isRendering ? (
+              <>
+                <Spinner />
+                <p className="text-xs text-gray-500">
+                  {options.format === 'webm' ? 'กำลังบันทึกวิดีโอแบบเวลาจริง' : 'กำลังเข้ารหัส GIF'} {progress.done}/{progress.total} เฟรม
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {cells.map((cell, index) => (
+                    <div key={cell.imageUrl} className="relative w-16">
+                      <img src={cell.imageUrl} alt={cell.caption} className="w-16 aspect-[9/16] object-cover rounded-md border border-gray-200 bg-white" />
+                      <span className="absolute top-1 left-1 bg-gray-900/80 text-white text-[10px] font-bold rounded-full w-4 h-4 flex items-center justify-center">{index + 1}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400">เรียงตามลำดับในรายการท่าโพส · จัดลำดับใหม่ได้ในคลังท่าโพส</p>
+              </>
+            )}
+          </div>
+
+          <section className="space-y-4">
+            <div className="space-y-1">
+              <label className={labelClassName}>รูปแบบไฟล์</label>
+              <div className="flex gap-2">
+                {(Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => updateOptions({ format })}
+                    disabled={isRendering || (format === 'webm' && !canRecordWebm)}
+                    title={format === 'webm' && !canRecordWebm ? 'เบราว์เซอร์นี้บันทึก WebM ไม่ได้' : undefined}
+                    className={`${optionClassName(options.format === format)} disabled:opacity-30 disabled:cursor-not-allowed`}
+                  >
+                    {TURNTABLE_FORMATS[format].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className={`${labelClassName} flex justify-between`}>
+                แสดงแต่ละท่า <span className="normal-case tracking-normal text-gray-400">{(options.frameDuration / 1000).toFixed(1)} วินาที</span>
+              </label>
+              <input
+                type="range"
+                min={300}
+                max={3000}
+                step={100}
+                value={options.frameDuration}
+                disabled={isRendering}
+                onChange={(e) => updateOptions({ frameDuration: Number(e.target.value) })}
+                className="w-full accent-gray-900"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className={`${labelClassName} flex justify-between`}>
+                เฟดระหว่างท่า <span className="normal-case tracking-normal text-gray-400">{options.transitionDuration === 0 ? 'ตัดทันที' : `${(options.transitionDuration / 1000).toFixed(1)} วินาที`}</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1500}
+                step={100}
+                value={options.transitionDuration}
+                disabled={isRendering}
+                onChange={(e) => updateOptions({ transitionDuration: Number(e.target.value) })}
+                className="w-full accent-gray-900"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClassName}>ความกว้าง</label>
+              <div className="flex gap-2">
+                {TURNTABLE_WIDTHS.map(width => (
+                  <button key={width} onClick={() => updateOptions({ width })} disabled={isRendering} className={optionClassName(options.width === width)}>
+                    {width}px
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className={labelClassName}>สีพื้นหลัง</label>
+              <input
+                type="color"
+                value={options.background}
+                disabled={isRendering}
+                onChange={(e) => updateOptions({ background: e.target.value })}
+                className="w-10 h-7 rounded border border-gray-200 cursor-pointer"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+              <input type="checkbox" checked={options.loop} disabled={isRendering} onChange={(e) => updateOptions({ loop: e.target.checked })} />
+              เล่นวนซ้ำ (เฟดท่าสุดท้ายกลับไปท่าแรก)
+            </label>
+            <p className="text-xs text-gray-400">{cells.length} ท่า · ยาว {seconds} วินาทีต่อรอบ</p>
+
+            {result ? (
+              <button
+                onClick={handleDownload}
+                className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 hover:bg-indigo-700"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                ดาวน์โหลด {TURNTABLE_FORMATS[result.format].label} ({(result.blob.size / 1024 / 1024).toFixed(1)} MB)
+              </button>
+            ) : (
+              <button
+                onClick={handleRender}
+                disabled={isRendering || cells.length < 2}
+                className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 hover:bg-indigo-700 disabled:opacity-40"
+              >
+                {isRendering ? <Spinner className="w-4 h-4 border-white/30 border-t-white" /> : <PlayIcon className="w-4 h-4" />}
+                สร้างภาพเคลื่อนไหว
+              </button>
+            )}
+            {cells.length < 2 && <p className="text-xs text-gray-400">ต้องมีภาพอย่างน้อย 2 ท่า</p>}
+            {error && <p className="text-red-500 text-sm bg-red-50 p-2 rounded">{error}</p>}
+          </section>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TurntableModal;
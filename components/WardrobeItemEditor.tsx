@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { Season, WardrobeItem } from '../types';
+import { parseTags, SEASON_LABELS, SOURCE_LABELS, getItemSource } from '../lib/wardrobeSearch';
+import { SLOT_INFO } from '../lib/garmentSlots';
+import { FORMALITY_LABELS } from '../lib/garmentAttributes';
+import { Wand2Icon, XIcon } from './icons';
+
+interface WardrobeItemEditorProps {
+  item: WardrobeItem;
+  onSave: (item: WardrobeItem) => void;
+  onRedesign?: () => void; // Offered for items made in the designer
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200';
+
+/** Form for the descriptive fields of a wardrobe item: name, tags, colour, brand, season and notes. */
+const WardrobeItemEditor: React.FC<WardrobeItemEditorProps> = ({ item, onSave, onRedesign, onClose }) => {
+  const [name, setName] = useState(item.name);
+  const [tags, setTags] = useState((item.tags ?? []).join(', '));
+  const [color, setColor] = useState(item.color ?? '');
+  const [brand, setBrand] = useState(item.brand ?? '');
+  const [season, setSeason] = useState<Season | ''>(item.season ?? '');
+  const [notes, setNotes] = useState(item.notes ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      ...item,
+      name: name.trim(),
+      tags: parseTags(tags),
+      color: color.trim() || undefined,
+      brand: brand.trim() || undefined,
+      season: season || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.form
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl relative p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <div className="flex items-center justify-between border-b pb-3">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">รายละเอียดไอเทม</h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" aria-label="ปิด">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <img src={item.url} alt={item.name} className="w-20 h-20 object-contain rounded-xl border border-gray-100 bg-white" />
+          <div className="text-xs text-gray-500 space-y-1">
+            <p>{item.slot ? SLOT_INFO[item.slot].label : 'ไม่ระบุตำแหน่ง'}</p>
+            <p>{SOURCE_LABELS[getItemSource(item)]}</p>
+            {item.attributes && (
+              <p title={item.attributes.nameEn}>
+                {item.attributes.analyzedBy === 'local'
+                  ? `สีที่พบ: ${item.attributes.colors.join(', ') || '-'}`
+                  : [
+                      item.attributes.garmentType,
+                      item.attributes.pattern,
+                      item.attributes.material,
+                      item.attributes.formality && FORMALITY_LABELS[item.attributes.formality],
+                    ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <label className="block text-xs font-bold text-gray-500 space-y-1">
+          ชื่อ
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} required />
+        </label>
+        <label className="block text-xs font-bold text-gray-500 space-y-1">
+          แท็ก (คั่นด้วยจุลภาค)
+          <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="ทำงาน, ลำลอง" className={inputClassName} />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs font-bold text-gray-500 space-y-1">
+            สี
+            <input value={color} onChange={(e) => setColor(e.target.value)} placeholder="ดำ" className={inputClassName} />
+          </label>
+          <label className="block text-xs font-bold text-gray-500 space-y-1">
+            แบรนด์
+            <input value={brand} onChange={(e) => setBrand(e.target.value)} className={inputClassName} />
+          </label>
+        </div>
+        <label className="block text-xs font-bold text-gray-500 space-y-1">
+          ฤดูกาล
+          <select value={season} onChange={(e) => setSeason(e.target.value as Season | '')} className={inputClassName}>
+            <option value="">ไม่ระบุ</option>
+            {(Object.keys(SEASON_LABELS) as Season[]).map(key => <option key={key} value={key}>{SEASON_LABELS[key]}</option>)}
+          </select>
+        </label>
+        <label className="block text-xs font-bold text-gray-500 space-y-1">
+          โน้ต
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={inputClassName} />
+        </label>
+
+        <div className="flex justify-end gap-3 pt-2">
+          {onRedesign && (
+            <button type="button" onClick={onRedesign} className="mr-auto flex items-center gap-1.5 px-4 py-2.5 rounded-xl text-sm font-bold text-indigo-600 hover:bg-indigo-50">
+              <Wand2Icon className="w-4 h-4" />
+              ออกแบบใหม่
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="px-4 py-2.5 rounded-xl text-sm font-bold text-gray-500 hover:bg-gray-50">ยกเลิก</button>
+          <button type="submit" disabled={!name.trim()} className="px-6 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-bold shadow-lg hover:bg-gray-800 disabled:opacity-40">
+            บันทึก
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
+
+export default WardrobeItemEditor;
@@ -3,11 +3,32 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import type { WardrobeItem } from '../types';
-import { UploadCloudIcon, CheckCircleIcon, Wand2Icon, Trash2Icon } from './icons';
-import { generateFashionItem } from '../services/geminiService';
+import React, { useMemo, useRef, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import type { DesignParams, GarmentSlot, WardrobeItem, WardrobeSource } from '../types';
+import { UploadCloudIcon, CheckCircleIcon, Wand2Icon, Trash2Icon, PencilIcon, XIcon } from './icons';
+import { analyzeGarment, generateFashionItem } from '../services/geminiService';
+import { enqueueJob, JobCancelledError } from '../services/jobQueue';
 import Spinner from './Spinner';
+import GarmentPreprocessModal from './GarmentPreprocessModal';
+import WardrobeItemEditor from './WardrobeItemEditor';
+import DesignerModal from './DesignerModal';
+import GarmentEditModal from './GarmentEditModal';
+import { SLOT_INFO } from '../lib/garmentSlots';
+import { applyGarmentAttributes } from '../lib/garmentAttributes';
+import { loadWardrobeItemFile } from '../lib/garmentPreprocess';
+import type { GarmentUsage } from '../lib/outfitTree';
+import {
+    collectFacets,
+    EMPTY_FILTER,
+    isFilterActive,
+    matchesFilter,
+    SORT_LABELS,
+    sortWardrobe,
+    SOURCE_LABELS,
+    WardrobeFilter,
+    WardrobeSort,
+} from '../lib/wardrobeSearch';
 
 interface WardrobePanelProps {
   onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
@@ -16,86 +37,117 @@ interface WardrobePanelProps {
   wardrobe: WardrobeItem[];
   onAddItemToWardrobe: (item: WardrobeItem) => void;
   onRemoveItemFromWardrobe?: (itemId: string) => void;
+  onUpdateWardrobeItem?: (item: WardrobeItem) => void;
+  garmentUsage: Record<string, GarmentUsage>;
 }
 
-const urlToFile = (url: string, filename: string): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const image = new Image();
-        image.setAttribute('crossOrigin', 'anonymous');
-        image.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = image.naturalWidth;
-            canvas.height = image.naturalHeight;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return reject(new Error('Could not get canvas context.'));
-            ctx.drawImage(image, 0, 0);
-            canvas.toBlob((blob) => {
-                if (!blob) return reject(new Error('Canvas toBlob failed.'));
-                const file = new File([blob], filename, { type: blob.type || 'image/png' });
-                resolve(file);
-            }, 'image/png');
-        };
-        image.onerror = (error) => reject(new Error(`Could not load image: ${error}`));
-        image.src = url;
-    });
-};
-
 const WardrobePanel: React.FC<WardrobePanelProps> = ({ 
     onGarmentSelect, 
     activeGarmentIds, 
     isLoading, 
     wardrobe, 
     onAddItemToWardrobe,
-    onRemoveItemFromWardrobe
+    onRemoveItemFromWardrobe,
+    onUpdateWardrobeItem,
+    garmentUsage
 }) => {
     const [error, setError] = useState<string | null>(null);
     const [isGenerating, setIsGenerating] = useState<string | null>(null);
+    const [pendingUpload, setPendingUpload] = useState<{ file: File; slot: GarmentSlot } | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [editingItem, setEditingItem] = useState<WardrobeItem | null>(null);
+    const [versioningItemId, setVersioningItemId] = useState<string | null>(null);
+    const [designer, setDesigner] = useState<{ initialParams?: DesignParams } | null>(null);
+    const [filter, setFilter] = useState<WardrobeFilter>(EMPTY_FILTER);
+    const [sort, setSort] = useState<WardrobeSort>('added');
+    // ลองชุดหลังสร้างไอเทมเสร็จต้องใช้ตัวจัดการล่าสุด ไม่ใช่ตัวที่มีประวัติชุดตอนกดสร้าง
+    const onGarmentSelectRef = useRef(onGarmentSelect);
+    onGarmentSelectRef.current = onGarmentSelect;
+
+    const facets = useMemo(() => collectFacets(wardrobe), [wardrobe]);
+    const visibleItems: WardrobeItem[] = useMemo(
+        () => sortWardrobe(wardrobe.filter(item => matchesFilter(item, filter)), sort, garmentUsage),
+        [wardrobe, filter, sort, garmentUsage]
+    );
+    const versioningItem = wardrobe.find(item => item.id === versioningItemId);
+    const updateFilter = (changes: Partial<WardrobeFilter>) => setFilter((prev: WardrobeFilter) => ({ ...prev, ...changes }));
 
     const handleGarmentClick = async (item: WardrobeItem) => {
         if (isLoading || activeGarmentIds.includes(item.id)) return;
         setError(null);
         try {
-            const file = await urlToFile(item.url, item.name);
+            const file = await loadWardrobeItemFile(item);
             onGarmentSelect(file, item);
         } catch (err) {
             setError('โหลดไอเทมไม่สำเร็จ กรุณาลองใหม่อีกครั้ง');
         }
     };
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, category: 'clothing' | 'accessory') => {
+    // ภาพที่อัปโหลดจะถูกปรับในเครื่องและให้ผู้ใช้ดูก่อน/หลังก่อนนำไปลองชุด
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, slot: GarmentSlot) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
+            e.target.value = '';
             if (!file.type.startsWith('image/')) {
                 setError('กรุณาเลือกไฟล์รูปภาพ');
                 return;
             }
-            const customGarmentInfo: WardrobeItem = {
-                id: `custom-${Date.now()}`,
-                name: file.name,
-                url: URL.createObjectURL(file),
-                category
-            };
-            onGarmentSelect(file, customGarmentInfo);
+            setError(null);
+            setPendingUpload({ file, slot });
+        }
+    };
+
+    // วิเคราะห์ชื่อ สี และรายละเอียดของไอเทมก่อนนำไปลองชุด
+    const handleUploadConfirm = async (file: File) => {
+        if (!pendingUpload) return;
+        const customGarmentInfo: WardrobeItem = {
+            id: `custom-${Date.now()}`,
+            name: pendingUpload.file.name,
+            url: URL.createObjectURL(file),
+            slot: pendingUpload.slot,
+            source: 'uploaded'
+        };
+        setPendingUpload(null);
+        setIsAnalyzing(true);
+        try {
+            const attributes = await enqueueJob(
+                signal => analyzeGarment(file, signal),
+                { label: `วิเคราะห์ไอเทม: ${customGarmentInfo.name}` }
+            );
+            onGarmentSelect(file, applyGarmentAttributes(customGarmentInfo, attributes));
+        } catch (err) {
+            if (!(err instanceof JobCancelledError)) onGarmentSelect(file, customGarmentInfo);
+        } finally {
+            setIsAnalyzing(false);
         }
     };
 
-    const handleAiGenerate = async (category: string, catKey: 'clothing' | 'accessory') => {
+    const handleAiGenerate = async (category: string, slot: GarmentSlot) => {
         setIsGenerating(category);
         setError(null);
         try {
-            const dataUrl = await generateFashionItem(category);
-            const newItem: WardrobeItem = {
-                id: `ai-${Date.now()}`,
-                name: `AI Generated ${category}`,
-                url: dataUrl,
-                category: catKey
-            };
-            onAddItemToWardrobe(newItem);
-            // โหลดและเลือกทันที
-            const file = await urlToFile(dataUrl, newItem.name);
-            onGarmentSelect(file, newItem);
+            // งานนี้แค่สร้างไอเทมและเพิ่มเข้าตู้เสื้อผ้า จึงกดลองใหม่จากรายการงาน AI ได้ ส่วนการลองชุดทำเฉพาะรอบแรก
+            const newItem = await enqueueJob(async signal => {
+                const dataUrl = await generateFashionItem(category, undefined, signal);
+                if (signal.aborted) return null;
+                const attributes = await analyzeGarment(dataUrl, signal);
+                if (signal.aborted) return null;
+                const item: WardrobeItem = applyGarmentAttributes({
+                    id: `ai-${Date.now()}`,
+                    name: `AI Generated ${category}`,
+                    url: dataUrl,
+                    slot,
+                    source: 'ai'
+                }, attributes);
+                onAddItemToWardrobe(item);
+                return item;
+            }, { label: `สร้างไอเทม: ${category}`, retryable: true });
+            if (newItem) {
+                const file = await loadWardrobeItemFile(newItem);
+                onGarmentSelectRef.current(file, newItem);
+            }
         } catch (err) {
-            setError('AI ไม่สามารถสร้างรูปภาพได้ในขณะนี้');
+            if (!(err instanceof JobCancelledError)) setError('AI ไม่สามารถสร้างรูปภาพได้ในขณะนี้');
         } finally {
             setIsGenerating(null);
         }
@@ -122,6 +174,24 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({
                                 </div>
                             )}
                         </button>
+                        {onUpdateWardrobeItem && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setEditingItem(item); }}
+                                className="absolute -top-1 -left-1 z-30 bg-white rounded-full p-1.5 shadow-md border border-gray-100 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title="แก้ไขรายละเอียด"
+                            >
+                                <PencilIcon className="w-3 h-3" />
+                            </button>
+                        )}
+                        {onUpdateWardrobeItem && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setVersioningItemId(item.id); }}
+                                className="absolute -bottom-1 -left-1 z-30 bg-white rounded-full p-1.5 shadow-md border border-gray-100 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title="แก้ไขไอเทมด้วย AI"
+                            >
+                                <Wand2Icon className="w-3 h-3" />
+                            </button>
+                        )}
                         {onRemoveItemFromWardrobe && !isActive && (
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onRemoveItemFromWardrobe(item.id); }}
@@ -137,12 +207,61 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({
         </div>
     );
 
-    const categories = [
-        { label: 'เสื้อ (Tops)', prompt: 'stylish designer shirt', key: 'clothing' as const },
-        { label: 'กางเกง (Bottoms)', prompt: 'fashionable trousers', key: 'clothing' as const },
-        { label: 'รองเท้า (Shoes)', prompt: 'luxury fashion sneakers', key: 'clothing' as const },
-        { label: 'หมวก (Headwear)', prompt: 'fashionable cap', key: 'accessory' as const },
-        { label: 'เครื่องประดับ (Accessories)', prompt: 'stylish designer bag', key: 'accessory' as const },
+    const selectClassName = 'text-[11px] font-semibold border border-gray-200 rounded-full px-2 py-1 bg-white text-gray-600 focus:outline-none';
+
+    const renderFilters = () => (
+        <div className="space-y-2 mb-4">
+            <input
+                type="search"
+                value={filter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder="ค้นหาชื่อ แบรนด์ สี แท็ก หรือโน้ต"
+                className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <div className="flex flex-wrap items-center gap-1.5">
+                <select value={filter.slot ?? ''} onChange={(e) => updateFilter({ slot: (e.target.value || undefined) as GarmentSlot | undefined })} className={selectClassName} aria-label="ตำแหน่ง">
+                    <option value="">ทุกตำแหน่ง</option>
+                    {(Object.keys(SLOT_INFO) as GarmentSlot[]).map(slot => <option key={slot} value={slot}>{SLOT_INFO[slot].label}</option>)}
+                </select>
+                {facets.colors.length > 0 && (
+                    <select value={filter.color ?? ''} onChange={(e) => updateFilter({ color: e.target.value || undefined })} className={selectClassName} aria-label="สี">
+                        <option value="">ทุกสี</option>
+                        {facets.colors.map(color => <option key={color} value={color}>{color}</option>)}
+                    </select>
+                )}
+                {facets.tags.length > 0 && (
+                    <select value={filter.tag ?? ''} onChange={(e) => updateFilter({ tag: e.target.value || undefined })} className={selectClassName} aria-label="แท็ก">
+                        <option value="">ทุกแท็ก</option>
+                        {facets.tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                    </select>
+                )}
+                <select value={filter.source ?? ''} onChange={(e) => updateFilter({ source: (e.target.value || undefined) as WardrobeSource | undefined })} className={selectClassName} aria-label="ที่มา">
+                    <option value="">ทุกที่มา</option>
+                    {(Object.keys(SOURCE_LABELS) as WardrobeSource[]).map(source => <option key={source} value={source}>{SOURCE_LABELS[source]}</option>)}
+                </select>
+                <select value={sort} onChange={(e) => setSort(e.target.value as WardrobeSort)} className={selectClassName} aria-label="เรียงลำดับ">
+                    {(Object.keys(SORT_LABELS) as WardrobeSort[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+                </select>
+                {isFilterActive(filter) && (
+                    <button onClick={() => setFilter(EMPTY_FILTER)} className="flex items-center gap-1 text-[11px] font-semibold text-gray-400 hover:text-gray-700 px-1">
+                        <XIcon className="w-3 h-3" />
+                        ล้างตัวกรอง
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+
+    const categories: { slot: GarmentSlot; prompt: string }[] = [
+        { slot: 'top', prompt: 'stylish designer shirt' },
+        { slot: 'outerwear', prompt: 'tailored fashion jacket' },
+        { slot: 'bottom', prompt: 'fashionable trousers' },
+        { slot: 'dress', prompt: 'elegant designer dress' },
+        { slot: 'footwear', prompt: 'luxury fashion sneakers' },
+        { slot: 'headwear', prompt: 'fashionable cap' },
+        { slot: 'eyewear', prompt: 'designer sunglasses' },
+        { slot: 'bag', prompt: 'stylish designer bag' },
+        { slot: 'jewelry', prompt: 'minimalist gold necklace' },
     ];
 
   return (
@@ -154,22 +273,36 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({
             </h2>
             <div className="flex flex-wrap gap-2">
                 {categories.map(cat => (
-                    <div key={cat.label} className="flex gap-1 items-center">
+                    <div key={cat.slot} className="flex gap-1 items-center">
                         <button 
-                            onClick={() => handleAiGenerate(cat.prompt, cat.key)}
+                            onClick={() => handleAiGenerate(cat.prompt, cat.slot)}
                             disabled={!!isGenerating || isLoading}
                             className="text-[11px] font-bold px-3 py-1.5 bg-white border border-indigo-200 text-indigo-600 rounded-full hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-50 flex items-center gap-1.5 shadow-sm"
                         >
                             {isGenerating === cat.prompt ? <Spinner className="w-3 h-3 border-indigo-400" /> : <Wand2Icon className="w-3 h-3" />}
-                            {cat.label.split(' ')[0]}
+                            {SLOT_INFO[cat.slot].label.split(' ')[0]}
                         </button>
-                        <label className="cursor-pointer p-1.5 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors" title={`อัปโหลด ${cat.label}`}>
+                        <label className="cursor-pointer p-1.5 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors" title={`อัปโหลด ${SLOT_INFO[cat.slot].label}`}>
                             <UploadCloudIcon className="w-3.5 h-3.5 text-gray-600" />
-                            <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, cat.key)} disabled={isLoading} />
+                            <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, cat.slot)} disabled={isLoading || isAnalyzing} />
                         </label>
                     </div>
                 ))}
             </div>
+            <button
+                onClick={() => setDesigner({})}
+                disabled={isLoading}
+                className="mt-3 w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50 shadow-sm"
+            >
+                <Wand2Icon className="w-3.5 h-3.5" />
+                ออกแบบเองแบบละเอียด
+            </button>
+            {isAnalyzing && (
+                <p className="flex items-center gap-2 text-xs text-indigo-600 mt-3">
+                    <Spinner className="w-3 h-3 border-indigo-400" />
+                    กำลังวิเคราะห์ไอเทม...
+                </p>
+            )}
             {error && <p className="text-red-500 text-xs mt-3 bg-red-50 p-2 rounded">{error}</p>}
         </section>
 
@@ -177,18 +310,54 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({
             <div>
                 <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3 flex items-center justify-between">
                     คอลเลกชันส่วนตัว
-                    <span className="text-xs font-sans text-gray-400 font-normal">{wardrobe.length} ไอเทม</span>
+                    <span className="text-xs font-sans text-gray-400 font-normal">
+                        {isFilterActive(filter) ? `${visibleItems.length}/${wardrobe.length}` : wardrobe.length} ไอเทม
+                    </span>
                 </h2>
+                {wardrobe.length > 0 && renderFilters()}
                 {wardrobe.length === 0 ? (
                      <div className="text-center py-10 border-2 border-dashed border-gray-200 rounded-xl bg-gray-50/50">
                         <p className="text-gray-400 text-sm">ยังไม่มีไอเทมในคอลเลกชัน</p>
                         <p className="text-xs text-gray-300 mt-1">อัปโหลดหรือใช้ AI สร้างได้เลย</p>
                      </div>
                 ) : (
-                    renderGrid(wardrobe)
+                    visibleItems.length === 0 ? (
+                        <p className="text-center text-sm text-gray-400 py-8">ไม่พบไอเทมที่ตรงกับการค้นหา</p>
+                    ) : renderGrid(visibleItems)
                 )}
             </div>
         </div>
+        <AnimatePresence>
+            {pendingUpload && (
+                <GarmentPreprocessModal
+                    file={pendingUpload.file}
+                    onConfirm={handleUploadConfirm}
+                    onCancel={() => setPendingUpload(null)}
+                />
+            )}
+            {editingItem && onUpdateWardrobeItem && (
+                <WardrobeItemEditor
+                    item={editingItem}
+                    onSave={(item) => { onUpdateWardrobeItem(item); setEditingItem(null); }}
+                    onRedesign={editingItem.designParams ? () => { setDesigner({ initialParams: editingItem.designParams }); setEditingItem(null); } : undefined}
+                    onClose={() => setEditingItem(null)}
+                />
+            )}
+            {versioningItem && onUpdateWardrobeItem && (
+                <GarmentEditModal
+                    item={versioningItem}
+                    onSave={onUpdateWardrobeItem}
+                    onClose={() => setVersioningItemId(null)}
+                />
+            )}
+            {designer && (
+                <DesignerModal
+                    initialParams={designer.initialParams}
+                    onAddItems={(items) => items.forEach(onAddItemToWardrobe)}
+                    onClose={() => setDesigner(null)}
+                />
+            )}
+        </AnimatePresence>
     </div>
   );
 };
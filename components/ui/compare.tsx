@@ -19,6 +19,7 @@ interface CompareProps {
   showHandlebar?: boolean;
   autoplay?: boolean;
   autoplayDuration?: number;
+  imageFit?: "cover" | "contain";
 }
 
 export const Compare = ({
@@ -32,6 +33,7 @@ export const Compare = ({
   showHandlebar = true,
   autoplay = false,
   autoplayDuration = 5000,
+  imageFit = "cover",
 }: CompareProps) => {
   const [sliderXPercent, setSliderXPercent] = useState(initialSliderPercentage);
   const [isDragging, setIsDragging] = useState(false);
@@ -125,7 +127,7 @@ export const Compare = ({
            <img 
             alt="Before" 
             src={firstImage} 
-            className="absolute inset-0 w-full h-full object-cover select-none" 
+            className={cn("absolute inset-0 w-full h-full select-none", imageFit === "contain" ? "object-contain" : "object-cover")} 
             draggable={false} 
            />
         )}
@@ -137,7 +139,7 @@ export const Compare = ({
             <img 
               alt="After" 
               src={secondImage} 
-              className="absolute inset-0 w-full h-full object-cover select-none" 
+              className={cn("absolute inset-0 w-full h-full select-none", imageFit === "contain" ? "object-contain" : "object-cover")} 
               draggable={false} 
             />
          ) : (
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToBlob, createCanvas, drawContain, fitText, loadImage } from './image';
+
+export type CollageLayout = 'grid-2x3' | 'grid-3x2' | 'strip';
+
+/** `columns` is fixed; rows grow to fit every pose. A strip is always a single row. */
+export const COLLAGE_LAYOUTS: Record<CollageLayout, { label: string; columns: number | null }> = {
+  'grid-2x3': { label: '2 × 3', columns: 2 },
+  'grid-3x2': { label: '3 × 2', columns: 3 },
+  strip: { label: 'แถวเดียว', columns: null },
+};
+
+export type CollageFormat = 'png' | 'jpeg' | 'webp';
+
+export const COLLAGE_FORMATS: Record<CollageFormat, { label: string; type: string; extension: string; quality?: number }> = {
+  png: { label: 'PNG', type: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', type: 'image/jpeg', extension: 'jpg', quality: 0.92 },
+  webp: { label: 'WebP', type: 'image/webp', extension: 'webp', quality: 0.9 },
+};
+
+export interface CollageCell {
+  imageUrl: string;
+  caption: string;
+}
+
+export interface CollageOptions {
+  layout: CollageLayout;
+  spacing: number; // Gap between and around the cells, in output pixels
+  background: string; // Any CSS colour
+  showCaptions: boolean;
+  watermarkText: string;
+  logoUrl: string | null;
+  format: CollageFormat;
+}
+
+export const DEFAULT_COLLAGE_OPTIONS: CollageOptions = {
+  layout: 'grid-3x2',
+  spacing: 24,
+  background: '#FFFFFF',
+  showCaptions: true,
+  watermarkText: '',
+  logoUrl: null,
+  format: 'png',
+};
+
+export const MAX_COLLAGE_SPACING = 96;
+
+const CELL_WIDTH = 540;
+const CELL_HEIGHT = 960; // 9:16, like the dressing room
+const CAPTION_HEIGHT = 64;
+const FONT = "Inter, 'Noto Sans Thai', sans-serif";
+
+// Relative luminance decides whether captions and the watermark are drawn dark or light.
+const isDarkColor = (color: string): boolean => {
+  const { ctx } = createCanvas(1, 1);
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 128;
+};
+
+const collageGrid = (layout: CollageLayout, count: number) => {
+  const columns = Math.min(COLLAGE_LAYOUTS[layout].columns ?? count, Math.max(count, 1));
+  return { columns, rows: Math.max(1, Math.ceil(count / columns)) };
+};
+
+/** Output size in pixels before `scale`, so the panel can show it. */
+export const getCollageSize = (count: number, { layout, spacing, showCaptions }: Pick<CollageOptions, 'layout' | 'spacing' | 'showCaptions'>) => {
+  const { columns, rows } = collageGrid(layout, count);
+  const cellHeight = CELL_HEIGHT + (showCaptions ? CAPTION_HEIGHT : 0);
+  return {
+    width: spacing + columns * (CELL_WIDTH + spacing),
+    height: spacing + rows * (cellHeight + spacing),
+  };
+};
+
+/**
+ * Draws the poses into one image, left to right and top to bottom, with an
+ * optional caption under each and a watermark in the bottom-right corner.
+ * `scale` shrinks the whole image, e.g. for a quick preview.
+ */
+export const renderCollage = async (cells: CollageCell[], options: CollageOptions, scale = 1): Promise<Blob> => {
+  const { layout, spacing, background, showCaptions, watermarkText, logoUrl, format } = options;
+  const { columns } = collageGrid(layout, cells.length);
+  const { width, height } = getCollageSize(cells.length, options);
+  const { canvas, ctx } = createCanvas(width * scale, height * scale);
+  ctx.scale(scale, scale);
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  const ink = isDarkColor(background) ? 'rgba(255, 255, 255, 0.92)' : 'rgba(17, 24, 39, 0.92)';
+
+  const [logo, ...images] = await Promise.all([
+    logoUrl ? loadImage(logoUrl) : Promise.resolve(null),
+    ...cells.map(cell => loadImage(cell.imageUrl)),
+  ]);
+
+  const cellHeight = CELL_HEIGHT + (showCaptions ? CAPTION_HEIGHT : 0);
+  cells.forEach((cell, index) => {
+    const x = spacing + (index % columns) * (CELL_WIDTH + spacing);
+    const y = spacing + Math.floor(index / columns) * (cellHeight + spacing);
+    drawContain(ctx, images[index], x, y, CELL_WIDTH, CELL_HEIGHT);
+    if (showCaptions) {
+      ctx.fillStyle = ink;
+      ctx.font = `600 26px ${FONT}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(fitText(ctx, cell.caption, CELL_WIDTH - 24), x + CELL_WIDTH / 2, y + CELL_HEIGHT + CAPTION_HEIGHT / 2);
+    }
+  });
+
+  const margin = Math.max(spacing, 16) + 8;
+  let right = width - margin;
+  const bottom = height - margin;
+  if (logo) {
+    const logoHeight = 56;
+    const logoWidth = Math.min(logo.width * (logoHeight / logo.height), width * 0.3);
+    ctx.globalAlpha = 0.85;
+    drawContain(ctx, logo, right - logoWidth, bottom - logoHeight, logoWidth, logoHeight);
+    ctx.globalAlpha = 1;
+    right -= logoWidth + 12;
+  }
+  if (watermarkText.trim()) {
+    ctx.fillStyle = ink;
+    ctx.globalAlpha = 0.6;
+    ctx.font = `600 24px ${FONT}`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(fitText(ctx, watermarkText.trim(), Math.max(0, right - margin)), right, bottom - 4);
+    ctx.globalAlpha = 1;
+  }
+
+  const { type, quality } = COLLAGE_FORMATS[format];
+  return canvasToBlob(canvas, type, quality);
+};
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { applyGarmentAttributes, colorHue, colorNameInEnglish, FORMALITY_LABELS, parseGarmentAttributes } from './garmentAttributes';
+
+describe('parseGarmentAttributes', () => {
+  it('keeps values inside the expected vocabulary and trims text', () => {
+    expect(parseGarmentAttributes({
+      garmentType: ' t-shirt ',
+      slot: 'top',
+      colors: ['ขาว', 'ดำ'],
+      pattern: 'ลายทาง',
+      material: 'cotton',
+      formality: 'casual',
+      nameTh: 'เสื้อยืดลายทาง',
+      nameEn: 'Striped tee',
+    })).toEqual({
+      garmentType: 't-shirt',
+      slot: 'top',
+      colors: ['ขาว', 'ดำ'],
+      pattern: 'ลายทาง',
+      material: 'cotton',
+      formality: 'casual',
+      nameTh: 'เสื้อยืดลายทาง',
+      nameEn: 'Striped tee',
+      analyzedBy: 'provider',
+    });
+  });
+
+  it('drops unknown slots, colours and formality, and blank or non-text fields', () => {
+    expect(parseGarmentAttributes({
+      slot: 'cape',
+      colors: ['ขาว', 'magenta', 3],
+      formality: 'black tie',
+      pattern: '  ',
+      material: 12,
+    })).toEqual({
+      garmentType: 'unknown',
+      slot: undefined,
+      colors: ['ขาว'],
+      pattern: undefined,
+      material: undefined,
+      formality: undefined,
+      nameTh: undefined,
+      nameEn: undefined,
+      analyzedBy: 'provider',
+    });
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(() => parseGarmentAttributes(null)).toThrow();
+    expect(() => parseGarmentAttributes('top')).toThrow();
+  });
+});
+
+describe('applyGarmentAttributes', () => {
+  const attributes = parseGarmentAttributes({
+    slot: 'bottom', colors: ['น้ำเงิน'], pattern: 'เรียบ', material: 'denim', formality: 'smart-casual', nameTh: 'กางเกงยีนส์',
+  });
+
+  it('fills in the name, slot, colour and tags from the analysis', () => {
+    const item = applyGarmentAttributes({ id: 'custom-1', name: 'Upload 1', url: 'jeans.png' }, attributes);
+    expect(item).toMatchObject({ name: 'กางเกงยีนส์', slot: 'bottom', color: 'น้ำเงิน', attributes });
+    expect(item.tags).toEqual(['เรียบ', 'denim', FORMALITY_LABELS['smart-casual']]);
+  });
+
+  it('keeps the slot, colour and tags the user already set', () => {
+    const item = applyGarmentAttributes(
+      { id: 'custom-1', name: 'Upload 1', url: 'jeans.png', slot: 'dress', color: 'แดง', tags: ['denim', 'fav'] },
+      attributes,
+    );
+    expect(item).toMatchObject({ slot: 'dress', color: 'แดง' });
+    expect(item.tags).toEqual(['denim', 'fav', 'เรียบ', FORMALITY_LABELS['smart-casual']]);
+  });
+});
+
+describe('palette colours', () => {
+  it('reports hues and English names for palette colours only', () => {
+    expect(colorHue('แดง')).toBeCloseTo(356.5, 0);
+    expect(colorHue('ขาว')).toBe(0);
+    expect(colorHue('magenta')).toBeNull();
+    expect(colorNameInEnglish('น้ำเงิน')).toBe('navy blue');
+    expect(colorNameInEnglish('magenta')).toBe('magenta');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Formality, GarmentAttributes, GarmentSlot, WardrobeItem } from '../types';
+import { SLOT_INFO } from './garmentSlots';
+import { createCanvas, loadImage } from './image';
+import { parseTags } from './wardrobeSearch';
+
+// Colour names are shared by the AI analysis and the local fallback, so the
+// wardrobe colour filter sees one vocabulary whichever of the two ran.
+const PALETTE: { name: string; english: string; rgb: [number, number, number] }[] = [
+  { name: 'ดำ', english: 'black', rgb: [25, 25, 25] },
+  { name: 'ขาว', english: 'white', rgb: [245, 245, 245] },
+  { name: 'เทา', english: 'grey', rgb: [128, 128, 128] },
+  { name: 'ครีม', english: 'cream', rgb: [238, 226, 200] },
+  { name: 'น้ำตาล', english: 'brown', rgb: [120, 80, 45] },
+  { name: 'แดง', english: 'red', rgb: [200, 30, 40] },
+  { name: 'ชมพู', english: 'pink', rgb: [240, 150, 180] },
+  { name: 'ส้ม', english: 'orange', rgb: [240, 130, 30] },
+  { name: 'เหลือง', english: 'yellow', rgb: [245, 210, 40] },
+  { name: 'เขียว', english: 'green', rgb: [50, 140, 70] },
+  { name: 'ฟ้า', english: 'light blue', rgb: [110, 180, 230] },
+  { name: 'น้ำเงิน', english: 'navy blue', rgb: [30, 50, 140] },
+  { name: 'ม่วง', english: 'purple', rgb: [120, 60, 160] },
+];
+
+export const COLOR_NAMES = PALETTE.map(color => color.name);
+
+/** CSS colour for a swatch of one of the COLOR_NAMES. */
+export const colorSwatch = (name: string) => {
+  const color = PALETTE.find(candidate => candidate.name === name);
+  return color ? `rgb(${color.rgb.join(', ')})` : 'transparent';
+};
+
+/** Hue in degrees of one of the COLOR_NAMES, or null for names outside the palette. */
+export const colorHue = (name: string): number | null => {
+  const color = PALETTE.find(candidate => candidate.name === name);
+  if (!color) return null;
+  const [r, g, b] = color.rgb.map(channel => channel / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+  const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (hue * 60 + 360) % 360;
+};
+
+export const colorNameInEnglish = (name: string) => PALETTE.find(color => color.name === name)?.english ?? name;
+
+export const FORMALITY_LABELS: Record<Formality, string> = {
+  casual: 'ลำลอง',
+  'smart-casual': 'สมาร์ทแคชชวล',
+  business: 'ทำงาน',
+  formal: 'ทางการ',
+  sport: 'กีฬา',
+};
+
+const SAMPLE_SIZE = 64;
+const BACKGROUND_TOLERANCE = 24;
+/** A palette colour has to cover this share of the garment to be reported. */
+const MIN_COLOR_SHARE = 0.12;
+const MAX_COLORS = 3;
+
+const nearestColor = (r: number, g: number, b: number) =>
+  PALETTE.reduce((best, color) => {
+    const distance = (color.rgb[0] - r) ** 2 + (color.rgb[1] - g) ** 2 + (color.rgb[2] - b) ** 2;
+    return distance < best.distance ? { name: color.name, distance } : best;
+  }, { name: PALETTE[0].name, distance: Infinity }).name;
+
+/**
+ * The garment's main colours, most prominent first. Transparent pixels and
+ * pixels matching the corner backdrop are left out, so a white product
+ * background does not count as the item's colour.
+ */
+export const dominantColors = async (imageUrl: string): Promise<string[]> => {
+  const image = await loadImage(imageUrl);
+  const { ctx } = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const corners = [0, SAMPLE_SIZE - 1, SAMPLE_SIZE * (SAMPLE_SIZE - 1), SAMPLE_SIZE * SAMPLE_SIZE - 1].map(index => index * 4);
+  const backdrop = [0, 1, 2].map(channel => corners.reduce((sum, offset) => sum + data[offset + channel], 0) / corners.length);
+
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    if (backdrop.every((value, channel) => Math.abs(data[i + channel] - value) <= BACKGROUND_TOLERANCE)) continue;
+    const name = nearestColor(data[i], data[i + 1], data[i + 2]);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+    total++;
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count / total >= MIN_COLOR_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_COLORS)
+    .map(([name]) => name);
+};
+
+/** Offline analysis: colours only, everything else is left for the user to fill in. */
+export const analyzeGarmentLocally = async (imageUrl: string): Promise<GarmentAttributes> => ({
+  garmentType: 'unknown',
+  colors: await dominantColors(imageUrl),
+  analyzedBy: 'local',
+});
+
+const FORMALITIES = Object.keys(FORMALITY_LABELS) as Formality[];
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/** Checks the JSON a provider returned and drops anything outside the expected vocabulary. */
+export const parseGarmentAttributes = (value: unknown): GarmentAttributes => {
+  if (typeof value !== 'object' || value === null) throw new Error('Garment analysis did not return an object.');
+  const raw = value as Record<string, unknown>;
+  const slot = optionalString(raw.slot);
+  const formality = optionalString(raw.formality);
+  return {
+    garmentType: optionalString(raw.garmentType) ?? 'unknown',
+    slot: slot && slot in SLOT_INFO ? slot as GarmentSlot : undefined,
+    colors: Array.isArray(raw.colors) ? raw.colors.filter((color): color is string => COLOR_NAMES.includes(color)) : [],
+    pattern: optionalString(raw.pattern),
+    material: optionalString(raw.material),
+    formality: formality && FORMALITIES.includes(formality as Formality) ? formality as Formality : undefined,
+    nameTh: optionalString(raw.nameTh),
+    nameEn: optionalString(raw.nameEn),
+    analyzedBy: 'provider',
+  };
+};
+
+/**
+ * Fills a freshly added item from its analysis. A slot the user picked and a
+ * colour they typed are kept; the placeholder name is replaced when the
+ * analysis suggests one.
+ */
+export const applyGarmentAttributes = (item: WardrobeItem, attributes: GarmentAttributes): WardrobeItem => ({
+  ...item,
+  name: attributes.nameTh ?? item.name,
+  slot: item.slot ?? attributes.slot,
+  color: item.color ?? attributes.colors[0],
+  tags: parseTags([
+    ...(item.tags ?? []),
+    attributes.pattern,
+    attributes.material,
+    attributes.formality && FORMALITY_LABELS[attributes.formality],
+  ].filter(Boolean).join(',')),
+  attributes,
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DesignParams } from '../types';
+import { colorNameInEnglish } from './garmentAttributes';
+
+/** A designer choice: the Thai label shown in the panel and the English phrase sent to the model. */
+export interface DesignOption {
+  label: string;
+  value: string;
+}
+
+export const FABRIC_OPTIONS: DesignOption[] = [
+  { label: 'ผ้าฝ้าย', value: 'cotton' },
+  { label: 'ลินิน', value: 'linen' },
+  { label: 'ยีนส์', value: 'denim' },
+  { label: 'ไหม', value: 'silk' },
+  { label: 'ขนสัตว์', value: 'wool' },
+  { label: 'หนัง', value: 'leather' },
+  { label: 'ผ้าถัก', value: 'knit' },
+  { label: 'ผ้าใยสังเคราะห์', value: 'technical nylon' },
+];
+
+export const FIT_OPTIONS: DesignOption[] = [
+  { label: 'พอดีตัว', value: 'slim fit' },
+  { label: 'ทรงปกติ', value: 'regular fit' },
+  { label: 'โอเวอร์ไซซ์', value: 'oversized fit' },
+  { label: 'ทรงตรง', value: 'straight cut' },
+  { label: 'ทรงบาน', value: 'flared cut' },
+];
+
+export const PATTERN_OPTIONS: DesignOption[] = [
+  { label: 'สีพื้น', value: 'solid colour' },
+  { label: 'ลายทาง', value: 'striped' },
+  { label: 'ลายสก๊อต', value: 'plaid' },
+  { label: 'ลายดอก', value: 'floral print' },
+  { label: 'ลายจุด', value: 'polka dot' },
+  { label: 'ลายกราฟิก', value: 'graphic print' },
+  { label: 'ลายพราง', value: 'camouflage' },
+];
+
+export const ERA_OPTIONS: DesignOption[] = [
+  { label: 'ร่วมสมัย', value: 'contemporary' },
+  { label: 'มินิมอล', value: 'minimalist' },
+  { label: 'สตรีท', value: 'streetwear' },
+  { label: 'ยุค 70', value: '1970s vintage' },
+  { label: 'ยุค 90', value: '1990s' },
+  { label: 'Y2K', value: 'Y2K early-2000s' },
+  { label: 'คลาสสิก', value: 'classic tailoring' },
+];
+
+export const MAX_DESIGN_CANDIDATES = 4;
+
+export const DEFAULT_DESIGN_PARAMS: DesignParams = { slot: 'top', garmentType: 'shirt', palette: [] };
+
+/**
+ * Turns designer choices into the `category` and `style` arguments of
+ * generateFashionItem. Each candidate gets its own variation number, so the
+ * model is asked for different takes on the same brief.
+ */
+export const describeDesign = (params: DesignParams, variant: number, total: number): { category: string; style: string } => {
+  const details = [
+    params.palette.length > 0 && `in ${params.palette.map(colorNameInEnglish).join(' and ')}`,
+    params.fabric && `made of ${params.fabric}`,
+    params.fit,
+    params.pattern,
+    params.era && `${params.era} style`,
+    params.notes?.trim(),
+  ].filter(Boolean);
+  const variation = total > 1 ? `design variation ${variant + 1} of ${total}, distinct from the other variations` : '';
+  return {
+    category: params.garmentType.trim() || 'garment',
+    style: [...details, variation].filter(Boolean).join(', ') || 'trendy and stylish',
+  };
+};
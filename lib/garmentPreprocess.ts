@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { WardrobeItem } from '../types';
+import { createCanvas, loadImage, urlToFile } from './image';
+
+// Local clean-up for uploaded garment photos before they reach the try-on
+// model: trim the empty margin, put transparent cut-outs on white and cap the
+// resolution, so every provider gets a tight, predictable product shot.
+
+export interface GarmentPreprocessOptions {
+  /** Trim to the bounding box of everything that is not background. */
+  crop: boolean;
+  /** Paint transparent pixels white instead of sending an alpha channel. */
+  flatten: boolean;
+  /** Longest edge of the result in pixels; smaller images are never enlarged. */
+  maxEdge: number;
+}
+
+export type GarmentImageWarning = 'empty' | 'small' | 'narrow';
+
+export interface PreprocessedGarment {
+  file: File;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  warnings: GarmentImageWarning[];
+}
+
+export const MAX_EDGE_PRESETS = [768, 1024, 1536, 2048];
+
+export const DEFAULT_PREPROCESS_OPTIONS: GarmentPreprocessOptions = { crop: true, flatten: true, maxEdge: 1024 };
+
+/** Below this the model has too little detail to copy prints and textures. */
+const MIN_CONTENT_EDGE = 256;
+/** Longer side over shorter side; beyond this the item is likely cut off or a strip of several photos. */
+const MAX_ASPECT_RATIO = 3;
+/** How far (0–255, per channel) a pixel may differ from the backdrop and still count as backdrop. */
+const BACKGROUND_TOLERANCE = 24;
+const CROP_MARGIN = 0.03;
+
+export const WARNING_LABELS: Record<GarmentImageWarning, string> = {
+  empty: 'ไม่พบตัวไอเทมในภาพ จึงไม่ได้ตัดขอบ',
+  small: `ภาพเล็กกว่า ${MIN_CONTENT_EDGE}px รายละเอียดลายผ้าอาจหายไป`,
+  narrow: `สัดส่วนภาพยาวเกิน ${MAX_ASPECT_RATIO}:1 ไอเทมอาจถูกตัดหรือมีหลายชิ้นในภาพเดียว`,
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * Bounding box of the pixels that differ from the backdrop. The backdrop is
+ * transparency when the image has any, otherwise the average corner colour.
+ */
+const findContentBox = ({ data, width, height }: ImageData): Box | null => {
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(index => index * 4);
+  const hasAlpha = corners.some(offset => data[offset + 3] < 250);
+  const backdrop = [0, 1, 2].map(channel => corners.reduce((sum, offset) => sum + data[offset + channel], 0) / corners.length);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const isContent = hasAlpha
+        ? data[offset + 3] > 16
+        : backdrop.some((value, channel) => Math.abs(data[offset + channel] - value) > BACKGROUND_TOLERANCE);
+      if (!isContent) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+
+  const margin = Math.round(Math.max(maxX - minX, maxY - minY) * CROP_MARGIN);
+  const x = Math.max(0, minX - margin);
+  const y = Math.max(0, minY - margin);
+  return { x, y, width: Math.min(width, maxX + margin + 1) - x, height: Math.min(height, maxY + margin + 1) - y };
+};
+
+/** The image of a wardrobe item for the providers, capped at the same size as prepared uploads. */
+export const loadWardrobeItemFile = (item: WardrobeItem): Promise<File> =>
+  urlToFile(item.url, item.name, DEFAULT_PREPROCESS_OPTIONS.maxEdge);
+
+/** Runs the enabled steps on a garment image and returns the result as a PNG file. */
+export const preprocessGarment = async (
+  source: Blob,
+  filename: string,
+  { crop, flatten, maxEdge }: GarmentPreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<PreprocessedGarment> => {
+  const sourceUrl = URL.createObjectURL(source);
+  try {
+    const image = await loadImage(sourceUrl);
+    const { naturalWidth: originalWidth, naturalHeight: originalHeight } = image;
+    const warnings: GarmentImageWarning[] = [];
+
+    let box: Box = { x: 0, y: 0, width: originalWidth, height: originalHeight };
+    if (crop) {
+      const { ctx } = createCanvas(originalWidth, originalHeight);
+      ctx.drawImage(image, 0, 0);
+      const content = findContentBox(ctx.getImageData(0, 0, originalWidth, originalHeight));
+      if (content) box = content;
+      else warnings.push('empty');
+    }
+
+    const longEdge = Math.max(box.width, box.height);
+    if (longEdge < MIN_CONTENT_EDGE) warnings.push('small');
+    if (longEdge / Math.min(box.width, box.height) > MAX_ASPECT_RATIO) warnings.push('narrow');
+
+    const scale = Math.min(1, maxEdge / longEdge);
+    const { canvas, ctx } = createCanvas(Math.max(1, box.width * scale), Math.max(1, box.height * scale));
+    if (flatten) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Canvas toBlob failed.');
+    const name = filename.replace(/\.[^.]+$/, '') + '.png';
+    return {
+      file: new File([blob], name, { type: 'image/png' }),
+      width: canvas.width,
+      height: canvas.height,
+      originalWidth,
+      originalHeight,
+      warnings,
+    };
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DRESSING_ORDER, GARMENT_SLOTS, slotsConflict } from './garmentSlots';
+
+describe('slotsConflict', () => {
+  it('replaces an item worn in the same slot', () => {
+    for (const slot of GARMENT_SLOTS) expect(slotsConflict(slot, slot)).toBe(true);
+  });
+
+  it('lets a dress replace a top and a bottom, and either of them replace a dress', () => {
+    expect(slotsConflict('dress', 'top')).toBe(true);
+    expect(slotsConflict('dress', 'bottom')).toBe(true);
+    expect(slotsConflict('top', 'dress')).toBe(true);
+    expect(slotsConflict('bottom', 'dress')).toBe(true);
+  });
+
+  it('stacks items in unrelated slots', () => {
+    expect(slotsConflict('top', 'bottom')).toBe(false);
+    expect(slotsConflict('outerwear', 'top')).toBe(false);
+    expect(slotsConflict('dress', 'footwear')).toBe(false);
+    expect(slotsConflict('headwear', 'eyewear')).toBe(false);
+  });
+
+  it('never replaces anything when either item has no slot', () => {
+    expect(slotsConflict(undefined, 'top')).toBe(false);
+    expect(slotsConflict('top', undefined)).toBe(false);
+    expect(slotsConflict(undefined, undefined)).toBe(false);
+  });
+});
+
+describe('DRESSING_ORDER', () => {
+  it('lists every slot exactly once', () => {
+    expect([...DRESSING_ORDER].sort()).toEqual([...GARMENT_SLOTS].sort());
+  });
+});
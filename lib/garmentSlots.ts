@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GarmentSlot } from '../types';
+
+export interface GarmentSlotInfo {
+  label: string;
+  isAccessory: boolean;
+  instruction: string; // Slot-specific guidance appended to the try-on prompt
+}
+
+export const GARMENT_SLOTS: GarmentSlot[] = ['top', 'outerwear', 'bottom', 'dress', 'footwear', 'headwear', 'eyewear', 'bag', 'jewelry'];
+
+/** The order a person dresses in, innermost first; full looks are sent in this order by default. */
+export const DRESSING_ORDER: GarmentSlot[] = ['top', 'dress', 'bottom', 'footwear', 'outerwear', 'headwear', 'eyewear', 'jewelry', 'bag'];
+
+export const SLOT_INFO: Record<GarmentSlot, GarmentSlotInfo> = {
+  top: {
+    label: 'เสื้อ (Tops)',
+    isAccessory: false,
+    instruction: "The item is a TOP. Replace the model's shirt, t-shirt or sweater with it. Keep any jacket, trousers and shoes unchanged.",
+  },
+  outerwear: {
+    label: 'เสื้อคลุม (Outerwear)',
+    isAccessory: false,
+    instruction: "The item is OUTERWEAR. Layer this jacket or coat over the model's current top; the top may show where an open jacket naturally would.",
+  },
+  bottom: {
+    label: 'กางเกง (Bottoms)',
+    isAccessory: false,
+    instruction: "The item is a BOTTOM. Replace the model's trousers, shorts or skirt with it. Keep the top and shoes unchanged.",
+  },
+  dress: {
+    label: 'เดรส (Dresses)',
+    isAccessory: false,
+    instruction: "The item is a DRESS or one-piece. Replace both the model's top and bottom garments with it.",
+  },
+  footwear: {
+    label: 'รองเท้า (Shoes)',
+    isAccessory: false,
+    instruction: "The item is FOOTWEAR. Replace the model's shoes with it without changing any clothing.",
+  },
+  headwear: {
+    label: 'หมวก (Headwear)',
+    isAccessory: true,
+    instruction: "The item is HEADWEAR. Place it naturally on the model's head and adjust the hair around it.",
+  },
+  eyewear: {
+    label: 'แว่นตา (Eyewear)',
+    isAccessory: true,
+    instruction: "The item is EYEWEAR. Put it on the model's face, aligned with the eyes and resting on the nose and ears.",
+  },
+  bag: {
+    label: 'กระเป๋า (Bags)',
+    isAccessory: true,
+    instruction: "The item is a BAG. Have the model carry it in the hand or on the shoulder in a natural way.",
+  },
+  jewelry: {
+    label: 'เครื่องประดับ (Jewelry)',
+    isAccessory: true,
+    instruction: "The item is JEWELRY. Add it at a realistic size where it is worn (neck, ears, wrist or fingers).",
+  },
+};
+
+// A dress takes the place of both a top and a bottom, and the other way round.
+const OVERLAPPING_SLOTS: Partial<Record<GarmentSlot, GarmentSlot[]>> = {
+  dress: ['top', 'bottom'],
+  top: ['dress'],
+  bottom: ['dress'],
+};
+
+/** True when wearing an item in `incoming` means taking off the item in `worn`. */
+export const slotsConflict = (incoming: GarmentSlot | undefined, worn: GarmentSlot | undefined): boolean => {
+  if (!incoming || !worn) return false;
+  return incoming === worn || (OVERLAPPING_SLOTS[incoming]?.includes(worn) ?? false);
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { WardrobeItem } from '../types';
+import { addGarmentVersion, getCurrentVersionId, getGarmentVersions, ORIGINAL_VERSION_ID, revertGarmentVersion } from './garmentVersions';
+
+const original: WardrobeItem = { id: 'tee', name: 'Tee', url: 'tee.png' };
+
+describe('garment versions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('treats an unedited item as its original version', () => {
+    expect(getGarmentVersions(original)).toEqual([{ id: ORIGINAL_VERSION_ID, url: 'tee.png', createdAt: 0 }]);
+    expect(getCurrentVersionId(original)).toBe(ORIGINAL_VERSION_ID);
+  });
+
+  it('adds edits as new versions and shows the newest', () => {
+    vi.useFakeTimers({ now: 1000 });
+    const red = addGarmentVersion(original, 'tee-red.png', 'make it red');
+    vi.setSystemTime(2000);
+    const cropped = addGarmentVersion(red, 'tee-cropped.png', 'crop it');
+
+    expect(getGarmentVersions(cropped).map(version => version.url)).toEqual(['tee.png', 'tee-red.png', 'tee-cropped.png']);
+    expect(cropped.url).toBe('tee-cropped.png');
+    expect(getCurrentVersionId(cropped)).toBe(getGarmentVersions(cropped)[2].id);
+    expect(getGarmentVersions(red)).toHaveLength(2);
+  });
+
+  it('reverts to an earlier version without dropping later ones', () => {
+    vi.useFakeTimers({ now: 1000 });
+    const red = addGarmentVersion(original, 'tee-red.png', 'make it red');
+
+    const back = revertGarmentVersion(red, ORIGINAL_VERSION_ID);
+    expect(back.url).toBe('tee.png');
+    expect(back.versionId).toBeUndefined();
+    expect(getGarmentVersions(back)).toHaveLength(2);
+
+    const forward = revertGarmentVersion(back, getGarmentVersions(red)[1].id);
+    expect(forward.url).toBe('tee-red.png');
+    expect(revertGarmentVersion(red, 'missing')).toBe(red);
+  });
+});
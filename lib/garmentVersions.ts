@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentVersion, WardrobeItem } from '../types';
+
+// An item's `versionId` is copied into every outfit layer that wears it, so a
+// layer made before an edit can be told apart from one made after it.
+
+export const ORIGINAL_VERSION_ID = 'original';
+
+/** Every version of the item, oldest first; an unedited item has just its original image. */
+export const getGarmentVersions = (item: WardrobeItem): GarmentVersion[] =>
+  item.versions ?? [{ id: ORIGINAL_VERSION_ID, url: item.url, createdAt: 0 }];
+
+export const getCurrentVersionId = (item: WardrobeItem) => item.versionId ?? ORIGINAL_VERSION_ID;
+
+/** Adds `url` as the newest version and makes it the one the item shows. */
+export const addGarmentVersion = (item: WardrobeItem, url: string, instruction: string): WardrobeItem => {
+  const version: GarmentVersion = { id: `version-${Date.now()}`, url, instruction, createdAt: Date.now() };
+  return { ...item, url, versionId: version.id, versions: [...getGarmentVersions(item), version] };
+};
+
+/** Shows an earlier version again; later versions stay in the history. */
+export const revertGarmentVersion = (item: WardrobeItem, versionId: string): WardrobeItem => {
+  const version = getGarmentVersions(item).find(candidate => candidate.id === versionId);
+  if (!version) return item;
+  return { ...item, url: version.url, versionId: version.id === ORIGINAL_VERSION_ID ? undefined : version.id };
+};
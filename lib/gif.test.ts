@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { encodeGif, GifFrame } from './gif';
+
+// Colours at the centre of a 15-bit histogram bin come back from the palette exactly.
+const binCentre = (value: number) => (value % 32) * 8 + 4;
+
+const frameOf = (width: number, height: number, colorAt: (index: number) => [number, number, number], delay = 100): GifFrame => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) pixels.set([...colorAt(p), 255], p * 4);
+  return { pixels, delay };
+};
+
+/** Reads the image data of one frame: joins the sub-blocks and LZW-decodes them like a GIF viewer. */
+const decodeImageData = (bytes: Uint8Array, offset: number) => {
+  const minCodeSize = bytes[offset++];
+  const data: number[] = [];
+  while (bytes[offset] !== 0) {
+    const length = bytes[offset];
+    data.push(...bytes.subarray(offset + 1, offset + 1 + length));
+    offset += 1 + length;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const indices: number[] = [];
+  let position = 0;
+  const readCode = () => {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, position++) code |= ((data[position >> 3] >> (position & 7)) & 1) << bit;
+    return code;
+  };
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, code) => [code]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+
+  reset();
+  for (;;) {
+    const code = readCode();
+    if (code === clearCode) { reset(); continue; }
+    if (code === endCode) break;
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    indices.push(...entry);
+    if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return { indices, end: offset + 1 };
+};
+
+const readGif = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const word = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+  const text = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+  let offset = 13;
+  const loops = bytes[offset] === 0x21 && bytes[offset + 1] === 0xff && text(offset + 3, 11) === 'NETSCAPE2.0';
+  if (loops) offset += 19;
+
+  const frames: { delay: number; width: number; height: number; colors: number[][] }[] = [];
+  while (bytes[offset] === 0x21 && bytes[offset + 1] === 0xf9) {
+    const delay = word(offset + 4) * 10;
+    offset += 8;
+    expect(bytes[offset]).toBe(0x2c);
+    const frameWidth = word(offset + 5);
+    const frameHeight = word(offset + 7);
+    expect(bytes[offset + 9]).toBe(0x87);
+    const palette = bytes.subarray(offset + 10, offset + 10 + 768);
+    const { indices, end } = decodeImageData(bytes, offset + 10 + 768);
+    frames.push({ delay, width: frameWidth, height: frameHeight, colors: indices.map(index => [...palette.subarray(index * 3, index * 3 + 3)]) });
+    offset = end;
+  }
+  return { signature: text(0, 6), width: word(6), height: word(8), loops, frames, trailer: bytes[offset], length: bytes.length, end: offset + 1 };
+};
+
+describe('encodeGif', () => {
+  it('writes a looping GIF89a whose frames decode back to the original colours', async () => {
+    const colors: [number, number, number][] = [[4, 4, 4], [252, 20, 36], [100, 180, 244]];
+    const frames = [
+      frameOf(4, 3, p => colors[p % 3], 120),
+      frameOf(4, 3, p => colors[(p + 1) % 3], 10),
+    ];
+    const seen: number[] = [];
+    const gif = await readGif(await encodeGif(frames, 4, 3, { loop: true, onFrame: index => { seen.push(index); } }));
+
+    expect(gif).toMatchObject({ signature: 'GIF89a', width: 4, height: 3, loops: true, trailer: 0x3b });
+    expect(gif.end).toBe(gif.length);
+    expect(seen).toEqual([0, 1]);
+    expect(gif.frames.map(frame => frame.delay)).toEqual([120, 20]); // Viewers treat delays under 20ms as slow
+    expect(gif.frames[0].colors).toEqual(Array.from({ length: 12 }, (_, p) => colors[p % 3]));
+    expect(gif.frames[1].colors).toEqual(Array.from({ length: 12 }, (_, p) => colors[(p + 1) % 3]));
+  });
+
+  it('leaves out the loop extension when the animation plays once', async () => {
+    const gif = await readGif(await encodeGif([frameOf(2, 2, () => [4, 4, 4])], 2, 2, { loop: false }));
+    expect(gif.loops).toBe(false);
+    expect(gif.frames).toHaveLength(1);
+    expect(gif.trailer).toBe(0x3b);
+  });
+
+  it('keeps the code stream readable as codes grow to 12 bits and the table is cleared', async () => {
+    // Pseudo-random pixels over 200 colours add a table entry for almost every pixel.
+    let seed = 7;
+    const expected: [number, number, number][] = [];
+    for (let p = 0; p < 80 * 60; p++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      const color = seed % 200;
+      expected.push([binCentre(color), binCentre(color >> 5 ^ color), binCentre(color * 7)]);
+    }
+    const gif = await readGif(await encodeGif([frameOf(80, 60, p => expected[p])], 80, 60, { loop: false }));
+    expect(gif.frames[0].colors).toEqual(expected);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A small animated GIF89a encoder. Every frame gets its own 256-colour
+// palette from a median cut over a 15-bit colour histogram, so crossfades
+// between differently coloured poses keep their colours.
+
+export interface GifFrame {
+  pixels: Uint8ClampedArray; // RGBA, as from getImageData; alpha is ignored
+  delay: number; // Milliseconds
+}
+
+const PALETTE_SIZE = 256;
+const MAX_CODE = 4096;
+
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface ColorBox {
+  bins: number[];
+  count: number;
+}
+
+const channel = (bin: number, axis: number) => (bin >> (10 - axis * 5)) & 31;
+
+const longestAxis = ({ bins }: ColorBox) => {
+  let best = { axis: 0, range: -1 };
+  for (let axis = 0; axis < 3; axis++) {
+    let min = 31;
+    let max = 0;
+    for (const bin of bins) {
+      const value = channel(bin, axis);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { axis, range: max - min };
+  }
+  return best;
+};
+
+/**
+ * Reduces the frame to at most 256 colours. Returns the palette (RGB
+ * triplets) and, for every histogram bin in use, its palette index.
+ */
+const quantize = (pixels: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(1 << 15);
+  for (let i = 0; i < pixels.length; i += 4) histogram[binOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+
+  const used: number[] = [];
+  histogram.forEach((count, bin) => { if (count) used.push(bin); });
+  const boxes: ColorBox[] = [{ bins: used, count: pixels.length / 4 }];
+
+  // Split the most populous box that still spans more than one bin, at its weighted median.
+  while (boxes.length < PALETTE_SIZE) {
+    const splittable = boxes.filter(box => box.bins.length > 1);
+    if (splittable.length === 0) break;
+    const box = splittable.reduce((a, b) => (b.count > a.count ? b : a));
+    const { axis } = longestAxis(box);
+    box.bins.sort((a, b) => channel(a, axis) - channel(b, axis));
+    let seen = 0;
+    let cut = 1;
+    for (; cut < box.bins.length - 1; cut++) {
+      seen += histogram[box.bins[cut - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const lower = box.bins.slice(0, cut);
+    const upper = box.bins.slice(cut);
+    const countOf = (bins: number[]) => bins.reduce((total, bin) => total + histogram[bin], 0);
+    boxes.splice(boxes.indexOf(box), 1, { bins: lower, count: countOf(lower) }, { bins: upper, count: countOf(upper) });
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const indexOfBin = new Uint8Array(1 << 15);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0;
+    for (const bin of box.bins) {
+      const weight = histogram[bin];
+      r += (channel(bin, 0) * 8 + 4) * weight;
+      g += (channel(bin, 1) * 8 + 4) * weight;
+      b += (channel(bin, 2) * 8 + 4) * weight;
+      indexOfBin[bin] = index;
+    }
+    const count = Math.max(1, box.count);
+    palette.set([Math.round(r / count), Math.round(g / count), Math.round(b / count)], index * 3);
+  });
+  return { palette, indexOfBin };
+};
+
+const createByteWriter = () => {
+  const bytes: number[] = [];
+  const byte = (value: number) => { bytes.push(value & 0xff); };
+  return {
+    byte,
+    word: (value: number) => {
+      byte(value);
+      byte(value >> 8);
+    },
+    text: (value: string) => {
+      for (const char of value) byte(char.charCodeAt(0));
+    },
+    array: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) bytes.push(values[i]);
+    },
+    toUint8Array: () => Uint8Array.from(bytes),
+  };
+};
+
+/** LZW-compresses palette indices with 8-bit roots, as GIF image data. */
+const lzw = (indices: Uint8Array): Uint8Array => {
+  const clearCode = PALETTE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = 9;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  const table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < MAX_CODE) {
+      table.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = 9;
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) output.push(buffer & 0xff);
+  return Uint8Array.from(output);
+};
+
+/**
+ * Encodes the frames as an animated GIF. With `loop` the animation repeats
+ * forever; without it, viewers stop on the last frame. `frames` is read one
+ * at a time, so a generator can draw each frame just before it is encoded.
+ * `onFrame` runs after each frame and may yield to keep the page responsive.
+ */
+export const encodeGif = async (
+  frames: Iterable<GifFrame>,
+  width: number,
+  height: number,
+  { loop, onFrame }: { loop: boolean; onFrame?: (index: number) => void | Promise<void> },
+): Promise<Blob> => {
+  const header = createByteWriter();
+  header.text('GIF89a');
+  header.word(width);
+  header.word(height);
+  header.array([0, 0, 0]); // No global colour table
+  if (loop) {
+    header.array([0x21, 0xff, 0x0b]);
+    header.text('NETSCAPE2.0');
+    header.array([0x03, 0x01, 0x00, 0x00, 0x00]); // Repeat count 0 means forever
+  }
+  const parts: Uint8Array[] = [header.toUint8Array()];
+
+  let index = 0;
+  for (const { pixels, delay } of frames) {
+    const { palette, indexOfBin } = quantize(pixels);
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) indices[p] = indexOfBin[binOf(pixels[i], pixels[i + 1], pixels[i + 2])];
+
+    const frame = createByteWriter();
+    frame.array([0x21, 0xf9, 0x04, 0x04]); // Graphic control: keep the previous frame, no transparency
+    frame.word(Math.max(2, Math.round(delay / 10)));
+    frame.array([0x00, 0x00]);
+    frame.byte(0x2c);
+    frame.word(0);
+    frame.word(0);
+    frame.word(width);
+    frame.word(height);
+    frame.byte(0x80 | 0x07); // Local colour table of 2^(7 + 1) entries
+    frame.array(palette);
+    frame.byte(8);
+    const data = lzw(indices);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      frame.byte(block.length);
+      frame.array(block);
+    }
+    frame.byte(0);
+    parts.push(frame.toUint8Array());
+    await onFrame?.(index++);
+  }
+
+  parts.push(Uint8Array.of(0x3b));
+  return new Blob(parts, { type: 'image/gif' });
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Could not load image: ${src.slice(0, 64)}`));
+        image.src = src;
+    });
+};
+
+/**
+ * Loads any image URL as a File, e.g. to hand wardrobe items to the providers.
+ * Images within `maxEdge` keep their original bytes; larger ones, or ones
+ * whose bytes cannot be fetched, are redrawn as a PNG no longer than `maxEdge`.
+ */
+export const urlToFile = async (url: string, filename: string, maxEdge = Infinity): Promise<File> => {
+    const image = await loadImage(url);
+    const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+    if (scale === 1) {
+        try {
+            const response = await fetch(url);
+            const blob = await response.blob();
+            if (response.ok && blob.type.startsWith('image/')) return new File([blob], filename, { type: blob.type });
+        } catch {
+            // Fall back to redrawing the image that already loaded
+        }
+    }
+    const { canvas, ctx } = createCanvas(Math.max(1, image.naturalWidth * scale), Math.max(1, image.naturalHeight * scale));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await canvasToBlob(canvas, 'image/png');
+    return new File([blob], filename, { type: blob.type });
+};
+
+export const fileToDataUrl = (file: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error(`Failed to read file: ${reader.error?.message || 'Unknown file reading error'}`));
+    });
+};
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width);
+    canvas.height = Math.round(height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context.');
+    return { canvas, ctx };
+};
+
+/** Draws the image scaled to fit inside the box, centred, keeping its aspect ratio. */
+export const drawContain = (ctx: CanvasRenderingContext2D, image: CanvasImageSource & { width: number; height: number }, x: number, y: number, width: number, height: number) => {
+    const scale = Math.min(width / image.width, height / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    ctx.drawImage(image, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+/**
+ * Encodes the canvas as `type`. Browsers quietly fall back to PNG for types
+ * they cannot encode, so a different result type is treated as a failure.
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) return reject(new Error('Canvas toBlob failed.'));
+            if (blob.type !== type) return reject(new Error(`This browser cannot save ${type} images.`));
+            resolve(blob);
+        }, type, quality);
+    });
+};
+
+/** Shortens `text` with an ellipsis until it fits `maxWidth` in the current font. */
+export const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+};
+
+/** Small deterministic 32-bit FNV-1a hash, handy for seeding local renders. */
+export const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
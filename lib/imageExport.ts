@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToBlob, createCanvas, drawContain, loadImage } from './image';
+import { embedImageMetadata, ImageMetadata } from './imageMetadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; type: string; extension: string; quality?: number }> = {
+  png: { label: 'PNG', type: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', type: 'image/jpeg', extension: 'jpg', quality: 0.92 },
+  webp: { label: 'WebP', type: 'image/webp', extension: 'webp', quality: 0.9 },
+  avif: { label: 'AVIF', type: 'image/avif', extension: 'avif', quality: 0.8 },
+};
+
+let supportedFormats: Promise<ExportFormat[]> | null = null;
+
+/** Formats this browser can encode from a canvas, tested once with a tiny image. */
+export const getSupportedFormats = (): Promise<ExportFormat[]> => {
+  supportedFormats ??= (async () => {
+    const { canvas } = createCanvas(2, 2);
+    const formats = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+    const results = await Promise.all(formats.map(format =>
+      canvasToBlob(canvas, EXPORT_FORMATS[format].type).then(() => true, () => false)));
+    return formats.filter((_, index) => results[index]);
+  })();
+  return supportedFormats;
+};
+
+export type SizePreset = 'original' | 'instagram' | 'story' | 'square' | 'custom';
+
+export const SIZE_PRESETS: Record<SizePreset, { label: string; width?: number; height?: number }> = {
+  original: { label: 'ขนาดเดิม' },
+  instagram: { label: 'Instagram แนวตั้ง 4:5', width: 1080, height: 1350 },
+  story: { label: 'สตอรี่ 9:16', width: 1080, height: 1920 },
+  square: { label: 'ร้านค้าออนไลน์ 1:1', width: 2000, height: 2000 },
+  custom: { label: 'กำหนดเอง' },
+};
+
+export const MAX_EXPORT_DIMENSION = 4096;
+
+/** How an image is fitted into a size with a different aspect ratio. */
+export type FitMode = 'crop' | 'pad';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  preset: SizePreset;
+  customWidth: number;
+  customHeight: number;
+  fit: FitMode;
+  padColor: string;
+  embedMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  preset: 'original',
+  customWidth: 1200,
+  customHeight: 1600,
+  fit: 'crop',
+  padColor: '#FFFFFF',
+  embedMetadata: true,
+};
+
+const clampDimension = (value: number) => Math.min(MAX_EXPORT_DIMENSION, Math.max(1, Math.round(value) || 1));
+
+export const getTargetSize = ({ preset, customWidth, customHeight }: ExportOptions, image: { width: number; height: number }) => {
+  if (preset === 'original') return { width: image.width, height: image.height };
+  if (preset === 'custom') return { width: clampDimension(customWidth), height: clampDimension(customHeight) };
+  const { width = image.width, height = image.height } = SIZE_PRESETS[preset];
+  return { width, height };
+};
+
+const ANALYSIS_EDGE = 128;
+
+/**
+ * Picks the crop window with the given aspect ratio that keeps the most
+ * detail. Detail is the luminance gradient of a small copy of the image, so
+ * the window slides towards the model and away from the plain backdrop. Only
+ * one axis is ever cropped; ties go to the most central window.
+ */
+export const findSmartCrop = (image: HTMLImageElement, aspect: number) => {
+  const { width, height } = image;
+  const cropsWidth = width / height > aspect;
+  const cropWidth = cropsWidth ? height * aspect : width;
+  const cropHeight = cropsWidth ? height : width / aspect;
+  if (Math.abs(cropWidth - width) < 1 && Math.abs(cropHeight - height) < 1) return { x: 0, y: 0, width, height };
+
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height));
+  const { canvas, ctx } = createCanvas(Math.max(2, width * scale), Math.max(2, height * scale));
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const luminance = (x: number, y: number) => {
+    const i = (y * canvas.width + x) * 4;
+    return 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+  };
+
+  // Detail summed per column (when cropping the width) or per row.
+  const profile = new Float64Array(cropsWidth ? canvas.width : canvas.height);
+  for (let y = 1; y < canvas.height; y++) {
+    for (let x = 1; x < canvas.width; x++) {
+      const energy = Math.abs(luminance(x, y) - luminance(x - 1, y)) + Math.abs(luminance(x, y) - luminance(x, y - 1));
+      profile[cropsWidth ? x : y] += energy;
+    }
+  }
+
+  const windowSize = Math.max(1, Math.round((cropsWidth ? cropWidth : cropHeight) * scale));
+  const centre = (profile.length - windowSize) / 2;
+  let sum = profile.slice(0, windowSize).reduce((total, value) => total + value, 0);
+  let best = { start: 0, score: -Infinity };
+  for (let start = 0; start + windowSize <= profile.length; start++) {
+    if (start > 0) sum += profile[start + windowSize - 1] - profile[start - 1];
+    const score = sum - Math.abs(start - centre) * 1e-6;
+    if (score > best.score) best = { start, score };
+  }
+
+  const offset = Math.min(best.start / scale, (cropsWidth ? width - cropWidth : height - cropHeight));
+  return cropsWidth
+    ? { x: offset, y: 0, width: cropWidth, height }
+    : { x: 0, y: offset, width, height: cropHeight };
+};
+
+/**
+ * Resizes `imageUrl` to the chosen preset, encodes it in the chosen format
+ * and, when asked, embeds `metadata`. Returns the file with its extension.
+ */
+export const renderExportImage = async (
+  imageUrl: string,
+  options: ExportOptions,
+  metadata: ImageMetadata,
+): Promise<{ blob: Blob; extension: string }> => {
+  const image = await loadImage(imageUrl);
+  const size = getTargetSize(options, image);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+
+  if (options.preset === 'original') {
+    ctx.drawImage(image, 0, 0);
+  } else if (options.fit === 'pad') {
+    ctx.fillStyle = options.padColor;
+    ctx.fillRect(0, 0, size.width, size.height);
+    drawContain(ctx, image, 0, 0, size.width, size.height);
+  } else {
+    const crop = findSmartCrop(image, size.width / size.height);
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+  }
+
+  const { type, quality, extension } = EXPORT_FORMATS[options.format];
+  const encoded = await canvasToBlob(canvas, type, quality);
+  const blob = options.embedMetadata ? await embedImageMetadata(encoded, metadata, size) : encoded;
+  return { blob, extension };
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { buildXmp, embedImageMetadata, ImageMetadata } from './imageMetadata';
+
+const metadata: ImageMetadata = {
+  title: 'ลุคทำงาน & "smart"',
+  items: [{ id: 'shirt', name: 'เสื้อเชิ้ต', slot: 'top' }, { id: 'jeans', name: 'Jeans' }],
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  createdAt: '2026-01-02T03:04:05.000Z',
+};
+const size = { width: 300, height: 400 };
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+const embed = async (bytes: number[] | Uint8Array, type: string) =>
+  new Uint8Array(await (await embedImageMetadata(new Blob([new Uint8Array(bytes)], { type }), metadata, size)).arrayBuffer());
+
+const pngChunk = (type: string, data: number[]) => {
+  const body = new Uint8Array([...Array.from(type, char => char.charCodeAt(0)), ...data]);
+  const chunk = new Uint8Array(8 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(4 + body.length, crc32(body));
+  return [...chunk];
+};
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array; crcOk: boolean }[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const body = bytes.subarray(offset + 4, offset + 8 + length);
+    chunks.push({ type: latin1(body.subarray(0, 4)), data: body.subarray(4), crcOk: view.getUint32(offset + 8 + length) === crc32(body) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('buildXmp', () => {
+  it('escapes the title and keeps the full metadata as JSON', () => {
+    const xmp = buildXmp(metadata);
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">ลุคทำงาน &amp; &quot;smart&quot;</rdf:li>');
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">เสื้อเชิ้ต, Jeans</rdf:li>');
+    const data = xmp.match(/wearfit:Data="([^"]*)"/)![1].replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+    expect(JSON.parse(data)).toEqual(metadata);
+  });
+});
+
+describe('embedImageMetadata', () => {
+  it('adds text and XMP chunks to a PNG right after IHDR, with valid checksums', async () => {
+    const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...pngChunk('IHDR', new Array(13).fill(1)), ...pngChunk('IEND', [])];
+    const chunks = readPngChunks(await embed(png, 'image/png'));
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'tEXt', 'tEXt', 'tEXt', 'iTXt', 'IEND']);
+    expect(chunks.every(chunk => chunk.crcOk)).toBe(true);
+
+    const [software, title, comment] = chunks.slice(1, 4).map(chunk => latin1(chunk.data));
+    expect(software).toBe('Software\0Wear Fit');
+    expect(title.startsWith('Title\0\\u0e25')).toBe(true);
+    expect(JSON.parse(comment.slice('Comment\0'.length))).toEqual(metadata);
+    expect(new TextDecoder().decode(chunks[4].data)).toContain('XML:com.adobe.xmp\0\0\0\0\0<?xpacket');
+  });
+
+  it('puts an XMP APP1 segment after the JFIF header of a JPEG', async () => {
+    const app0 = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+    const jpeg = await embed([0xff, 0xd8, ...app0, 0xff, 0xd9], 'image/jpeg');
+    expect([...jpeg.subarray(0, 8)]).toEqual([0xff, 0xd8, ...app0]);
+    expect([jpeg[8], jpeg[9]]).toEqual([0xff, 0xe1]);
+    const segmentLength = (jpeg[10] << 8) | jpeg[11];
+    expect(latin1(jpeg.subarray(12, 41))).toBe('http://ns.adobe.com/xap/1.0/\0');
+    expect([...jpeg.subarray(10 + segmentLength)]).toEqual([0xff, 0xd9]);
+  });
+
+  it('gives a simple WebP an extended header and appends an XMP chunk', async () => {
+    const vp8 = [...Array.from('VP8 ', char => char.charCodeAt(0)), 2, 0, 0, 0, 0xaa, 0xbb];
+    const webp = [...Array.from('RIFF', char => char.charCodeAt(0)), 14, 0, 0, 0, ...Array.from('WEBP', char => char.charCodeAt(0)), ...vp8];
+    const result = await embed(webp, 'image/webp');
+    const view = new DataView(result.buffer);
+    expect(view.getUint32(4, true)).toBe(result.length - 8);
+    expect(latin1(result.subarray(12, 16))).toBe('VP8X');
+    expect(result[20]).toBe(0x04);
+    expect(view.getUint32(24, true) & 0xffffff).toBe(size.width - 1);
+    expect(view.getUint32(27, true) & 0xffffff).toBe(size.height - 1);
+    expect([...result.subarray(30, 30 + vp8.length)]).toEqual(vp8);
+    expect(latin1(result.subarray(30 + vp8.length, 34 + vp8.length))).toBe('XMP ');
+    expect(result.length % 2).toBe(0);
+  });
+
+  it('returns other formats unchanged', async () => {
+    const gif = new Blob([new Uint8Array([0x47, 0x49, 0x46])], { type: 'image/gif' });
+    expect(await embedImageMetadata(gif, metadata, size)).toBe(gif);
+  });
+});
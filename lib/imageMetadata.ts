@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Writes provenance into exported images without re-encoding them: PNG gets
+// tEXt chunks plus an XMP iTXt chunk, JPEG an XMP APP1 segment and WebP an
+// XMP chunk. Other formats are returned unchanged.
+
+export interface ImageMetadata {
+  title: string;
+  items: { id: string; name: string; slot?: string; versionId?: string }[];
+  pose?: { id: string; name: string; instruction: string };
+  provider: string;
+  model: string;
+  createdAt: string; // ISO 8601
+}
+
+const SOFTWARE = 'Wear Fit';
+const XMP_NAMESPACE = 'https://wear-fit.app/ns/1.0/';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// tEXt is Latin-1 only, so everything past ASCII is written as JSON \u escapes.
+const toAsciiJson = (value: unknown) =>
+  JSON.stringify(value).replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const describe = (metadata: ImageMetadata) => metadata.items.map(item => item.name).join(', ');
+
+export const buildXmp = (metadata: ImageMetadata): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:wearfit="${XMP_NAMESPACE}"`,
+  ` xmp:CreatorTool="${SOFTWARE}" xmp:CreateDate="${escapeXml(metadata.createdAt)}"`,
+  ` wearfit:Provider="${escapeXml(metadata.provider)}" wearfit:Model="${escapeXml(metadata.model)}"`,
+  ` wearfit:Data="${escapeXml(JSON.stringify(metadata))}">`,
+  `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>`,
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(describe(metadata))}</rdf:li></rdf:Alt></dc:description>`,
+  '</rdf:Description>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('\n');
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const latin1 = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+
+// --- PNG ---
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const textChunk = (keyword: string, text: string) => pngChunk('tEXt', concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+// iTXt: keyword, null, no compression (two zero bytes), empty language and translated keyword, then UTF-8 text.
+const xmpChunk = (xmp: string) => pngChunk('iTXt', concat([latin1('XML:com.adobe.xmp'), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(xmp)]));
+
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  // The signature is 8 bytes and IHDR always comes first, 25 bytes in all.
+  const afterHeader = 8 + 25;
+  return concat([
+    bytes.subarray(0, afterHeader),
+    textChunk('Software', SOFTWARE),
+    textChunk('Title', toAsciiJson(metadata.title).slice(1, -1)),
+    textChunk('Comment', toAsciiJson(metadata)),
+    xmpChunk(buildXmp(metadata)),
+    bytes.subarray(afterHeader),
+  ]);
+};
+
+// --- JPEG ---
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const payload = concat([latin1(JPEG_XMP_HEADER), encoder.encode(buildXmp(metadata))]);
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    console.warn('Image metadata is too large for a JPEG segment; skipped.');
+    return bytes;
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  // Keep SOI and a JFIF APP0 segment first, as readers expect.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+// --- WebP ---
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  chunk.set(latin1(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const XMP_FLAG = 0x04;
+const ALPHA_FLAG = 0x10;
+
+const embedWebp = (bytes: Uint8Array, metadata: ImageMetadata, width: number, height: number): Uint8Array => {
+  if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') return bytes;
+  const body = bytes.subarray(12);
+  const first = fourCC(body, 0);
+  let chunks: Uint8Array;
+  if (first === 'VP8X') {
+    chunks = new Uint8Array(body);
+    chunks[8] |= XMP_FLAG;
+  } else {
+    // A simple file (one VP8 or VP8L chunk) needs the extended header before it can carry metadata.
+    const hasAlpha = first === 'VP8L' && (body[8 + 4] & 0x10) !== 0;
+    const header = new Uint8Array(10);
+    header[0] = XMP_FLAG | (hasAlpha ? ALPHA_FLAG : 0);
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    chunks = concat([riffChunk('VP8X', header), body]);
+  }
+  const result = concat([latin1('RIFF'), new Uint8Array(4), latin1('WEBP'), chunks, riffChunk('XMP ', encoder.encode(buildXmp(metadata)))]);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+};
+
+/** Formats whose files can carry the metadata. */
+export const METADATA_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/** Returns `blob` with `metadata` embedded, or unchanged for formats that are not supported. */
+export const embedImageMetadata = async (blob: Blob, metadata: ImageMetadata, size: { width: number; height: number }): Promise<Blob> => {
+  if (!METADATA_TYPES.includes(blob.type)) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const embedded = blob.type === 'image/png' ? embedPng(bytes, metadata)
+    : blob.type === 'image/jpeg' ? embedJpeg(bytes, metadata)
+    : embedWebp(bytes, metadata, size.width, size.height);
+  return new Blob([embedded], { type: blob.type });
+};
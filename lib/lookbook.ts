@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToBlob, createCanvas, drawContain, fitText, loadImage } from './image';
+import { createImagePdf, PdfPage } from './pdf';
+
+// Lookbook pages and contact sheets are drawn on canvases in the browser. A
+// PDF page is one canvas turned into a JPEG, see lib/pdf.ts.
+
+export type PageSizeId = 'a4' | 'a5' | 'letter' | 'square';
+export type PageOrientation = 'portrait' | 'landscape';
+
+/** Portrait sizes in points. */
+export const PAGE_SIZES: Record<PageSizeId, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a5: { label: 'A5', width: 419.53, height: 595.28 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  square: { label: 'จัตุรัส', width: 720, height: 720 },
+};
+
+export interface LookbookEntry {
+  id: string;
+  title: string;
+  subtitle?: string;
+  imageUrl: string;
+  items: { name: string; url: string }[];
+}
+
+export interface LookbookOptions {
+  title: string;
+  pageSize: PageSizeId;
+  orientation: PageOrientation;
+}
+
+export const CONTACT_SHEET_COLUMNS = [3, 4, 5, 6];
+
+const PIXELS_PER_POINT = 2; // About 144 dpi
+const JPEG_QUALITY = 0.88;
+const SANS = "Inter, 'Noto Sans Thai', sans-serif";
+const SERIF = "'Instrument Serif', 'Noto Serif Thai', serif";
+const PAPER = '#FAFAF9';
+const INK = '#111827';
+const MUTED = '#6B7280';
+const PLACEHOLDER = '#E5E7EB';
+
+type LoadedImage = HTMLImageElement | null;
+
+// A missing thumbnail (e.g. a remote image that refuses CORS) leaves a grey box instead of failing the export.
+const tryLoadImage = (url: string): Promise<LoadedImage> => loadImage(url).catch(() => null);
+
+const drawImageOrPlaceholder = (ctx: CanvasRenderingContext2D, image: LoadedImage, x: number, y: number, width: number, height: number) => {
+  if (image) {
+    drawContain(ctx, image, x, y, width, height);
+  } else {
+    ctx.fillStyle = PLACEHOLDER;
+    ctx.fillRect(x, y, width, height);
+  }
+};
+
+const pageDimensions = ({ pageSize, orientation }: LookbookOptions) => {
+  const { width, height } = PAGE_SIZES[pageSize];
+  return orientation === 'landscape' && width !== height ? { width: height, height: width } : { width, height };
+};
+
+const setFont = (ctx: CanvasRenderingContext2D, weight: number, size: number, family = SANS) => {
+  ctx.font = `${weight} ${Math.round(size)}px ${family}`;
+};
+
+const canvasToJpeg = async (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY)).arrayBuffer());
+
+const renderCoverPage = async (entries: LookbookEntry[], options: LookbookOptions, width: number, height: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const margin = width * 0.08;
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, width, height);
+
+  const previews = await Promise.all(entries.slice(0, 4).map(entry => tryLoadImage(entry.imageUrl)));
+  const gap = width * 0.02;
+  const mosaicTop = height * 0.38;
+  const mosaicHeight = height - mosaicTop - margin;
+  const cellWidth = (width - margin * 2 - gap * (previews.length - 1)) / Math.max(previews.length, 1);
+  previews.forEach((image, index) => {
+    const x = margin + index * (cellWidth + gap);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(x, mosaicTop, cellWidth, mosaicHeight);
+    drawImageOrPlaceholder(ctx, image, x, mosaicTop, cellWidth, mosaicHeight);
+  });
+
+  ctx.fillStyle = INK;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  setFont(ctx, 700, width * 0.09, SERIF);
+  ctx.fillText(fitText(ctx, options.title, width - margin * 2), margin, height * 0.2);
+  ctx.fillStyle = MUTED;
+  setFont(ctx, 500, width * 0.028);
+  ctx.fillText(`${entries.length} ลุค · ${new Date().toLocaleDateString('th-TH', { dateStyle: 'long' })}`, margin, height * 0.2 + width * 0.06);
+  return canvas;
+};
+
+const renderEntryPage = async (entry: LookbookEntry, pageNumber: number, pageCount: number, width: number, height: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const margin = Math.min(width, height) * 0.07;
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, width, height);
+
+  const [image, ...thumbnails] = await Promise.all([entry.imageUrl, ...entry.items.map(item => item.url)].map(tryLoadImage));
+
+  // Header
+  const unit = Math.min(width, height) / 100;
+  ctx.fillStyle = INK;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  setFont(ctx, 700, unit * 6, SERIF);
+  ctx.fillText(fitText(ctx, entry.title, width - margin * 2), margin, margin);
+  let contentTop = margin + unit * 8;
+  if (entry.subtitle) {
+    ctx.fillStyle = MUTED;
+    setFont(ctx, 500, unit * 2.6);
+    ctx.fillText(fitText(ctx, entry.subtitle, width - margin * 2), margin, contentTop);
+    contentTop += unit * 4.5;
+  }
+  const footerTop = height - margin;
+
+  // Landscape pages put the items beside the photo, portrait pages below it.
+  const isLandscape = width > height;
+  const contentWidth = width - margin * 2;
+  const contentHeight = footerTop - contentTop - unit * 2;
+  const photo = isLandscape
+    ? { x: margin, y: contentTop, width: contentWidth * 0.55, height: contentHeight }
+    : { x: margin, y: contentTop, width: contentWidth, height: contentHeight * (entry.items.length ? 0.72 : 1) };
+  const list = isLandscape
+    ? { x: margin + contentWidth * 0.59, y: contentTop, width: contentWidth * 0.41, height: contentHeight }
+    : { x: margin, y: photo.y + photo.height + unit * 3, width: contentWidth, height: contentHeight - photo.height - unit * 3 };
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(photo.x, photo.y, photo.width, photo.height);
+  drawImageOrPlaceholder(ctx, image, photo.x, photo.y, photo.width, photo.height);
+
+  if (entry.items.length) {
+    const columns = isLandscape ? 2 : Math.min(entry.items.length, 4);
+    const rows = Math.ceil(entry.items.length / columns);
+    const gap = unit * 2;
+    const labelHeight = unit * 4;
+    const cellWidth = (list.width - gap * (columns - 1)) / columns;
+    const thumbSize = Math.max(0, Math.min(cellWidth, (list.height - (rows - 1) * gap) / rows - labelHeight));
+    setFont(ctx, 500, unit * 2.2);
+    entry.items.forEach((item, index) => {
+      const x = list.x + (index % columns) * (cellWidth + gap);
+      const y = list.y + Math.floor(index / columns) * (thumbSize + labelHeight + gap);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(x, y, cellWidth, thumbSize);
+      drawImageOrPlaceholder(ctx, thumbnails[index], x + unit, y + unit, cellWidth - unit * 2, thumbSize - unit * 2);
+      ctx.fillStyle = INK;
+      ctx.fillText(fitText(ctx, item.name, cellWidth), x, y + thumbSize + unit);
+    });
+  }
+
+  ctx.fillStyle = MUTED;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  setFont(ctx, 500, unit * 2);
+  ctx.fillText(`${pageNumber} / ${pageCount}`, width - margin, height - margin * 0.5);
+  return canvas;
+};
+
+/**
+ * Renders a cover followed by one page per entry and returns them as a PDF.
+ * Pages are encoded one at a time so only one full-size canvas is alive.
+ */
+export const exportLookbookPdf = async (
+  entries: LookbookEntry[],
+  options: LookbookOptions,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<Blob> => {
+  const { width, height } = pageDimensions(options);
+  const pixelWidth = Math.round(width * PIXELS_PER_POINT);
+  const pixelHeight = Math.round(height * PIXELS_PER_POINT);
+  const total = entries.length + 1;
+  const pages: PdfPage[] = [];
+  const addPage = async (canvas: HTMLCanvasElement) => {
+    pages.push({ jpeg: await canvasToJpeg(canvas), pixelWidth, pixelHeight, width, height });
+    onProgress?.(pages.length, total);
+  };
+
+  await addPage(await renderCoverPage(entries, options, pixelWidth, pixelHeight));
+  for (const [index, entry] of entries.entries()) {
+    await addPage(await renderEntryPage(entry, index + 1, entries.length, pixelWidth, pixelHeight));
+  }
+  return createImagePdf(pages, { title: options.title });
+};
+
+const SHEET_CELL_WIDTH = 360;
+const SHEET_PHOTO_HEIGHT = 640; // 9:16, like the dressing room
+const SHEET_THUMB_SIZE = 44;
+
+/** Every entry as a small card on one image: photo, title and a strip of item thumbnails. */
+export const renderContactSheet = async (
+  entries: LookbookEntry[],
+  { title, columns }: { title: string; columns: number },
+  type: 'image/png' | 'image/jpeg' = 'image/png',
+): Promise<Blob> => {
+  const gap = 24;
+  const headerHeight = 120;
+  const captionHeight = 44 + SHEET_THUMB_SIZE + 40;
+  const cellHeight = SHEET_PHOTO_HEIGHT + captionHeight;
+  const columnCount = Math.max(1, Math.min(columns, entries.length));
+  const rows = Math.ceil(entries.length / columnCount);
+  const width = gap + columnCount * (SHEET_CELL_WIDTH + gap);
+  const height = headerHeight + rows * (cellHeight + gap) + gap;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = INK;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  setFont(ctx, 700, 52, SERIF);
+  ctx.fillText(fitText(ctx, title, width - gap * 2), gap, 72);
+  ctx.fillStyle = MUTED;
+  setFont(ctx, 500, 18);
+  ctx.fillText(`${entries.length} ลุค · ${new Date().toLocaleDateString('th-TH', { dateStyle: 'long' })}`, gap, 102);
+
+  // Cards are drawn row by row so only a row's images are held at once.
+  for (let row = 0; row < rows; row++) {
+    const rowEntries = entries.slice(row * columnCount, (row + 1) * columnCount);
+    const images = await Promise.all(rowEntries.map(entry =>
+      Promise.all([entry.imageUrl, ...entry.items.map(item => item.url)].map(tryLoadImage))));
+    rowEntries.forEach((entry, column) => {
+      const [photo, ...thumbnails] = images[column];
+      const x = gap + column * (SHEET_CELL_WIDTH + gap);
+      const y = headerHeight + row * (cellHeight + gap);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(x, y, SHEET_CELL_WIDTH, cellHeight);
+      drawImageOrPlaceholder(ctx, photo, x, y, SHEET_CELL_WIDTH, SHEET_PHOTO_HEIGHT);
+
+      ctx.fillStyle = INK;
+      ctx.textBaseline = 'top';
+      setFont(ctx, 600, 18);
+      ctx.fillText(fitText(ctx, entry.title, SHEET_CELL_WIDTH - 24), x + 12, y + SHEET_PHOTO_HEIGHT + 12);
+      const visible = Math.floor((SHEET_CELL_WIDTH - 24) / (SHEET_THUMB_SIZE + 6));
+      thumbnails.slice(0, visible).forEach((thumbnail, index) => {
+        const thumbX = x + 12 + index * (SHEET_THUMB_SIZE + 6);
+        const thumbY = y + SHEET_PHOTO_HEIGHT + 44;
+        ctx.strokeStyle = PLACEHOLDER;
+        ctx.strokeRect(thumbX, thumbY, SHEET_THUMB_SIZE, SHEET_THUMB_SIZE);
+        drawImageOrPlaceholder(ctx, thumbnail, thumbX + 2, thumbY + 2, SHEET_THUMB_SIZE - 4, SHEET_THUMB_SIZE - 4);
+      });
+      ctx.fillStyle = MUTED;
+      setFont(ctx, 500, 13);
+      ctx.fillText(fitText(ctx, entry.items.map(item => item.name).join(' · '), SHEET_CELL_WIDTH - 24), x + 12, y + SHEET_PHOTO_HEIGHT + 44 + SHEET_THUMB_SIZE + 10);
+    });
+  }
+
+  return canvasToBlob(canvas, type, type === 'image/jpeg' ? JPEG_QUALITY : undefined);
+};
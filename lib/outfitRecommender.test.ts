@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { Formality, GarmentSlot, WardrobeItem } from '../types';
+import { applyRanking, colorHarmony, colorPairScore, recommendOutfits } from './outfitRecommender';
+
+const item = (id: string, slot: GarmentSlot, color: string, formality?: Formality): WardrobeItem => ({
+  id,
+  name: id,
+  url: `${id}.png`,
+  slot,
+  attributes: { garmentType: slot, slot, colors: [color], formality, analyzedBy: 'provider' },
+});
+
+describe('colorPairScore', () => {
+  it('scores neutrals, one hue, neighbours, complements and triads above clashing hues', () => {
+    expect(colorPairScore('ดำ', 'แดง')).toBe(0.9);
+    expect(colorPairScore('ขาว', 'ขาว')).toBe(0.85);
+    expect(colorPairScore('แดง', 'แดง')).toBe(0.85);
+    expect(colorPairScore('แดง', 'ส้ม')).toBe(0.8);
+    expect(colorPairScore('แดง', 'ฟ้า')).toBe(0.75);
+    expect(colorPairScore('แดง', 'น้ำเงิน')).toBe(0.6);
+    expect(colorPairScore('แดง', 'เหลือง')).toBe(0.3);
+  });
+
+  it('gives colours outside the palette a middling score', () => {
+    expect(colorPairScore('แดง', 'ทอง')).toBe(0.5);
+  });
+});
+
+describe('colorHarmony', () => {
+  it('needs at least two coloured items', () => {
+    expect(colorHarmony([item('tee', 'top', 'แดง')])).toBe(0.5);
+    expect(colorHarmony([item('tee', 'top', 'แดง'), { id: 'plain', name: 'plain', url: 'plain.png' }])).toBe(0.5);
+  });
+
+  it('averages every pair and marks down more than two bold colours', () => {
+    expect(colorHarmony([item('tee', 'top', 'ดำ'), item('jeans', 'bottom', 'ขาว'), item('cap', 'headwear', 'แดง')])).toBeCloseTo(0.9);
+    const bold = [item('tee', 'top', 'แดง'), item('jeans', 'bottom', 'ส้ม'), item('cap', 'headwear', 'ฟ้า')];
+    expect(colorHarmony(bold)).toBeCloseTo((0.8 + 0.75 + 0.75) / 3 - 0.15);
+  });
+});
+
+describe('recommendOutfits', () => {
+  const wardrobe = [
+    item('shirt', 'top', 'ขาว', 'business'),
+    item('tee', 'top', 'เหลือง', 'casual'),
+    item('trousers', 'bottom', 'ดำ', 'business'),
+    item('shorts', 'bottom', 'ฟ้า', 'casual'),
+    item('gown', 'dress', 'น้ำเงิน', 'formal'),
+    item('blazer', 'outerwear', 'เทา', 'business'),
+    item('loafers', 'footwear', 'ดำ', 'business'),
+  ];
+
+  it('builds looks from a dress or a top with a bottom, in dressing order', () => {
+    const looks = recommendOutfits(wardrobe, 'office', 10);
+    for (const look of looks) {
+      const slots = look.items.map(entry => entry.slot);
+      expect(slots.includes('dress') !== (slots.includes('top') && slots.includes('bottom'))).toBe(true);
+      expect(look.id).toBe(look.items.map(entry => entry.id).join('+'));
+    }
+    expect(looks[0].items.map(entry => entry.id)).toEqual(['shirt', 'trousers', 'loafers', 'blazer']);
+  });
+
+  it('keeps one look per dress or top and bottom pair, up to the limit', () => {
+    const looks = recommendOutfits(wardrobe, 'office', 10);
+    expect(looks).toHaveLength(5);
+    expect(recommendOutfits(wardrobe, 'office', 2)).toEqual(looks.slice(0, 2));
+  });
+
+  it('leaves out the slots an occasion avoids', () => {
+    const looks = recommendOutfits(wardrobe, 'beach');
+    expect(looks.flatMap(look => look.items).some(entry => entry.slot === 'outerwear')).toBe(false);
+  });
+});
+
+describe('applyRanking', () => {
+  it('puts ranked looks first with their reason and keeps the rest in local order', () => {
+    const looks = ['a', 'b', 'c'].map(id => ({ id, items: [], score: 0.5, reasons: ['local'] }));
+    const ranked = applyRanking(looks, [{ id: 'c', reason: 'Bright and fun' }, { id: 'unknown' }]);
+    expect(ranked.map(look => look.id)).toEqual(['c', 'a', 'b']);
+    expect(ranked[0].reasons).toEqual(['Bright and fun', 'local']);
+    expect(ranked[1]).toBe(looks[0]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Formality, GarmentSlot, Occasion, WardrobeItem } from '../types';
+import type { LookSummary, RankedLook } from '../services/tryOnProvider';
+import { colorHue, FORMALITY_LABELS } from './garmentAttributes';
+import { DRESSING_ORDER } from './garmentSlots';
+
+// Rule-based outfit suggestions. Looks are assembled slot by slot from the
+// wardrobe and scored on colour harmony and on how well each item's formality
+// suits the occasion. An optional AI pass may re-rank the best of them.
+
+interface OccasionInfo {
+  label: string;
+  formality: Formality[]; // Best fit first
+  avoidSlots: GarmentSlot[];
+}
+
+export const OCCASION_INFO: Record<Occasion, OccasionInfo> = {
+  office: { label: 'ไปทำงาน', formality: ['business', 'smart-casual', 'formal'], avoidSlots: [] },
+  date: { label: 'ออกเดท', formality: ['smart-casual', 'casual', 'formal'], avoidSlots: [] },
+  beach: { label: 'เที่ยวทะเล', formality: ['casual', 'sport'], avoidSlots: ['outerwear'] },
+  wedding: { label: 'งานแต่งงาน', formality: ['formal', 'business', 'smart-casual'], avoidSlots: [] },
+};
+
+/** English wording of each occasion for the AI ranking prompt. */
+export const OCCASION_PROMPTS: Record<Occasion, string> = {
+  office: 'a regular day at the office',
+  date: 'a dinner date',
+  beach: 'a day at the beach',
+  wedding: 'attending a wedding as a guest',
+};
+
+export interface Recommendation {
+  id: string;
+  items: WardrobeItem[]; // In dressing order
+  score: number; // 0–1
+  reasons: string[];
+}
+
+// Neutrals go with everything; brown and cream are treated as neutrals too.
+const NEUTRAL_COLORS = new Set(['ดำ', 'ขาว', 'เทา', 'ครีม', 'น้ำตาล']);
+const UNKNOWN_SCORE = 0.5;
+/** Candidates kept per slot before combining, so the number of looks stays small. */
+const CANDIDATES_PER_SLOT = 4;
+const ACCESSORY_SLOTS: GarmentSlot[] = ['footwear', 'bag', 'headwear', 'eyewear', 'jewelry'];
+const MAX_ACCESSORIES = 2;
+
+const itemColors = (item: WardrobeItem) => item.attributes?.colors.length ? item.attributes.colors : item.color ? [item.color] : [];
+
+const hueDistance = (a: number, b: number) => {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+};
+
+/** How well two colours go together: neutrals, one hue, neighbours and complements score high. */
+export const colorPairScore = (a: string, b: string): number => {
+  if (NEUTRAL_COLORS.has(a) || NEUTRAL_COLORS.has(b)) return a === b ? 0.85 : 0.9;
+  const hueA = colorHue(a);
+  const hueB = colorHue(b);
+  if (hueA === null || hueB === null) return UNKNOWN_SCORE;
+  const distance = hueDistance(hueA, hueB);
+  if (distance <= 15) return 0.85; // Monochrome
+  if (distance <= 45) return 0.8; // Analogous
+  if (distance >= 150) return 0.75; // Complementary
+  if (distance >= 105 && distance <= 135) return 0.6; // Triadic
+  return 0.3;
+};
+
+/** Mean pair score over the main colour of every item; more than one bold colour is marked down. */
+export const colorHarmony = (items: WardrobeItem[]): number => {
+  const colors = items.map(item => itemColors(item)[0]).filter(Boolean);
+  if (colors.length < 2) return UNKNOWN_SCORE;
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      total += colorPairScore(colors[i], colors[j]);
+      pairs++;
+    }
+  }
+  const boldColors = new Set(colors.filter(color => !NEUTRAL_COLORS.has(color))).size;
+  return Math.max(0, total / pairs - Math.max(0, boldColors - 2) * 0.15);
+};
+
+const formalityFit = (item: WardrobeItem, occasion: Occasion): number => {
+  const formality = item.attributes?.formality;
+  if (!formality) return UNKNOWN_SCORE;
+  const rank = OCCASION_INFO[occasion].formality.indexOf(formality);
+  return rank < 0 ? 0 : 1 - rank * 0.25;
+};
+
+const bySlot = (wardrobe: WardrobeItem[], slot: GarmentSlot, occasion: Occasion) =>
+  wardrobe
+    .filter(item => item.slot === slot)
+    .sort((a, b) => formalityFit(b, occasion) - formalityFit(a, occasion))
+    .slice(0, CANDIDATES_PER_SLOT);
+
+const scoreLook = (items: WardrobeItem[], occasion: Occasion): { score: number; reasons: string[] } => {
+  const harmony = colorHarmony(items);
+  const fit = items.reduce((sum, item) => sum + formalityFit(item, occasion), 0) / items.length;
+  const reasons: string[] = [];
+  if (harmony >= 0.8) reasons.push('โทนสีเข้ากันดี');
+  const formalities = [...new Set(items.map(item => item.attributes?.formality).filter(Boolean))] as Formality[];
+  if (fit >= 0.75 && formalities.length > 0) {
+    reasons.push(`ความเป็นทางการเหมาะกับโอกาส (${formalities.map(formality => FORMALITY_LABELS[formality]).join(', ')})`);
+  }
+  return { score: harmony * 0.6 + fit * 0.4, reasons };
+};
+
+/**
+ * Up to `limit` complete looks for `occasion`, best first. A look is a dress
+ * or a top with a bottom, plus optional outerwear and a couple of accessories
+ * chosen for the colours already in the look.
+ */
+export const recommendOutfits = (wardrobe: WardrobeItem[], occasion: Occasion, limit = 6): Recommendation[] => {
+  const avoid = OCCASION_INFO[occasion].avoidSlots;
+  const pick = (slot: GarmentSlot) => avoid.includes(slot) ? [] : bySlot(wardrobe, slot, occasion);
+
+  const bases: WardrobeItem[][] = [
+    ...pick('dress').map(dress => [dress]),
+    ...pick('top').flatMap(top => pick('bottom').map(bottom => [top, bottom])),
+  ];
+  const looks = bases.flatMap(base => [base, ...pick('outerwear').map(outerwear => [...base, outerwear])]);
+
+  const recommendations = looks.map(core => {
+    // Accessories are added greedily, each only when it keeps the colours together.
+    const items = [...core];
+    for (const slot of ACCESSORY_SLOTS) {
+      if (items.length - core.length >= MAX_ACCESSORIES) break;
+      const best = pick(slot)
+        .map(item => ({ item, harmony: colorHarmony([...items, item]) }))
+        .sort((a, b) => b.harmony - a.harmony)[0];
+      if (best && best.harmony >= colorHarmony(items) - 0.05) items.push(best.item);
+    }
+    const ordered = [...items].sort((a, b) => DRESSING_ORDER.indexOf(a.slot) - DRESSING_ORDER.indexOf(b.slot));
+    return { id: ordered.map(item => item.id).join('+'), items: ordered, ...scoreLook(ordered, occasion) };
+  });
+
+  // Only the best look per dress or top/bottom pair, so the list is not one outfit with different jackets.
+  const seenBases = new Set<string>();
+  return recommendations
+    .sort((a, b) => b.score - a.score)
+    .filter(look => {
+      const baseKey = look.items.filter(item => item.slot === 'dress' || item.slot === 'top' || item.slot === 'bottom').map(item => item.id).join('+');
+      if (seenBases.has(baseKey)) return false;
+      seenBases.add(baseKey);
+      return true;
+    })
+    .slice(0, limit);
+};
+
+export const summarizeLook = (look: Recommendation): LookSummary => ({
+  id: look.id,
+  items: look.items.map(item => {
+    const details = [item.slot, ...itemColors(item), item.attributes?.formality].filter(Boolean).join(', ');
+    return `${item.attributes?.nameEn ?? item.name}${details ? ` (${details})` : ''}`;
+  }),
+});
+
+/**
+ * Puts the looks in the order the AI ranked them and adds its reasons. Looks
+ * the AI left out keep their local order after the ranked ones.
+ */
+export const applyRanking = (looks: Recommendation[], ranked: RankedLook[]): Recommendation[] => {
+  const rankOf = new Map(ranked.map((entry, index) => [entry.id, index]));
+  const reasonOf = new Map(ranked.map(entry => [entry.id, entry.reason]));
+  return [...looks]
+    .sort((a, b) => (rankOf.get(a.id) ?? Infinity) - (rankOf.get(b.id) ?? Infinity))
+    .map(look => reasonOf.get(look.id) ? { ...look, reasons: [reasonOf.get(look.id), ...look.reasons] } : look);
+};
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { OutfitLayer, WardrobeItem } from '../types';
+import {
+  addOutfitChain,
+  addOutfitNode,
+  createOutfitTree,
+  findChildWithGarment,
+  getActivePath,
+  getOutdatedNodeIds,
+  jumpToNode,
+  mergeOutfitLayers,
+  outfitTreeFromLayers,
+  redoOutfit,
+  undoOutfit,
+  updateOutfitNodeLayer,
+} from './outfitTree';
+
+const item = (id: string, versionId?: string): WardrobeItem => ({ id, name: id, url: `https://example.com/${id}.png`, versionId });
+const baseLayer: OutfitLayer = { garment: null, poseImages: { standing: 'model.png' } };
+const layer = (garment: WardrobeItem, image = `${garment.id}.png`): OutfitLayer => ({ garment, poseImages: { standing: image } });
+const garmentsOnPath = (tree: ReturnType<typeof createOutfitTree>) =>
+  getActivePath(tree).map(node => node.layer.garment?.id ?? null);
+
+describe('addOutfitNode', () => {
+  it('adds a child, makes it current and leaves the original tree alone', () => {
+    const tree = createOutfitTree(baseLayer);
+    const next = addOutfitNode(tree, tree.rootId, layer(item('top')));
+    expect(next.currentId).not.toBe(tree.rootId);
+    expect(next.nodes[next.rootId].childIds).toEqual([next.currentId]);
+    expect(next.nodes[next.currentId].parentId).toBe(tree.rootId);
+    expect(tree.nodes[tree.rootId].childIds).toEqual([]);
+  });
+
+  it('keeps earlier children as sibling branches', () => {
+    const tree = createOutfitTree(baseLayer);
+    const first = addOutfitNode(tree, tree.rootId, layer(item('top')));
+    const second = addOutfitNode(first, first.rootId, layer(item('dress')));
+    expect(second.nodes[second.rootId].childIds).toHaveLength(2);
+    expect(garmentsOnPath(second)).toEqual([null, 'dress']);
+  });
+
+  it('throws for an unknown parent', () => {
+    expect(() => addOutfitNode(createOutfitTree(baseLayer), 'missing', layer(item('top')))).toThrow();
+  });
+});
+
+describe('outfitTreeFromLayers', () => {
+  it('returns null for no layers', () => {
+    expect(outfitTreeFromLayers([])).toBeNull();
+  });
+
+  it('builds a single branch that ends on the requested layer', () => {
+    const tree = outfitTreeFromLayers([baseLayer, layer(item('top')), layer(item('cap'))], 1)!;
+    expect(Object.keys(tree.nodes)).toHaveLength(3);
+    expect(garmentsOnPath(tree)).toEqual([null, 'top']);
+    expect(garmentsOnPath(redoOutfit(tree))).toEqual([null, 'top', 'cap']);
+  });
+});
+
+describe('undo and redo', () => {
+  it('steps back to the parent and forward into the last visited branch', () => {
+    let tree = createOutfitTree(baseLayer);
+    tree = addOutfitNode(tree, tree.rootId, layer(item('top')));
+    const topId = tree.currentId;
+    tree = addOutfitNode(tree, tree.rootId, layer(item('dress')));
+    tree = jumpToNode(tree, topId);
+
+    const undone = undoOutfit(tree);
+    expect(undone.currentId).toBe(tree.rootId);
+    expect(redoOutfit(undone).currentId).toBe(topId);
+    expect(undoOutfit(undone)).toBe(undone);
+  });
+});
+
+describe('updateOutfitNodeLayer', () => {
+  it('ignores a node that is not in the tree', () => {
+    const tree = createOutfitTree(baseLayer);
+    expect(updateOutfitNodeLayer(tree, 'missing', current => ({ ...current, poseImages: {} }))).toBe(tree);
+  });
+});
+
+describe('findChildWithGarment', () => {
+  it('matches the same version of a single item only', () => {
+    let tree = createOutfitTree(baseLayer);
+    tree = addOutfitNode(tree, tree.rootId, layer(item('top', 'v1')));
+    tree = addOutfitNode(tree, tree.rootId, { garment: item('cap'), lookGarments: [item('cap'), item('top')], poseImages: {} });
+    expect(findChildWithGarment(tree, tree.rootId, item('top', 'v1'))).toBeDefined();
+    expect(findChildWithGarment(tree, tree.rootId, item('top', 'v2'))).toBeUndefined();
+    expect(findChildWithGarment(tree, tree.rootId, item('cap'))).toBeUndefined();
+  });
+});
+
+describe('mergeOutfitLayers', () => {
+  it('reuses matching steps, adds missing pose images and branches where the layers differ', () => {
+    let tree = createOutfitTree(baseLayer);
+    tree = addOutfitChain(tree, tree.rootId, [layer(item('top')), layer(item('cap'))]);
+    const topId = getActivePath(tree)[1].id;
+
+    const merged = mergeOutfitLayers(tree, [
+      baseLayer,
+      { garment: item('top'), poseImages: { 'turn-45': 'top-turn.png' } },
+      layer(item('scarf')),
+    ]);
+    expect(Object.keys(merged.nodes)).toHaveLength(4);
+    expect(merged.nodes[topId].layer.poseImages).toEqual({ standing: 'top.png', 'turn-45': 'top-turn.png' });
+    expect(merged.nodes[topId].childIds).toHaveLength(2);
+    expect(garmentsOnPath(merged)).toEqual([null, 'top', 'scarf']);
+  });
+});
+
+describe('getOutdatedNodeIds', () => {
+  it('flags layers wearing an older version than the wardrobe, including inside full looks', () => {
+    let tree = createOutfitTree(baseLayer);
+    tree = addOutfitNode(tree, tree.rootId, layer(item('top', 'v1')));
+    const singleId = tree.currentId;
+    tree = addOutfitNode(tree, tree.rootId, { garment: item('cap'), lookGarments: [item('cap'), item('top', 'v1')], poseImages: {} });
+    const lookId = tree.currentId;
+    tree = addOutfitNode(tree, tree.rootId, layer(item('scarf')));
+
+    const outdated = getOutdatedNodeIds(tree, [item('top', 'v2'), item('cap'), item('scarf')]);
+    expect([...outdated].sort()).toEqual([singleId, lookId].sort());
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { OutfitLayer, OutfitNode, OutfitTree, WardrobeItem } from '../types';
+
+// Pure helpers for the branching outfit history. Every function returns a new
+// tree and leaves the one it was given untouched, so they can be used directly
+// inside React state updaters.
+
+let nodeCounter = 0;
+const createNodeId = () => `node-${Date.now().toString(36)}-${(nodeCounter++).toString(36)}`;
+
+export const createOutfitTree = (baseLayer: OutfitLayer): OutfitTree => {
+  const root: OutfitNode = { id: createNodeId(), parentId: null, childIds: [], layer: baseLayer, createdAt: Date.now() };
+  return { rootId: root.id, currentId: root.id, nodes: { [root.id]: root } };
+};
+
+/** Builds a single-branch tree from a linear stack of layers, ending on `currentIndex`. */
+export const outfitTreeFromLayers = (layers: OutfitLayer[], currentIndex = layers.length - 1): OutfitTree | null => {
+  if (layers.length === 0) return null;
+  let tree = createOutfitTree(layers[0]);
+  const ids = [tree.rootId];
+  for (const layer of layers.slice(1)) {
+    tree = addOutfitNode(tree, tree.currentId, layer);
+    ids.push(tree.currentId);
+  }
+  return jumpToNode(tree, ids[Math.min(Math.max(currentIndex, 0), ids.length - 1)]);
+};
+
+export const getCurrentNode = (tree: OutfitTree): OutfitNode => tree.nodes[tree.currentId];
+
+/** Nodes from the root down to (and including) `nodeId`. */
+export const getPathToNode = (tree: OutfitTree, nodeId: string): OutfitNode[] => {
+  const path: OutfitNode[] = [];
+  let node: OutfitNode | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+export const getActivePath = (tree: OutfitTree): OutfitNode[] => getPathToNode(tree, tree.currentId);
+
+/** Adds `layer` as a new child of `parentId` and makes it current. Existing children become sibling branches. */
+export const addOutfitNode = (tree: OutfitTree, parentId: string, layer: OutfitLayer): OutfitTree => {
+  const parent = tree.nodes[parentId];
+  if (!parent) throw new Error(`Unknown outfit node ${parentId}`);
+  const node: OutfitNode = { id: createNodeId(), parentId, childIds: [], layer, createdAt: Date.now() };
+  return {
+    ...tree,
+    currentId: node.id,
+    nodes: {
+      ...tree.nodes,
+      [parentId]: { ...parent, childIds: [...parent.childIds, node.id], redoChildId: node.id },
+      [node.id]: node,
+    },
+  };
+};
+
+/** Adds `layers` as a chain below `parentId`, each one the child of the previous, and makes the last one current. */
+export const addOutfitChain = (tree: OutfitTree, parentId: string, layers: OutfitLayer[]): OutfitTree =>
+  layers.reduce((next, layer, index) => addOutfitNode(next, index === 0 ? parentId : next.currentId, layer), tree);
+
+export const updateOutfitNodeLayer = (tree: OutfitTree, nodeId: string, update: (layer: OutfitLayer) => OutfitLayer): OutfitTree => {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, layer: update(node.layer) } } };
+};
+
+/** Makes `nodeId` current and points every ancestor's redo at the branch leading to it. */
+export const jumpToNode = (tree: OutfitTree, nodeId: string): OutfitTree => {
+  if (!tree.nodes[nodeId]) return tree;
+  const nodes = { ...tree.nodes };
+  for (const node of getPathToNode(tree, nodeId)) {
+    if (node.parentId) nodes[node.parentId] = { ...nodes[node.parentId], redoChildId: node.id };
+  }
+  return { ...tree, nodes, currentId: nodeId };
+};
+
+/** Every garment a layer puts on: one for a normal layer, all of them for a full look. */
+export const getLayerGarments = (layer: OutfitLayer): WardrobeItem[] =>
+  layer.lookGarments ?? (layer.garment ? [layer.garment] : []);
+
+export interface GarmentUsage {
+  count: number; // Try-ons in the history, including abandoned branches
+  lastUsedAt: number;
+}
+
+/** How often and how recently each garment was tried on, read from the whole history tree. */
+export const getGarmentUsage = (tree: OutfitTree): Record<string, GarmentUsage> => {
+  const usage: Record<string, GarmentUsage> = {};
+  for (const node of Object.values(tree.nodes)) {
+    for (const garment of getLayerGarments(node.layer)) {
+      const entry = usage[garment.id] ?? { count: 0, lastUsedAt: 0 };
+      usage[garment.id] = { count: entry.count + 1, lastUsedAt: Math.max(entry.lastUsedAt, node.createdAt) };
+    }
+  }
+  return usage;
+};
+
+// Full looks never count as a match: they dress more than the one garment being looked for.
+// Nor does a different version of the same item.
+export const findChildWithGarment = (tree: OutfitTree, parentId: string, garment: WardrobeItem): OutfitNode | undefined =>
+  tree.nodes[parentId]?.childIds
+    .map(id => tree.nodes[id])
+    .find(child => child.layer.garment?.id === garment.id && child.layer.garment.versionId === garment.versionId && !child.layer.lookGarments);
+
+const sameGarments = (a: OutfitLayer, b: OutfitLayer) => {
+  const left = getLayerGarments(a);
+  const right = getLayerGarments(b);
+  return !!a.lookGarments === !!b.lookGarments && left.length === right.length
+    && left.every((garment, index) => garment.id === right[index].id && garment.versionId === right[index].versionId);
+};
+
+/**
+ * Lays a stored chain of layers, starting with the base model layer, back over
+ * the tree from its root and makes the last one current. Steps that already
+ * exist are reused and only gain the pose images they were missing; the rest
+ * become a new branch.
+ */
+export const mergeOutfitLayers = (tree: OutfitTree, [baseLayer, ...layers]: OutfitLayer[]): OutfitTree => {
+  const withImages = (layer: OutfitLayer, saved: OutfitLayer): OutfitLayer =>
+    ({ ...layer, poseImages: { ...saved.poseImages, ...layer.poseImages } });
+  let next = baseLayer ? updateOutfitNodeLayer(tree, tree.rootId, layer => withImages(layer, baseLayer)) : tree;
+  let anchorId = next.rootId;
+  for (const [index, saved] of layers.entries()) {
+    const existing = next.nodes[anchorId].childIds.map(id => next.nodes[id]).find(child => sameGarments(child.layer, saved));
+    if (!existing) return addOutfitChain(next, anchorId, layers.slice(index));
+    next = updateOutfitNodeLayer(next, existing.id, layer => withImages(layer, saved));
+    anchorId = existing.id;
+  }
+  return jumpToNode(next, anchorId);
+};
+
+/** Layers that wear an older version of an item than the wardrobe now holds. */
+export const getOutdatedNodeIds = (tree: OutfitTree, wardrobe: WardrobeItem[]): Set<string> => {
+  const currentVersions = new Map(wardrobe.map(item => [item.id, item.versionId]));
+  return new Set(Object.values(tree.nodes)
+    .filter(node => getLayerGarments(node.layer).some(garment =>
+      currentVersions.has(garment.id) && currentVersions.get(garment.id) !== garment.versionId))
+    .map(node => node.id));
+};
+
+export const canUndo = (tree: OutfitTree) => getCurrentNode(tree).parentId !== null;
+
+export const canRedo = (tree: OutfitTree) => getCurrentNode(tree).childIds.length > 0;
+
+export const undoOutfit = (tree: OutfitTree): OutfitTree => {
+  const parentId = getCurrentNode(tree).parentId;
+  return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+/** Steps forward into the last visited child, or the newest child if none was visited. */
+export const redoOutfit = (tree: OutfitTree): OutfitTree => {
+  const current = getCurrentNode(tree);
+  const nextId = current.redoChildId && tree.nodes[current.redoChildId]
+    ? current.redoChildId
+    : current.childIds[current.childIds.length - 1];
+  return nextId ? { ...tree, currentId: nextId } : tree;
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createImagePdf, PdfPage } from './pdf';
+
+const page = (marker: number): PdfPage => ({
+  jpeg: new Uint8Array([0xFF, 0xD8, marker, 0xFF, 0xD9]),
+  pixelWidth: 600,
+  pixelHeight: 800,
+  width: 595.276,
+  height: 841.89,
+});
+
+// latin1 keeps one character per byte, so string offsets match byte offsets.
+const readPdf = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer());
+
+describe('createImagePdf', () => {
+  it('writes a cross-reference table that points at every object', async () => {
+    const text = await readPdf(createImagePdf([page(1), page(2)]));
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+
+    const xrefOffset = Number(text.match(/startxref\n(\d+)\n/)![1]);
+    expect(text.slice(xrefOffset).startsWith('xref\n0 10\n')).toBe(true);
+    const offsets = [...text.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    expect(offsets).toHaveLength(9);
+    offsets.forEach((offset, index) => expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+    expect(text).toContain('/Size 10 /Root 1 0 R /Info 3 0 R');
+  });
+
+  it('draws each JPEG over a whole page of the given size', async () => {
+    const text = await readPdf(createImagePdf([page(1), page(2)]));
+    expect(text).toContain('/Kids [4 0 R 7 0 R] /Count 2');
+    expect(text).toContain('/MediaBox [0 0 595.28 841.89]');
+    expect(text).toContain('/Width 600 /Height 800');
+    expect(text).toContain('q 595.28 0 0 841.89 0 0 cm /Im0 Do Q');
+    expect(text).toContain('/Length 5 >>\nstream\n\xFF\xD8\x02\xFF\xD9\nendstream');
+  });
+
+  it('stores the title as UTF-16 so Thai survives', async () => {
+    const text = await readPdf(createImagePdf([page(1)], { title: 'ลุค' }));
+    expect(text).toContain('/Title <FEFF0E250E380E04>');
+    expect(await readPdf(createImagePdf([page(1)]))).not.toContain('/Title');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A deliberately tiny PDF writer: every page is a single JPEG drawn edge to
+// edge. Pages are rendered on a canvas first, so text in any script (Thai
+// included) needs no embedded fonts.
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  width: number; // Page size in points (1/72 inch)
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+// PDF text strings outside ASCII are written as UTF-16BE with a byte order mark, in hex.
+const pdfTextString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/** Builds a PDF with one full-page JPEG per page. */
+export const createImagePdf = (pages: PdfPage[], { title }: { title?: string } = {}): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, 3 info, then page, contents and image for each page.
+  const pageId = (index: number) => 4 + index * 3;
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xE2, 0xE3, 0xCF, 0xD3, 0x0A])); // Binary marker comment
+
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  startObject(3);
+  write(`<< /Producer ${pdfTextString('Wear Fit')}${title ? ` /Title ${pdfTextString(title)}` : ''} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = formatNumber(page.width);
+    const height = formatNumber(page.height);
+    const contents = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+    startObject(id);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+    startObject(id + 1);
+    write(`<< /Length ${contents.length} >>\nstream\n${contents}\nendstream\nendobj\n`);
+    startObject(id + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const objectCount = pageId(pages.length);
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DriftFlag } from '../types';
+import { createCanvas, loadImage } from './image';
+
+// Cheap, local perceptual checks. Images are shrunk to a small canvas and
+// compared as coarse colour histograms, which survive a change of pose far
+// better than any pixel-by-pixel comparison would.
+
+const SAMPLE_SIZE = 96;
+const BINS_PER_CHANNEL = 6;
+const BACKGROUND_LUMA = 235; // Near-white studio and product backdrops are ignored
+
+// Full-body model photos keep the head near the top centre; the box is generous so it still catches a turned head.
+const HEAD_REGION: Region = [0.25, 0, 0.5, 0.22];
+
+/** Histogram intersection below this means the face no longer matches the identity reference. */
+export const FACE_SIMILARITY_THRESHOLD = 0.45;
+/** Share of a garment's colours that must still be visible in the result. */
+export const GARMENT_COVERAGE_THRESHOLD = 0.5;
+/** A colour bin counts as present in the result once it holds this share of its pixels. */
+const PRESENT_BIN_SHARE = 0.004;
+
+/** [x, y, width, height] as fractions of the image. */
+type Region = [number, number, number, number];
+
+type Histogram = Float32Array;
+
+const binOf = (value: number) => Math.min(BINS_PER_CHANNEL - 1, Math.floor((value / 256) * BINS_PER_CHANNEL));
+
+/** Normalised RGB histogram of `region`, skipping transparent and near-white pixels. */
+export const colorHistogram = async (imageUrl: string, region: Region = [0, 0, 1, 1]): Promise<Histogram> => {
+  const image = await loadImage(imageUrl);
+  const [x, y, w, h] = region;
+  const { canvas, ctx } = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+  ctx.drawImage(image, image.width * x, image.height * y, image.width * w, image.height * h, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const histogram: Histogram = new Float32Array(BINS_PER_CHANNEL ** 3);
+  let counted = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b, a] = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+    if (a < 128 || 0.299 * r + 0.587 * g + 0.114 * b > BACKGROUND_LUMA) continue;
+    histogram[(binOf(r) * BINS_PER_CHANNEL + binOf(g)) * BINS_PER_CHANNEL + binOf(b)]++;
+    counted++;
+  }
+  if (counted > 0) histogram.forEach((value, index) => { histogram[index] = value / counted; });
+  return histogram;
+};
+
+/** 1 for identical colour distributions, 0 for nothing in common. */
+export const histogramIntersection = (a: Histogram, b: Histogram): number =>
+  a.reduce((sum, value, index) => sum + Math.min(value, b[index]), 0);
+
+/** How much of `garment`'s colour mass shows up anywhere in `result`. */
+export const colorCoverage = (garment: Histogram, result: Histogram): number =>
+  garment.reduce((sum, value, index) => sum + (result[index] >= PRESENT_BIN_SHARE ? value : 0), 0);
+
+export interface DriftReport {
+  faceSimilarity: number;
+  garmentCoverage: number; // The worst garment; 1 when there are none
+  flags: DriftFlag[];
+}
+
+/**
+ * Compares a generated image with the references it was made from: the head
+ * region against the identity photo, and each garment's colours against the
+ * whole result.
+ */
+export const detectDrift = async (
+  resultUrl: string,
+  { identityUrl, garmentUrls }: { identityUrl: string; garmentUrls: string[] },
+): Promise<DriftReport> => {
+  const [resultHead, identityHead, resultColors, ...garmentColors] = await Promise.all([
+    colorHistogram(resultUrl, HEAD_REGION),
+    colorHistogram(identityUrl, HEAD_REGION),
+    colorHistogram(resultUrl),
+    ...garmentUrls.map(url => colorHistogram(url)),
+  ]);
+  const faceSimilarity = histogramIntersection(resultHead, identityHead);
+  const garmentCoverage = Math.min(1, ...garmentColors.map(colors => colorCoverage(colors, resultColors)));
+  const flags: DriftFlag[] = [];
+  if (faceSimilarity < FACE_SIMILARITY_THRESHOLD) flags.push('face');
+  if (garmentCoverage < GARMENT_COVERAGE_THRESHOLD) flags.push('garment');
+  return { faceSimilarity, garmentCoverage, flags };
+};
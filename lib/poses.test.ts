@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { Pose } from '../types';
+import { DEFAULT_POSES, LEGACY_POSE_IDS, movePose, withBuiltInPoses } from './poses';
+
+const custom: Pose = { id: 'custom', name: 'Wave', instruction: 'Wave at the camera' };
+const ids = (poses: Pose[]) => poses.map(pose => pose.id);
+
+describe('withBuiltInPoses', () => {
+  it('returns the built-in poses for an empty library', () => {
+    expect(withBuiltInPoses([])).toEqual(DEFAULT_POSES);
+  });
+
+  it('keeps the stored order and appends only the built-in poses that are missing', () => {
+    const stored = [DEFAULT_POSES[2], custom, DEFAULT_POSES[0]];
+    const poses = withBuiltInPoses(stored);
+    expect(ids(poses).slice(0, 3)).toEqual(ids(stored));
+    expect(poses).toHaveLength(DEFAULT_POSES.length + 1);
+    expect(new Set(ids(poses)).size).toBe(poses.length);
+  });
+});
+
+describe('movePose', () => {
+  const poses = [DEFAULT_POSES[0], custom, DEFAULT_POSES[1]];
+
+  it('moves a pose by the given offset', () => {
+    expect(ids(movePose(poses, 'custom', -1))).toEqual(['custom', DEFAULT_POSES[0].id, DEFAULT_POSES[1].id]);
+    expect(ids(movePose(poses, 'custom', 1))).toEqual([DEFAULT_POSES[0].id, DEFAULT_POSES[1].id, 'custom']);
+  });
+
+  it('leaves the list alone for an unknown pose or a move past either end', () => {
+    expect(movePose(poses, 'missing', 1)).toBe(poses);
+    expect(movePose(poses, DEFAULT_POSES[0].id, -1)).toBe(poses);
+    expect(movePose(poses, DEFAULT_POSES[1].id, 1)).toBe(poses);
+  });
+});
+
+describe('LEGACY_POSE_IDS', () => {
+  it('maps every built-in instruction to its pose id', () => {
+    for (const pose of DEFAULT_POSES) expect(LEGACY_POSE_IDS.get(pose.instruction)).toBe(pose.id);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { OutfitLayer, Pose } from '../types';
+
+/** The pose a freshly finalized model photo is stored under. */
+export const BASE_POSE_ID = 'standing';
+
+const builtInPose = (id: string, text: string): Pose => ({ id, name: text, instruction: text, builtIn: true });
+
+export const DEFAULT_POSES: Pose[] = [
+  builtInPose(BASE_POSE_ID, "ยืนตัวตรง มือวางข้างลำตัว"),
+  builtInPose('turn-45', "หันข้างเล็กน้อย 45 องศา"),
+  builtInPose('side-profile', "หันข้างเต็มตัว"),
+  builtInPose('jump', "กระโดดในอากาศ ท่าแอคชั่น"),
+  builtInPose('walk-toward', "กำลังเดินเข้าหาหน้าจอ"),
+  builtInPose('lean-wall', "พิงกำแพงแบบเท่ๆ"),
+];
+
+/** Sessions before pose ids keyed `poseImages` by the built-in instruction text. */
+export const LEGACY_POSE_IDS = new Map(DEFAULT_POSES.map(pose => [pose.instruction, pose.id]));
+
+/** Keeps the user's order, and brings back any built-in pose missing from a stored library. */
+export const withBuiltInPoses = (poses: Pose[]): Pose[] => [
+  ...poses,
+  ...DEFAULT_POSES.filter(pose => !poses.some(existing => existing.id === pose.id)),
+];
+
+export const movePose = (poses: Pose[], poseId: string, offset: number): Pose[] => {
+  const from = poses.findIndex(pose => pose.id === poseId);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= poses.length) return poses;
+  const next = [...poses];
+  const [pose] = next.splice(from, 1);
+  next.splice(to, 0, pose);
+  return next;
+};
+
+/**
+ * The image other poses are generated from: the base pose when the layer has
+ * one, so re-posing never starts from an already re-posed image.
+ */
+export const getPoseSource = (layer: OutfitLayer): [poseId: string, imageUrl: string] | undefined =>
+  layer.poseImages[BASE_POSE_ID] ? [BASE_POSE_ID, layer.poseImages[BASE_POSE_ID]] : Object.entries(layer.poseImages)[0];
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Occasion, SavedOutfit } from '../types';
+
+export const MAX_RATING = 5;
+
+export type SavedOutfitSort = 'newest' | 'oldest' | 'rating' | 'title';
+
+export const OUTFIT_SORT_LABELS: Record<SavedOutfitSort, string> = {
+  newest: 'ล่าสุด',
+  oldest: 'เก่าสุด',
+  rating: 'คะแนนสูงสุด',
+  title: 'ชื่อ (ก-ฮ)',
+};
+
+/** `'all'` shows every outfit, `'none'` only those outside any collection. */
+export type CollectionScope = 'all' | 'none' | string;
+
+export interface SavedOutfitFilter {
+  collection: CollectionScope;
+  query: string;
+  minRating: number; // 0 for any rating
+  occasion?: Occasion;
+}
+
+export const EMPTY_OUTFIT_FILTER: SavedOutfitFilter = { collection: 'all', query: '', minRating: 0 };
+
+/** The outfit's own title, or its items' names when it was never given one. */
+export const getOutfitTitle = (outfit: SavedOutfit): string =>
+  outfit.title?.trim() || outfit.items.map(item => item.name).join(', ') || 'ชุดที่บันทึกไว้';
+
+export const clampRating = (rating: number): number => Math.min(MAX_RATING, Math.max(0, Math.round(rating)));
+
+/** Every word of the query has to appear in the title, notes or an item name. */
+export const matchesOutfitFilter = (outfit: SavedOutfit, { collection, query, minRating, occasion }: SavedOutfitFilter): boolean => {
+  if (collection === 'none' ? !!outfit.collectionId : collection !== 'all' && outfit.collectionId !== collection) return false;
+  if ((outfit.rating ?? 0) < minRating) return false;
+  if (occasion && !outfit.occasions?.includes(occasion)) return false;
+  const haystack = [outfit.title, outfit.notes, ...outfit.items.map(item => item.name)].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+export const sortSavedOutfits = (outfits: SavedOutfit[], sort: SavedOutfitSort): SavedOutfit[] => {
+  const sorted = [...outfits];
+  if (sort === 'newest') return sorted.sort((a, b) => b.timestamp - a.timestamp);
+  if (sort === 'oldest') return sorted.sort((a, b) => a.timestamp - b.timestamp);
+  if (sort === 'rating') return sorted.sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) || b.timestamp - a.timestamp);
+  return sorted.sort((a, b) => getOutfitTitle(a).localeCompare(getOutfitTitle(b), 'th'));
+};
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CollageCell } from './collage';
+import { encodeGif, GifFrame } from './gif';
+import { createCanvas, drawContain, loadImage } from './image';
+
+export type TurntableFormat = 'gif' | 'webm';
+
+export const TURNTABLE_FORMATS: Record<TurntableFormat, { label: string; extension: string }> = {
+  gif: { label: 'GIF', extension: 'gif' },
+  webm: { label: 'WebM', extension: 'webm' },
+};
+
+export const TURNTABLE_WIDTHS = [360, 540, 720];
+
+export interface TurntableOptions {
+  format: TurntableFormat;
+  frameDuration: number; // How long each pose is held, in milliseconds
+  transitionDuration: number; // Crossfade length in milliseconds; 0 cuts straight to the next pose
+  loop: boolean;
+  width: number; // Output width in pixels; the height follows the first pose
+  background: string;
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+  format: 'gif',
+  frameDuration: 800,
+  transitionDuration: 400,
+  loop: true,
+  width: 360,
+  background: '#FFFFFF',
+};
+
+const TRANSITION_FPS = 20;
+
+/** A WebM type MediaRecorder can write here, or null when it cannot record canvases at all. */
+export const getWebmMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || !('captureStream' in HTMLCanvasElement.prototype)) return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+interface TurntableFrame {
+  from: number;
+  to: number;
+  mix: number; // 0 shows `from` only, approaching 1 fades fully into `to`
+  duration: number;
+}
+
+/**
+ * Holds each pose in turn with crossfade steps in between. When looping,
+ * the last pose fades back into the first so the animation repeats smoothly.
+ */
+const planFrames = (count: number, { frameDuration, transitionDuration, loop }: TurntableOptions): TurntableFrame[] => {
+  const steps = Math.round((transitionDuration / 1000) * TRANSITION_FPS);
+  const frames: TurntableFrame[] = [];
+  for (let from = 0; from < count; from++) {
+    frames.push({ from, to: from, mix: 0, duration: frameDuration });
+    const isLast = from === count - 1;
+    if (count < 2 || (isLast && !loop)) continue;
+    const to = isLast ? 0 : from + 1;
+    for (let step = 1; step < steps; step++) {
+      frames.push({ from, to, mix: step / steps, duration: 1000 / TRANSITION_FPS });
+    }
+  }
+  return frames;
+};
+
+/** Total running time of one pass, so the panel can show it. */
+export const getTurntableDuration = (count: number, options: TurntableOptions) =>
+  planFrames(count, options).reduce((total, frame) => total + frame.duration, 0);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Animates the poses in the given order, entirely in the browser. GIFs are
+ * encoded frame by frame; WebM is recorded from the canvas with
+ * MediaRecorder, which runs in real time, so it takes as long as the clip.
+ */
+export const renderTurntable = async (
+  cells: CollageCell[],
+  options: TurntableOptions,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {},
+): Promise<Blob> => {
+  if (cells.length === 0) throw new Error('There are no poses to animate.');
+  const images = await Promise.all(cells.map(cell => loadImage(cell.imageUrl)));
+  const width = options.width;
+  const height = Math.round(width * (images[0].height / images[0].width));
+  const { canvas, ctx } = createCanvas(width, height);
+  const frames = planFrames(images.length, options);
+
+  const draw = ({ from, to, mix }: TurntableFrame) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+    drawContain(ctx, images[from], 0, 0, width, height);
+    if (mix > 0) {
+      ctx.globalAlpha = mix;
+      ctx.fillRect(0, 0, width, height);
+      drawContain(ctx, images[to], 0, 0, width, height);
+    }
+  };
+
+  if (options.format === 'gif') {
+    function* gifFrames(): Generator<GifFrame> {
+      for (const frame of frames) {
+        draw(frame);
+        yield { pixels: ctx.getImageData(0, 0, width, height).data, delay: frame.duration };
+      }
+    }
+    return encodeGif(gifFrames(), width, height, {
+      loop: options.loop,
+      onFrame: async (index) => {
+        signal?.throwIfAborted();
+        onProgress?.(index + 1, frames.length);
+        await wait(0);
+      },
+    });
+  }
+
+  const mimeType = getWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+  draw(frames[0]);
+  const stream = canvas.captureStream(TRANSITION_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+  recorder.start();
+  try {
+    for (let index = 0; index < frames.length; index++) {
+      signal?.throwIfAborted();
+      draw(frames[index]);
+      onProgress?.(index + 1, frames.length);
+      await wait(frames[index].duration);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -37,4 +37,16 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
     }
     
     return `${context}. ${rawMessage}`;
-}
\ No newline at end of file
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
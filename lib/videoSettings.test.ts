@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIDEO_SETTINGS, describeVideoSettings, FULL_HD_DURATION, MAX_VIDEO_TEXT_LENGTH, normalizeVideoSettings } from './videoSettings';
+
+describe('normalizeVideoSettings', () => {
+  it('trims the free text and caps its length', () => {
+    const settings = normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, direction: '  walk slowly  ', negativePrompt: ` ${'x'.repeat(600)}` });
+    expect(settings.direction).toBe('walk slowly');
+    expect(settings.negativePrompt).toHaveLength(MAX_VIDEO_TEXT_LENGTH);
+  });
+
+  it('keeps a supported 720p duration', () => {
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, durationSeconds: 4 }).durationSeconds).toBe(4);
+  });
+
+  it('forces the full HD length for 1080p and for durations Veo does not offer', () => {
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, resolution: '1080p', durationSeconds: 4 }).durationSeconds).toBe(FULL_HD_DURATION);
+    expect(normalizeVideoSettings({ ...DEFAULT_VIDEO_SETTINGS, durationSeconds: 5 }).durationSeconds).toBe(FULL_HD_DURATION);
+  });
+
+  it('leaves the other choices alone', () => {
+    const settings = { ...DEFAULT_VIDEO_SETTINGS, scene: 'beach' as const, aspectRatio: '16:9' as const };
+    expect(normalizeVideoSettings(settings)).toEqual(settings);
+  });
+});
+
+describe('describeVideoSettings', () => {
+  it('sums up the settings on one line', () => {
+    expect(describeVideoSettings(DEFAULT_VIDEO_SETTINGS)).toBe('Veo 3.1 Fast · รันเวย์ · 9:16 · 720p · 8 วิ');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VideoAspectRatio, VideoModelType, VideoResolution, VideoScene, VideoSettings } from '../types';
+
+export const VIDEO_MODELS: Record<VideoModelType, { label: string; badge: string; description: string }> = {
+  'veo-3.1-fast-generate-preview': { label: 'Veo 3.1 Fast', badge: 'รวดเร็ว', description: 'ประมวลผลไว เหมาะสำหรับทดสอบท่าทาง' },
+  'veo-3.1-generate-preview': { label: 'Veo 3.1 Pro', badge: 'HQ', description: 'คุณภาพสูงสุด Cinematic และสมจริงกว่า' },
+};
+
+export const VIDEO_SCENES: Record<VideoScene, { label: string; description: string }> = {
+  runway: { label: 'รันเวย์', description: 'เดินแบบบนแคทวอล์กในสตูดิโอ' },
+  street: { label: 'สตรีท', description: 'เดินเล่นบนถนนในเมือง' },
+  'studio-spin': { label: 'หมุนรอบตัว', description: 'หมุน 360° ในสตูดิโอพื้นขาว' },
+  beach: { label: 'ชายหาด', description: 'เดินริมหาดยามเย็น' },
+};
+
+export const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['9:16', '16:9'];
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+
+export const VIDEO_DURATIONS = [4, 6, 8];
+
+/** Veo renders 1080p clips at this length only. */
+export const FULL_HD_DURATION = 8;
+
+export const MAX_VIDEO_TEXT_LENGTH = 500;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  model: 'veo-3.1-fast-generate-preview',
+  scene: 'runway',
+  direction: '',
+  aspectRatio: '9:16',
+  resolution: '720p',
+  durationSeconds: 8,
+  negativePrompt: '',
+};
+
+/** Trims the free text and keeps the duration to what the chosen resolution allows. */
+export const normalizeVideoSettings = (settings: VideoSettings): VideoSettings => ({
+  ...settings,
+  direction: settings.direction.trim().slice(0, MAX_VIDEO_TEXT_LENGTH),
+  negativePrompt: settings.negativePrompt.trim().slice(0, MAX_VIDEO_TEXT_LENGTH),
+  durationSeconds: settings.resolution === '1080p' || !VIDEO_DURATIONS.includes(settings.durationSeconds)
+    ? FULL_HD_DURATION
+    : settings.durationSeconds,
+});
+
+/** One-line summary, e.g. for a job label or a video tab tooltip. */
+export const describeVideoSettings = ({ model, scene, aspectRatio, resolution, durationSeconds }: VideoSettings) =>
+  [VIDEO_MODELS[model].label, VIDEO_SCENES[scene].label, aspectRatio, resolution, `${durationSeconds} วิ`].join(' · ');
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { SavedOutfit, WardrobeItem } from '../types';
+import {
+  collectFacets,
+  EMPTY_FILTER,
+  getItemSource,
+  isFilterActive,
+  matchesFilter,
+  parseTags,
+  recordGarmentUsage,
+  sortWardrobe,
+  withSavedOutfitUsage,
+} from './wardrobeSearch';
+
+const item = (id: string, changes: Partial<WardrobeItem> = {}): WardrobeItem => ({ id, name: id, url: `${id}.png`, ...changes });
+
+const tee = item('custom-tee', { name: 'Linen tee', slot: 'top', color: 'White', brand: 'Muji', tags: ['Summer', 'basic'] });
+const jeans = item('ai-jeans', { name: 'Wide jeans', slot: 'bottom', color: 'blue', tags: ['denim'] });
+const cap = item('black-cap', { name: 'Cap', slot: 'headwear', color: 'black', notes: 'Gift from Ann' });
+
+describe('matchesFilter', () => {
+  it('needs every query word somewhere in the name, brand, colour, notes or tags', () => {
+    expect(matchesFilter(tee, { query: 'linen muji' })).toBe(true);
+    expect(matchesFilter(tee, { query: 'SUMMER white' })).toBe(true);
+    expect(matchesFilter(cap, { query: 'ann' })).toBe(true);
+    expect(matchesFilter(tee, { query: 'linen denim' })).toBe(false);
+    expect(matchesFilter(tee, EMPTY_FILTER)).toBe(true);
+  });
+
+  it('matches facets exactly, ignoring case and surrounding spaces', () => {
+    expect(matchesFilter(tee, { query: '', slot: 'top', color: ' white ', tag: 'summer', source: 'uploaded' })).toBe(true);
+    expect(matchesFilter(tee, { query: '', slot: 'bottom' })).toBe(false);
+    expect(matchesFilter(tee, { query: '', color: 'whit' })).toBe(false);
+    expect(matchesFilter(tee, { query: '', tag: 'denim' })).toBe(false);
+    expect(matchesFilter(tee, { query: '', source: 'ai' })).toBe(false);
+  });
+});
+
+describe('isFilterActive', () => {
+  it('ignores a blank query', () => {
+    expect(isFilterActive({ query: '  ' })).toBe(false);
+    expect(isFilterActive({ query: '', color: 'blue' })).toBe(true);
+  });
+});
+
+describe('getItemSource', () => {
+  it('prefers the stored source and falls back to the id prefix', () => {
+    expect(getItemSource(jeans)).toBe('ai');
+    expect(getItemSource(tee)).toBe('uploaded');
+    expect(getItemSource(cap)).toBe('default');
+    expect(getItemSource({ ...cap, source: 'uploaded' })).toBe('uploaded');
+  });
+});
+
+describe('parseTags', () => {
+  it('trims, drops empty entries and de-duplicates', () => {
+    expect(parseTags(' summer, basic,,summer , ')).toEqual(['summer', 'basic']);
+  });
+});
+
+describe('collectFacets', () => {
+  it('lists each colour and tag once, keeping the first spelling', () => {
+    const facets = collectFacets([tee, jeans, cap, item('other', { color: 'white', tags: ['Denim'] })]);
+    expect(facets.colors).toEqual(['black', 'blue', 'White']);
+    expect(facets.tags).toEqual(['basic', 'denim', 'Summer']);
+  });
+});
+
+describe('sortWardrobe', () => {
+  const items = [tee, jeans, cap];
+  const usage = {
+    'custom-tee': { count: 1, lastUsedAt: 300 },
+    'ai-jeans': { count: 5, lastUsedAt: 100 },
+  };
+
+  it('keeps the wardrobe order for "added"', () => {
+    expect(sortWardrobe(items, 'added', usage)).toBe(items);
+  });
+
+  it('sorts by last use or wear count, leaving unused items last in wardrobe order', () => {
+    expect(sortWardrobe(items, 'recent', usage).map(i => i.id)).toEqual(['custom-tee', 'ai-jeans', 'black-cap']);
+    expect(sortWardrobe(items, 'most-worn', usage).map(i => i.id)).toEqual(['ai-jeans', 'custom-tee', 'black-cap']);
+    expect(sortWardrobe([cap, tee, jeans], 'most-worn', {}).map(i => i.id)).toEqual(['black-cap', 'custom-tee', 'ai-jeans']);
+  });
+
+  it('sorts by name', () => {
+    expect(sortWardrobe(items, 'name', usage).map(i => i.name)).toEqual(['Cap', 'Linen tee', 'Wide jeans']);
+  });
+});
+
+describe('garment usage', () => {
+  it('counts a wear per garment and keeps the latest date', () => {
+    const once = recordGarmentUsage({}, [tee, jeans], 200);
+    const twice = recordGarmentUsage(once, [tee], 100);
+    expect(twice).toEqual({
+      'custom-tee': { count: 2, lastUsedAt: 200 },
+      'ai-jeans': { count: 1, lastUsedAt: 200 },
+    });
+    expect(once['custom-tee'].count).toBe(1);
+  });
+
+  it('adds every saved outfit as one wear on the day it was saved', () => {
+    const saved: SavedOutfit[] = [
+      { id: 'look-1', imageUrl: 'look-1.png', items: [tee, cap], timestamp: 500 },
+      { id: 'look-2', imageUrl: 'look-2.png', items: [cap], timestamp: 50 },
+    ];
+    expect(withSavedOutfitUsage({ 'custom-tee': { count: 3, lastUsedAt: 100 } }, saved)).toEqual({
+      'custom-tee': { count: 4, lastUsedAt: 500 },
+      'black-cap': { count: 2, lastUsedAt: 500 },
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentSlot, SavedOutfit, Season, WardrobeItem, WardrobeSource } from '../types';
+import type { GarmentUsage } from './outfitTree';
+
+export const SOURCE_LABELS: Record<WardrobeSource, string> = {
+  default: 'ไอเทมตั้งต้น',
+  uploaded: 'อัปโหลดเอง',
+  ai: 'สร้างด้วย AI',
+};
+
+export const SEASON_LABELS: Record<Season, string> = {
+  all: 'ทุกฤดู',
+  spring: 'ใบไม้ผลิ',
+  summer: 'ร้อน',
+  autumn: 'ใบไม้ร่วง',
+  winter: 'หนาว',
+};
+
+export type WardrobeSort = 'added' | 'recent' | 'most-worn' | 'name';
+
+export const SORT_LABELS: Record<WardrobeSort, string> = {
+  added: 'ตามลำดับที่เพิ่ม',
+  recent: 'ใช้ล่าสุด',
+  'most-worn': 'ใส่บ่อยที่สุด',
+  name: 'ชื่อ (ก-ฮ)',
+};
+
+export interface WardrobeFilter {
+  query: string;
+  slot?: GarmentSlot;
+  color?: string;
+  tag?: string;
+  source?: WardrobeSource;
+}
+
+export const EMPTY_FILTER: WardrobeFilter = { query: '' };
+
+// Items saved before `source` existed are recognised by the id prefix they were created with.
+export const getItemSource = (item: WardrobeItem): WardrobeSource =>
+  item.source ?? (item.id.startsWith('ai-') ? 'ai' : item.id.startsWith('custom-') ? 'uploaded' : 'default');
+
+/** Splits comma-separated input into trimmed, de-duplicated tags. */
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+const sameText = (a: string | undefined, b: string) => a?.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Every word of the query has to appear in the name, brand, colour, notes or tags. */
+export const matchesFilter = (item: WardrobeItem, { query, slot, color, tag, source }: WardrobeFilter): boolean => {
+  if (slot && item.slot !== slot) return false;
+  if (color && !sameText(item.color, color)) return false;
+  if (tag && !item.tags?.some(itemTag => sameText(itemTag, tag))) return false;
+  if (source && getItemSource(item) !== source) return false;
+  const haystack = [item.name, item.brand, item.color, item.notes, ...(item.tags ?? [])].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+export const isFilterActive = (filter: WardrobeFilter) =>
+  !!(filter.query.trim() || filter.slot || filter.color || filter.tag || filter.source);
+
+/** Distinct colours and tags in use, for the facet pickers. */
+export const collectFacets = (items: WardrobeItem[]): { colors: string[]; tags: string[] } => {
+  const distinct = (values: (string | undefined)[]) => {
+    const byKey = new Map<string, string>();
+    values.forEach(value => {
+      const key = value?.trim().toLowerCase();
+      if (key && !byKey.has(key)) byKey.set(key, value.trim());
+    });
+    return [...byKey.values()].sort((a, b) => a.localeCompare(b, 'th'));
+  };
+  return {
+    colors: distinct(items.map(item => item.color)),
+    tags: distinct(items.flatMap(item => item.tags ?? [])),
+  };
+};
+
+/** Counts one more wear at `at` for every garment in `garments`. */
+export const recordGarmentUsage = (
+  usage: Record<string, GarmentUsage>,
+  garments: WardrobeItem[],
+  at: number,
+): Record<string, GarmentUsage> => {
+  const next = { ...usage };
+  for (const garment of garments) {
+    const entry = next[garment.id] ?? { count: 0, lastUsedAt: 0 };
+    next[garment.id] = { count: entry.count + 1, lastUsedAt: Math.max(entry.lastUsedAt, at) };
+  }
+  return next;
+};
+
+/** Try-on usage plus one wear per saved outfit, dated when the outfit was saved. */
+export const withSavedOutfitUsage = (usage: Record<string, GarmentUsage>, savedOutfits: SavedOutfit[]): Record<string, GarmentUsage> =>
+  savedOutfits.reduce((next, outfit) => recordGarmentUsage(next, outfit.items, outfit.timestamp), usage);
+
+/** Items that were never tried on keep their wardrobe order after the ones that were. */
+export const sortWardrobe = (items: WardrobeItem[], sort: WardrobeSort, usage: Record<string, GarmentUsage>): WardrobeItem[] => {
+  if (sort === 'added') return items;
+  if (sort === 'name') return [...items].sort((a, b) => a.name.localeCompare(b.name, 'th'));
+  const score = (item: WardrobeItem) => {
+    const entry = usage[item.id];
+    if (!entry) return 0;
+    return sort === 'recent' ? entry.lastUsedAt : entry.count;
+  };
+  return [...items].sort((a, b) => score(b) - score(a));
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// IndexedDB-backed storage. Images are kept as Blobs in the `assets` store,
+// keyed by the SHA-256 of their bytes, and referenced elsewhere as
+// `asset:<hash>` strings. Plain JSON state lives in the `state` store. Cached AI
+// results live in their own `generations` store so pruning session assets never
+// touches them.
+
+const DB_NAME = 'wear-fit-studio';
+const DB_VERSION = 2;
+const ASSETS_STORE = 'assets';
+const STATE_STORE = 'state';
+const GENERATIONS_STORE = 'generations';
+
+export const ASSET_REF_PREFIX = 'asset:';
+
+export type AssetRef = `${typeof ASSET_REF_PREFIX}${string}`;
+
+export const isAssetRef = (value: string): value is AssetRef => value.startsWith(ASSET_REF_PREFIX);
+
+/** URLs that only live in this browser tab and must be copied into the store to survive a reload. */
+export const isLocalImageUrl = (url: string) => url.startsWith('data:') || url.startsWith('blob:');
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ASSETS_STORE)) db.createObjectStore(ASSETS_STORE);
+                if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+                if (!db.objectStoreNames.contains(GENERATIONS_STORE)) db.createObjectStore(GENERATIONS_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Both directions are memoised so repeated saves don't re-hash or re-read unchanged images.
+const refByUrl = new Map<string, AssetRef>();
+const urlByRef = new Map<AssetRef, string>();
+
+export const putAssetBlob = async (blob: Blob): Promise<AssetRef> => {
+    const ref: AssetRef = `${ASSET_REF_PREFIX}${await hashBlob(blob)}`;
+    const db = await openDb();
+    const tx = db.transaction(ASSETS_STORE, 'readwrite');
+    // Content-addressed, so writing an image that is already stored is a harmless overwrite.
+    tx.objectStore(ASSETS_STORE).put(blob, ref);
+    await transactionDone(tx);
+    return ref;
+};
+
+/** Copies a data: or blob: URL into the store and returns its content reference. */
+export const putAssetFromUrl = async (url: string): Promise<AssetRef> => {
+    const known = refByUrl.get(url);
+    if (known) return known;
+    const blob = await (await fetch(url)).blob();
+    const ref = await putAssetBlob(blob);
+    refByUrl.set(url, ref);
+    return ref;
+};
+
+export const getAssetBlob = async (ref: AssetRef): Promise<Blob | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction(ASSETS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(ASSETS_STORE).get(ref));
+};
+
+/** Turns a stored reference back into an object URL the UI and the providers can read. */
+export const resolveAssetRef = async (ref: AssetRef): Promise<string> => {
+    const known = urlByRef.get(ref);
+    if (known) return known;
+    const blob = await getAssetBlob(ref);
+    if (!blob) throw new Error(`Missing stored image ${ref}`);
+    const url = URL.createObjectURL(blob);
+    urlByRef.set(ref, url);
+    refByUrl.set(url, ref);
+    return url;
+};
+
+/**
+ * Deletes every stored image that is not in `keep`. Memo entries for the
+ * deleted images go too, so saving one of their URLs again re-stores the blob
+ * instead of writing a reference to nothing.
+ */
+export const pruneAssets = async (keep: Set<string>): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(ASSETS_STORE, 'readwrite');
+    const store = tx.objectStore(ASSETS_STORE);
+    const keys = await requestToPromise(store.getAllKeys());
+    const deleted = new Set<string>();
+    for (const key of keys) {
+        if (typeof key === 'string' && !keep.has(key)) {
+            store.delete(key);
+            deleted.add(key);
+        }
+    }
+    await transactionDone(tx);
+    for (const [url, ref] of refByUrl) {
+        if (deleted.has(ref)) refByUrl.delete(url);
+    }
+    for (const ref of urlByRef.keys()) {
+        if (deleted.has(ref)) urlByRef.delete(ref);
+    }
+};
+
+export const readState = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction(STATE_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(STATE_STORE).get(key));
+};
+
+export const writeState = async <T>(key: string, value: T): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STATE_STORE, 'readwrite');
+    tx.objectStore(STATE_STORE).put(value, key);
+    await transactionDone(tx);
+};
+
+interface GenerationEntry {
+    blob: Blob;
+    size: number;
+    lastUsed: number;
+}
+
+/** Returns a cached generation and marks it as recently used. */
+export const readGeneration = async (key: string): Promise<Blob | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction(GENERATIONS_STORE, 'readwrite');
+    const store = tx.objectStore(GENERATIONS_STORE);
+    const entry: GenerationEntry | undefined = await requestToPromise(store.get(key));
+    if (entry) store.put({ ...entry, lastUsed: Date.now() }, key);
+    await transactionDone(tx);
+    return entry?.blob;
+};
+
+/** Keys of the least recently used entries that have to go for the rest to fit in `maxBytes`. */
+export const selectEvictions = <K>(entries: { key: K; size: number; lastUsed: number }[], maxBytes: number): K[] => {
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: K[] = [];
+    for (const entry of [...entries].sort((a, b) => a.lastUsed - b.lastUsed)) {
+        if (total <= maxBytes) break;
+        evicted.push(entry.key);
+        total -= entry.size;
+    }
+    return evicted;
+};
+
+/** Stores a generation, then evicts the least recently used ones until the store fits in `maxBytes`. */
+export const writeGeneration = async (key: string, blob: Blob, maxBytes: number): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(GENERATIONS_STORE, 'readwrite');
+    const store = tx.objectStore(GENERATIONS_STORE);
+    store.put({ blob, size: blob.size, lastUsed: Date.now() } satisfies GenerationEntry, key);
+    const [keys, entries] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll() as IDBRequest<GenerationEntry[]>),
+    ]);
+    const evicted = selectEvictions(keys.map((entryKey, index) => ({ key: entryKey, ...entries[index] })), maxBytes);
+    evicted.forEach(entryKey => store.delete(entryKey));
+    await transactionDone(tx);
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SavedModel, WardrobeItem } from '../types';
+import { loadWardrobeItemFile } from '../lib/garmentPreprocess';
+import { generateVirtualTryOnImage } from './geminiService';
+import { enqueueJob, JobCancelledError } from './jobQueue';
+
+export type BatchTryOnStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchTryOnResult {
+  modelId: string;
+  status: BatchTryOnStatus;
+  imageUrl?: string;
+  error?: string;
+}
+
+interface BatchTryOnOptions {
+  signal?: AbortSignal;
+  onResult: (result: BatchTryOnResult) => void;
+}
+
+/**
+ * Dresses every model in `models` with `garment`. Each model is its own job in
+ * the shared queue, so the queue decides how many run at once. A failing model
+ * is reported through `onResult` and does not stop the others; aborting
+ * `signal` cancels every model that has not finished. The jobs are not
+ * retryable from the jobs tray, as `onResult` may belong to a closed dialog;
+ * run the failed models again with a new call instead.
+ */
+export const runBatchTryOn = async (
+  models: SavedModel[],
+  garment: WardrobeItem,
+  { signal, onResult }: BatchTryOnOptions
+): Promise<void> => {
+  const garmentFile = await loadWardrobeItemFile(garment);
+  await Promise.all(models.map(model =>
+    enqueueJob(async jobSignal => {
+      onResult({ modelId: model.id, status: 'running' });
+      const imageUrl = await generateVirtualTryOnImage(model.imageUrl, garmentFile, garment.slot, jobSignal);
+      if (jobSignal.aborted) return;
+      onResult({ modelId: model.id, status: 'done', imageUrl });
+    }, { label: `${garment.name} · ${model.name}`, signal })
+      .catch(err => {
+        if (err instanceof JobCancelledError) return;
+        onResult({ modelId: model.id, status: 'error', error: err instanceof Error ? err.message : String(err) });
+      })
+  ));
+};
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { fileToDataUrl } from "../lib/image";
+import { COLOR_NAMES, parseGarmentAttributes } from "../lib/garmentAttributes";
+import { SLOT_INFO } from "../lib/garmentSlots";
+import type { ImageSource, TryOnProvider } from "./tryOnProvider";
+import { buildFashionItemPrompt, buildFullLookPrompt, buildGarmentAnalysisPrompt, buildGarmentEditPrompt, buildLookRankingPrompt, buildPosePrompt, buildTryOnPrompt, buildVideoPrompt, MODEL_IMAGE_PROMPT, REMOVE_BACKGROUND_PROMPT } from "./prompts";
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+const GARMENT_ANALYSIS_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        garmentType: { type: Type.STRING },
+        slot: { type: Type.STRING, enum: Object.keys(SLOT_INFO) },
+        colors: { type: Type.ARRAY, items: { type: Type.STRING, enum: COLOR_NAMES } },
+        pattern: { type: Type.STRING },
+        material: { type: Type.STRING },
+        formality: { type: Type.STRING, enum: ['casual', 'smart-casual', 'business', 'formal', 'sport'] },
+        nameTh: { type: Type.STRING },
+        nameEn: { type: Type.STRING },
+    },
+    required: ['garmentType', 'slot', 'colors', 'nameTh', 'nameEn'],
+};
+
+const LOOK_RANKING_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING }, reason: { type: Type.STRING } },
+        required: ['id'],
+    },
+};
+
+const fileToPart = async (file: Blob) => {
+    const dataUrl = await fileToDataUrl(file);
+    const { mimeType, data } = dataUrlToParts(dataUrl);
+    return { inlineData: { mimeType, data } };
+};
+
+const dataUrlToParts = (dataUrl: string) => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    return { mimeType: mimeMatch[1], data: arr[1] };
+}
+
+const dataUrlToPart = (dataUrl: string) => {
+    const { mimeType, data } = dataUrlToParts(dataUrl);
+    return { inlineData: { mimeType, data } };
+}
+
+// Restored sessions hand us blob: URLs, so anything that isn't a data URL is fetched first.
+const urlToPart = async (url: string) =>
+    url.startsWith('data:') ? dataUrlToPart(url) : fileToPart(await (await fetch(url)).blob());
+
+const toImagePart = (imageSource: ImageSource) =>
+    typeof imageSource === 'string' ? urlToPart(imageSource) : fileToPart(imageSource);
+
+const handleApiResponse = (response: GenerateContentResponse): string => {
+    for (const candidate of response.candidates ?? []) {
+        for (const part of candidate.content?.parts ?? []) {
+            if (part.inlineData) {
+                const { mimeType, data } = part.inlineData;
+                return `data:${mimeType};base64,${data}`;
+            }
+        }
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        throw new Error(`Image generation stopped. Reason: ${finishReason}`);
+    }
+    const textFeedback = response.text?.trim();
+    throw new Error(textFeedback || "AI did not return an image.");
+};
+
+export const createGeminiProvider = (getApiKey: () => string | undefined): TryOnProvider => {
+    // Reuse one client, but rebuild it when the key changes (the AI Studio key picker can swap it at runtime).
+    let client: GoogleGenAI | null = null;
+    let clientKey: string | undefined;
+    const getClient = () => {
+        const apiKey = getApiKey();
+        if (!client || apiKey !== clientKey) {
+            client = new GoogleGenAI({ apiKey });
+            clientKey = apiKey;
+        }
+        return client;
+    };
+
+    const generateImage = async (parts: Array<Awaited<ReturnType<typeof toImagePart>> | { text: string }>, signal?: AbortSignal) => {
+        const response = await getClient().models.generateContent({
+            model: GEMINI_IMAGE_MODEL,
+            contents: { parts },
+            config: { abortSignal: signal },
+        });
+        return handleApiResponse(response);
+    };
+
+    return {
+        id: 'gemini',
+        imageModel: GEMINI_IMAGE_MODEL,
+
+        async removeBackground(imageSource, signal) {
+            const imagePart = await toImagePart(imageSource);
+            return generateImage([imagePart, { text: REMOVE_BACKGROUND_PROMPT }], signal);
+        },
+
+        async generateModelImage(imageSource, signal) {
+            const userImagePart = await toImagePart(imageSource);
+            return generateImage([userImagePart, { text: MODEL_IMAGE_PROMPT }], signal);
+        },
+
+        async generateFashionItem(category, style = 'trendy and stylish', signal) {
+            return generateImage([{ text: buildFashionItemPrompt(category, style) }], signal);
+        },
+
+        async editGarment(image, instruction, signal) {
+            const imagePart = await toImagePart(image);
+            return generateImage([imagePart, { text: buildGarmentEditPrompt(instruction) }], signal);
+        },
+
+        async generateVirtualTryOnImage(modelImageUrl, itemImage, slot, signal) {
+            const modelImagePart = await urlToPart(modelImageUrl);
+            const itemImagePart = await toImagePart(itemImage);
+            return generateImage([modelImagePart, itemImagePart, { text: buildTryOnPrompt(slot) }], signal);
+        },
+
+        async generateFullLook(modelImageUrl, items, signal) {
+            const modelImagePart = await urlToPart(modelImageUrl);
+            const itemParts = await Promise.all(items.map(item => toImagePart(item.image)));
+            const prompt = buildFullLookPrompt(items.map(item => item.slot));
+            return generateImage([modelImagePart, ...itemParts, { text: prompt }], signal);
+        },
+
+        async generatePoseVariation(tryOnImageUrl, poseInstruction, references = {}, signal) {
+            const tryOnImagePart = await urlToPart(tryOnImageUrl);
+            const { pose, identity, garments = [] } = references;
+            const referenceParts = await Promise.all([
+                ...(pose ? [pose] : []),
+                ...(identity ? [identity] : []),
+                ...garments,
+            ].map(toImagePart));
+            const prompt = buildPosePrompt(poseInstruction, { hasPose: !!pose, hasIdentity: !!identity, garmentCount: garments.length });
+            return generateImage([tryOnImagePart, ...referenceParts, { text: prompt }], signal);
+        },
+
+        async generateVideo(imageSource, settings, signal) {
+            const ai = getClient();
+            const { inlineData: { mimeType, data } } = await urlToPart(imageSource);
+
+            let operation = await ai.models.generateVideos({
+                model: settings.model,
+                prompt: buildVideoPrompt(settings),
+                image: { imageBytes: data, mimeType: mimeType },
+                config: {
+                    numberOfVideos: 1,
+                    resolution: settings.resolution,
+                    aspectRatio: settings.aspectRatio,
+                    durationSeconds: settings.durationSeconds,
+                    ...(settings.negativePrompt ? { negativePrompt: settings.negativePrompt } : {}),
+                    abortSignal: signal,
+                }
+            });
+
+            while (!operation.done) {
+                await new Promise(resolve => setTimeout(resolve, 10000));
+                signal?.throwIfAborted();
+                operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
+            }
+
+            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+            if (!downloadLink) throw new Error("AI did not return a video.");
+            const response = await fetch(`${downloadLink}&key=${getApiKey()}`, { signal });
+            if (!response.ok) throw new Error(`Could not download the generated video (HTTP ${response.status}).`);
+            const blob = await response.blob();
+            return URL.createObjectURL(blob);
+        },
+
+        async analyzeGarment(image, signal) {
+            const imagePart = await toImagePart(image);
+            const response = await getClient().models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: { parts: [imagePart, { text: buildGarmentAnalysisPrompt(COLOR_NAMES) }] },
+                config: { abortSignal: signal, responseMimeType: 'application/json', responseSchema: GARMENT_ANALYSIS_SCHEMA },
+            });
+            const text = response.text?.trim();
+            if (!text) throw new Error("AI did not return a garment analysis.");
+            return parseGarmentAttributes(JSON.parse(text));
+        },
+
+        async rankLooks(occasion, looks, signal) {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: buildLookRankingPrompt(occasion, looks),
+                config: { abortSignal: signal, responseMimeType: 'application/json', responseSchema: LOOK_RANKING_SCHEMA },
+            });
+            const ranked = JSON.parse(response.text?.trim() || '[]');
+            if (!Array.isArray(ranked)) throw new Error("AI did not return a ranking.");
+            return ranked
+                .filter(entry => typeof entry?.id === 'string')
+                .map(entry => ({ id: entry.id, reason: typeof entry.reason === 'string' ? entry.reason : undefined }));
+        },
+    };
+};
@@ -1,145 +1,105 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-
-const fileToPart = async (file: File) => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = () => reject(new Error(`Failed to read file: ${reader.error?.message || 'Unknown file reading error'}`));
-    });
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import type { ImageSource, LookItem, LookSummary, PoseReferences, RankedLook, TryOnProvider, TryOnProviderId } from "./tryOnProvider";
+import type { GarmentAttributes, GarmentSlot, VideoSettings } from "../types";
+import { fileToDataUrl } from "../lib/image";
+import { analyzeGarmentLocally } from "../lib/garmentAttributes";
+import { GenerationOptions, withGenerationCache } from "./generationCache";
+import { buildFullLookPrompt, buildGarmentEditPrompt, buildPosePrompt, buildTryOnPrompt, REMOVE_BACKGROUND_PROMPT } from "./prompts";
+
+const resolveProviderId = (): TryOnProviderId => {
+    const requested = process.env.TRY_ON_PROVIDER;
+    if (requested === 'gemini' || requested === 'mock') return requested;
+    if (requested) console.warn(`Unknown TRY_ON_PROVIDER "${requested}", falling back to the default provider.`);
+    // Hosted deployments inject the key at runtime, so a missing build-time key
+    // is no reason to hand real users fake images; the mock is opt-in only.
+    return 'gemini';
 };
 
-const dataUrlToParts = (dataUrl: string) => {
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    return { mimeType: mimeMatch[1], data: arr[1] };
-}
+const createProvider = (id: TryOnProviderId): TryOnProvider =>
+    id === 'mock' ? createMockProvider() : createGeminiProvider(() => process.env.API_KEY);
 
-const dataUrlToPart = (dataUrl: string) => {
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
-}
+/** The provider is picked once at startup; every export below delegates to it. */
+export const tryOnProvider: TryOnProvider = createProvider(resolveProviderId());
 
-const handleApiResponse = (response: GenerateContentResponse): string => {
-    for (const candidate of response.candidates ?? []) {
-        for (const part of candidate.content?.parts ?? []) {
-            if (part.inlineData) {
-                const { mimeType, data } = part.inlineData;
-                return `data:${mimeType};base64,${data}`;
-            }
-        }
-    }
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        throw new Error(`Image generation stopped. Reason: ${finishReason}`);
-    }
-    const textFeedback = response.text?.trim();
-    throw new Error(textFeedback || "AI did not return an image.");
-};
+// Background removal, item edits, try-on, full-look and pose calls are cached by their inputs; pass `{ force: true }` to regenerate.
 
-export const removeBackground = async (imageSource: File | string): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const imagePart = typeof imageSource === 'string' ? dataUrlToPart(imageSource) : await fileToPart(imageSource);
-    const prompt = "Remove the background from this photo, keeping only the person. Place the person on a solid pure white background (#FFFFFF). Ensure clean edges.";
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, { text: prompt }] },
-    });
-    return handleApiResponse(response);
-};
+export const removeBackground = (imageSource: ImageSource, signal?: AbortSignal, options?: GenerationOptions): Promise<string> =>
+    withGenerationCache(
+        { operation: 'remove-background', model: tryOnProvider.imageModel, prompt: REMOVE_BACKGROUND_PROMPT, inputs: [imageSource] },
+        () => tryOnProvider.removeBackground(imageSource, signal),
+        options,
+    );
 
-export const generateModelImage = async (imageSource: File | string): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const userImagePart = typeof imageSource === 'string' ? dataUrlToPart(imageSource) : await fileToPart(imageSource);
-    const prompt = "Transform the person in this image into a photorealistic full-body fashion model photo in a neutral studio backdrop. Preserve the person's identity and body type.";
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [userImagePart, { text: prompt }] },
-    });
-    return handleApiResponse(response);
-};
+export const generateModelImage = (imageSource: ImageSource, signal?: AbortSignal): Promise<string> =>
+    tryOnProvider.generateModelImage(imageSource, signal);
 
 /**
  * สร้างรูปสินค้าแฟชั่นใหม่ตามหมวดหมู่
  */
-export const generateFashionItem = async (category: string, style: string = 'trendy and stylish'): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = `Professional product photography of a single ${category}, ${style}, photorealistic, studio lighting, isolated on a pure white background (#FFFFFF). High resolution, high fashion.`;
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: prompt }] },
-    });
-    return handleApiResponse(response);
+export const generateFashionItem = (category: string, style?: string, signal?: AbortSignal): Promise<string> =>
+    tryOnProvider.generateFashionItem(category, style, signal);
+
+export const editGarment = (image: ImageSource, instruction: string, signal?: AbortSignal, options?: GenerationOptions): Promise<string> =>
+    withGenerationCache(
+        { operation: 'edit-item', model: tryOnProvider.imageModel, prompt: buildGarmentEditPrompt(instruction), inputs: [image] },
+        () => tryOnProvider.editGarment(image, instruction, signal),
+        options,
+    );
+
+export const generateVirtualTryOnImage = (modelImageUrl: string, itemImage: ImageSource, slot?: GarmentSlot, signal?: AbortSignal, options?: GenerationOptions): Promise<string> =>
+    withGenerationCache(
+        { operation: 'try-on', model: tryOnProvider.imageModel, prompt: buildTryOnPrompt(slot), inputs: [modelImageUrl, itemImage] },
+        () => tryOnProvider.generateVirtualTryOnImage(modelImageUrl, itemImage, slot, signal),
+        options,
+    );
+
+/** Dresses every item in one request instead of one call per garment. */
+export const generateFullLook = (modelImageUrl: string, items: LookItem[], signal?: AbortSignal, options?: GenerationOptions): Promise<string> =>
+    withGenerationCache(
+        { operation: 'full-look', model: tryOnProvider.imageModel, prompt: buildFullLookPrompt(items.map(item => item.slot)), inputs: [modelImageUrl, ...items.map(item => item.image)] },
+        () => tryOnProvider.generateFullLook(modelImageUrl, items, signal),
+        options,
+    );
+
+export const generatePoseVariation = (tryOnImageUrl: string, poseInstruction: string, references: PoseReferences = {}, signal?: AbortSignal, options?: GenerationOptions): Promise<string> => {
+    const { pose, identity, garments = [] } = references;
+    return withGenerationCache(
+        {
+            operation: 'pose',
+            model: tryOnProvider.imageModel,
+            prompt: buildPosePrompt(poseInstruction, { hasPose: !!pose, hasIdentity: !!identity, garmentCount: garments.length }),
+            inputs: [tryOnImageUrl, ...(pose ? [pose] : []), ...(identity ? [identity] : []), ...garments],
+        },
+        () => tryOnProvider.generatePoseVariation(tryOnImageUrl, poseInstruction, references, signal),
+        options,
+    );
 };
 
-export const generateVirtualTryOnImage = async (modelImageUrl: string, itemImage: File | string): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const modelImagePart = dataUrlToPart(modelImageUrl);
-    const itemImagePart = typeof itemImage === 'string' ? dataUrlToPart(itemImage) : await fileToPart(itemImage);
-    const prompt = `You are an expert virtual try-on AI. You will be given a 'base image' of a model and an 'item image' (either clothing or an accessory like a hat, sunglasses, or bag).
-    
-Your task:
-1. If the item is CLOTHING: Replace the current corresponding clothing on the model with the new one.
-2. If the item is an ACCESSORY: Add the accessory to the model realistically (e.g., put the hat on the head, glasses on the face, or bag in the hand/on the shoulder).
-3. Preserve the model's identity, pose, and background perfectly.
-4. The item should look photorealistic and naturally fit the lighting and shadows of the scene.
-5. Return ONLY the final image.`;
+export const rankLooks = (occasion: string, looks: LookSummary[], signal?: AbortSignal): Promise<RankedLook[]> =>
+    tryOnProvider.rankLooks(occasion, looks, signal);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [modelImagePart, itemImagePart, { text: prompt }] },
-    });
-    return handleApiResponse(response);
-};
+export const generateVideo = (imageSource: string, settings: VideoSettings, signal?: AbortSignal): Promise<string> =>
+    tryOnProvider.generateVideo(imageSource, settings, signal);
 
-export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const tryOnImagePart = dataUrlToPart(tryOnImageUrl);
-    const prompt = `Regenerate this image from a new perspective/pose: "${poseInstruction}". The person, outfit, accessories, and background must remain identical. Return ONLY the image.`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [tryOnImagePart, { text: prompt }] },
-    });
-    return handleApiResponse(response);
-};
-
-export const generateVideo = async (imageSource: string, modelName: string = 'veo-3.1-fast-generate-preview'): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const { mimeType, data } = dataUrlToParts(imageSource);
-    
-    const basePrompt = "Cinematic fashion clip. The model walks gracefully on a minimalist studio catwalk, showing off the outfit and accessories. Photorealistic, professional lighting.";
-    const prompt = modelName.includes('fast') ? basePrompt : `${basePrompt} Extremely high detail, 4k cinematic resolution, buttery smooth motion, dramatic shadows.`;
-
-    let operation = await ai.models.generateVideos({
-        model: modelName as any,
-        prompt,
-        image: { imageBytes: data, mimeType: mimeType },
-        config: { 
-            numberOfVideos: 1, 
-            resolution: modelName.includes('fast') ? '720p' : '1080p', 
-            aspectRatio: '9:16' 
-        }
-    });
-
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+/**
+ * Describes a garment image for the wardrobe. Analysis is a nice-to-have, so
+ * when the device is offline or the provider fails, the item still gets its
+ * colours from a local pass instead of an error.
+ */
+export const analyzeGarment = async (image: ImageSource, signal?: AbortSignal): Promise<GarmentAttributes> => {
+    const analyzeLocally = async () => analyzeGarmentLocally(typeof image === 'string' ? image : await fileToDataUrl(image));
+    if (!navigator.onLine) return analyzeLocally();
+    try {
+        return await tryOnProvider.analyzeGarment(image, signal);
+    } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn("Garment analysis failed, using local colours only", err);
+        return analyzeLocally();
     }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    const blob = await response.blob();
-    return URL.createObjectURL(blob);
 };
-    
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { selectEvictions } from './assetStore';
+import { generationCacheKey } from './generationCache';
+
+const image = (bytes: number[]) => new File([new Uint8Array(bytes)], 'garment.png', { type: 'image/png' });
+
+describe('generationCacheKey', () => {
+  const request = { operation: 'try-on', model: 'model-a', prompt: 'Wear the top', inputs: [image([1, 2, 3]), image([4, 5])] };
+
+  it('is the same for the same request on the same bytes', async () => {
+    const again = { ...request, inputs: [image([1, 2, 3]), image([4, 5])] };
+    expect(await generationCacheKey(again)).toBe(await generationCacheKey(request));
+  });
+
+  it('reads data URLs by their bytes', async () => {
+    const dataUrl = `data:image/png;base64,${btoa(String.fromCharCode(1, 2, 3))}`;
+    expect(await generationCacheKey({ ...request, inputs: [dataUrl, image([4, 5])] }))
+      .toBe(await generationCacheKey(request));
+  });
+
+  it('changes with the operation, model, prompt, image bytes and image order', async () => {
+    const key = await generationCacheKey(request);
+    const variants = [
+      { ...request, operation: 'pose' },
+      { ...request, model: 'model-b' },
+      { ...request, prompt: 'Wear the top.' },
+      { ...request, inputs: [image([1, 2, 4]), image([4, 5])] },
+      { ...request, inputs: [image([4, 5]), image([1, 2, 3])] },
+    ];
+    for (const variant of variants) expect(await generationCacheKey(variant)).not.toBe(key);
+  });
+});
+
+describe('selectEvictions', () => {
+  const entries = [
+    { key: 'newest', size: 40, lastUsed: 300 },
+    { key: 'oldest', size: 30, lastUsed: 100 },
+    { key: 'middle', size: 50, lastUsed: 200 },
+  ];
+
+  it('keeps everything that fits', () => {
+    expect(selectEvictions(entries, 120)).toEqual([]);
+  });
+
+  it('evicts the least recently used entries until the rest fit', () => {
+    expect(selectEvictions(entries, 100)).toEqual(['oldest']);
+    expect(selectEvictions(entries, 60)).toEqual(['oldest', 'middle']);
+    expect(selectEvictions(entries, 0)).toEqual(['oldest', 'middle', 'newest']);
+  });
+});
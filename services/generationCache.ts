@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { fileToDataUrl } from '../lib/image';
+import { hashBlob, readGeneration, writeGeneration } from './assetStore';
+import type { ImageSource } from './tryOnProvider';
+
+// Persistent cache for image generations. A result is keyed by the SHA-256 of
+// the operation, the model, the exact prompt and the bytes of every input
+// image, so the same request on the same pictures never calls the API twice.
+
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+export interface GenerationOptions {
+  /** Skip the cached result and call the provider again; the new result replaces the old one. */
+  force?: boolean;
+}
+
+export interface GenerationRequest {
+  operation: string;
+  model: string;
+  prompt: string;
+  inputs: ImageSource[];
+}
+
+const sourceToBlob = async (source: ImageSource): Promise<Blob> =>
+  typeof source === 'string' ? (await fetch(source)).blob() : source;
+
+// Object and data URLs never change their bytes, so their hashes can be remembered.
+const hashByUrl = new Map<string, string>();
+
+const hashSource = async (source: ImageSource): Promise<string> => {
+  if (typeof source !== 'string') return hashBlob(source);
+  const known = hashByUrl.get(source);
+  if (known) return known;
+  const hash = await hashBlob(await sourceToBlob(source));
+  hashByUrl.set(source, hash);
+  return hash;
+};
+
+export const generationCacheKey = async ({ operation, model, prompt, inputs }: GenerationRequest): Promise<string> => {
+  const inputHashes = await Promise.all(inputs.map(hashSource));
+  return hashBlob(new Blob([JSON.stringify([operation, model, prompt, ...inputHashes])]));
+};
+
+/**
+ * Returns the cached result for `request`, or runs `generate` and caches what
+ * it returns. The cache is an optimisation only: if IndexedDB fails the call
+ * still goes through to the provider.
+ */
+export const withGenerationCache = async (
+  request: GenerationRequest,
+  generate: () => Promise<string>,
+  { force = false }: GenerationOptions = {},
+): Promise<string> => {
+  let key: string | undefined;
+  try {
+    key = await generationCacheKey(request);
+    const cached = force ? undefined : await readGeneration(key);
+    if (cached) return fileToDataUrl(cached);
+  } catch (e) {
+    console.warn('Generation cache lookup failed', e);
+  }
+
+  const result = await generate();
+  if (key) {
+    try {
+      await writeGeneration(key, await sourceToBlob(result), MAX_CACHE_BYTES);
+    } catch (e) {
+      console.warn('Failed to cache generation', e);
+    }
+  }
+  return result;
+};
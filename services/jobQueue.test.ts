@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cancelJob,
+  dismissJob,
+  enqueueJob,
+  getJobConcurrency,
+  getJobs,
+  isRetryableError,
+  JobCancelledError,
+  retryJob,
+  setJobConcurrency,
+} from './jobQueue';
+
+const findJob = (label: string) => getJobs().find(job => job.label === label);
+
+// Resolves once the test lets it, so a job can be held in the running state.
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => { resolve = res; });
+  return { promise, resolve };
+};
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED: quota'))).toBe(true);
+    expect(isRetryableError(new Error('Invalid image'))).toBe(false);
+  });
+});
+
+describe('job queue', () => {
+  const initialConcurrency = getJobConcurrency();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    getJobs().forEach(job => dismissJob(job.id));
+    setJobConcurrency(initialConcurrency);
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+  });
+
+  it('resolves with the result of run', async () => {
+    await expect(enqueueJob(async () => 42, { label: 'answer' })).resolves.toBe(42);
+    expect(findJob('answer')?.status).toBe('done');
+  });
+
+  it('retries retryable errors with backoff until run succeeds', async () => {
+    let calls = 0;
+    const promise = enqueueJob(async () => {
+      calls++;
+      if (calls < 3) throw Object.assign(new Error('busy'), { status: 503 });
+      return 'ok';
+    }, { label: 'flaky' });
+    // Backoff is 1s then 2s, each with up to 25% jitter.
+    await vi.advanceTimersByTimeAsync(3750);
+    await expect(promise).resolves.toBe('ok');
+    expect(calls).toBe(3);
+    expect(findJob('flaky')?.attempts).toBe(3);
+  });
+
+  it('fails at once on an error that is not worth retrying', async () => {
+    let calls = 0;
+    const promise = enqueueJob(async () => {
+      calls++;
+      throw new Error('bad request');
+    }, { label: 'broken' });
+    await expect(promise).rejects.toThrow('bad request');
+    expect(calls).toBe(1);
+    expect(findJob('broken')).toMatchObject({ status: 'failed', error: 'bad request' });
+  });
+
+  it('rejects with JobCancelledError and aborts the run signal when cancelled', async () => {
+    const gate = deferred<string>();
+    let runSignal: AbortSignal | undefined;
+    const promise = enqueueJob(signal => {
+      runSignal = signal;
+      return gate.promise;
+    }, { label: 'slow' });
+    await vi.advanceTimersByTimeAsync(0);
+    cancelJob(findJob('slow')!.id);
+    await expect(promise).rejects.toBeInstanceOf(JobCancelledError);
+    expect(runSignal?.aborted).toBe(true);
+    expect(findJob('slow')?.status).toBe('cancelled');
+    gate.resolve('too late');
+  });
+
+  it('cancels together with the caller signal', async () => {
+    const controller = new AbortController();
+    const gate = deferred<void>();
+    const promise = enqueueJob(() => gate.promise, { label: 'owned', signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(JobCancelledError);
+    gate.resolve();
+
+    const alreadyAborted = new AbortController();
+    alreadyAborted.abort();
+    await expect(enqueueJob(async () => 1, { label: 'never', signal: alreadyAborted.signal }))
+      .rejects.toBeInstanceOf(JobCancelledError);
+    expect(findJob('never')).toBeUndefined();
+  });
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    setJobConcurrency(1);
+    const gate = deferred<void>();
+    const first = enqueueJob(() => gate.promise, { label: 'first' });
+    const second = enqueueJob(async () => 'second', { label: 'second' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(findJob('first')?.status).toBe('running');
+    expect(findJob('second')?.status).toBe('queued');
+    gate.resolve();
+    await first;
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('reruns a failed job from the tray only when it is retryable', async () => {
+    let calls = 0;
+    const run = async () => {
+      calls++;
+      if (calls === 1) throw new Error('bad request');
+    };
+    await expect(enqueueJob(run, { label: 'retry me', retryable: true })).rejects.toThrow();
+    await expect(enqueueJob(async () => { throw new Error('bad request'); }, { label: 'final' })).rejects.toThrow();
+
+    retryJob(findJob('final')!.id);
+    expect(findJob('final')?.status).toBe('failed');
+
+    retryJob(findJob('retry me')!.id);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toBe(2);
+    expect(findJob('retry me')?.status).toBe('done');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Every AI call goes through this queue so that only a few run at a time,
+// rate-limit and server errors are retried with backoff, and each call can be
+// cancelled. The queue is module state; components follow it via subscribeJobs.
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  retryable: boolean;
+}
+
+export interface EnqueueJobOptions {
+  /** Shown in the jobs tray. */
+  label: string;
+  /** Cancels the job together with whatever the caller is doing. */
+  signal?: AbortSignal;
+  /**
+   * Offer a retry in the tray after the job has failed. Only set this when
+   * `run` applies its own result, since the original caller has already
+   * seen the failure and is no longer waiting. Such a `run` must check its
+   * signal after every await and stop before touching state once aborted.
+   */
+  retryable?: boolean;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_JOB_CONCURRENCY = 6;
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const FINISHED_JOB_TTL_MS = 4000;
+
+interface JobEntry extends Job {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  settle?: { resolve: (value: unknown) => void; reject: (reason: unknown) => void };
+}
+
+let concurrency = DEFAULT_CONCURRENCY;
+let entries: JobEntry[] = [];
+let snapshot: Job[] = [];
+const listeners = new Set<(jobs: Job[]) => void>();
+let nextJobId = 0;
+
+const toJob = ({ id, label, status, attempts, error, createdAt, retryable }: JobEntry): Job =>
+  ({ id, label, status, attempts, error, createdAt, retryable });
+
+const notify = () => {
+  snapshot = entries.map(toJob);
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const update = (entry: JobEntry, changes: Partial<Job>) => {
+  Object.assign(entry, changes);
+  notify();
+};
+
+const removeEntry = (id: string) => {
+  entries = entries.filter(entry => entry.id !== id);
+  notify();
+};
+
+/** Rate limits (429) and server errors (5xx) are worth another try; anything else is not. */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const retryDelay = (attempt: number) =>
+  BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new JobCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const finish = (entry: JobEntry, changes: Partial<Job>, outcome: { value?: unknown; error?: unknown }) => {
+  update(entry, changes);
+  if ('error' in outcome) entry.settle?.reject(outcome.error);
+  else entry.settle?.resolve(outcome.value);
+  entry.settle = undefined;
+  // Successful and cancelled jobs leave the tray on their own; failures stay until retried or dismissed.
+  if (entry.status === 'done' || entry.status === 'cancelled') {
+    setTimeout(() => {
+      if (entry.status === 'done' || entry.status === 'cancelled') removeEntry(entry.id);
+    }, FINISHED_JOB_TTL_MS);
+  }
+  pump();
+};
+
+const execute = async (entry: JobEntry) => {
+  const { signal } = entry.controller;
+  update(entry, { status: 'running', error: undefined });
+  for (;;) {
+    update(entry, { attempts: entry.attempts + 1 });
+    // cancelJob settles an aborted job itself, so every await below just stops when aborted.
+    try {
+      const value = await entry.run(signal);
+      if (signal.aborted) return;
+      finish(entry, { status: 'done' }, { value });
+      return;
+    } catch (error) {
+      if (signal.aborted) return;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!isRetryableError(error) || entry.attempts >= MAX_ATTEMPTS) {
+        finish(entry, { status: 'failed', error: message }, { error });
+        return;
+      }
+      update(entry, { status: 'retrying', error: message });
+      try {
+        await sleep(retryDelay(entry.attempts), signal);
+      } catch {
+        return;
+      }
+      update(entry, { status: 'running' });
+    }
+  }
+};
+
+const pump = () => {
+  const active = entries.filter(entry => entry.status === 'running' || entry.status === 'retrying').length;
+  const waiting = entries.filter(entry => entry.status === 'queued').slice(0, Math.max(0, concurrency - active));
+  waiting.forEach(entry => { execute(entry); });
+};
+
+/**
+ * Queues `run` and resolves with its result. `run` receives the job's own
+ * signal and should pass it on to the provider call. Rejects with
+ * JobCancelledError when the job is cancelled from the tray or via `signal`.
+ */
+export const enqueueJob = <T>(run: (signal: AbortSignal) => Promise<T>, { label, signal, retryable = false }: EnqueueJobOptions): Promise<T> => {
+  const entry: JobEntry = {
+    id: `job-${++nextJobId}`,
+    label,
+    status: 'queued',
+    attempts: 0,
+    createdAt: Date.now(),
+    retryable,
+    run,
+    controller: new AbortController(),
+  };
+  const promise = new Promise<T>((resolve, reject) => {
+    entry.settle = { resolve: resolve as (value: unknown) => void, reject };
+  });
+  if (signal?.aborted) {
+    entry.settle?.reject(new JobCancelledError());
+    return promise;
+  }
+  signal?.addEventListener('abort', () => cancelJob(entry.id), { once: true });
+  entries = [...entries, entry];
+  notify();
+  pump();
+  return promise;
+};
+
+export const cancelJob = (id: string) => {
+  const entry = entries.find(candidate => candidate.id === id);
+  if (!entry || entry.status === 'done' || entry.status === 'failed' || entry.status === 'cancelled') return;
+  // A provider call that ignores the signal may still finish in the background. The caller's promise
+  // is already rejected, so only a `run` that applies its own result has to check the signal itself.
+  entry.controller.abort();
+  finish(entry, { status: 'cancelled' }, { error: new JobCancelledError() });
+};
+
+/**
+ * Runs a failed, retryable job again from the tray. `run` is the original
+ * closure, so it must re-check that whatever it writes to still exists.
+ */
+export const retryJob = (id: string) => {
+  const entry = entries.find(candidate => candidate.id === id);
+  if (!entry || entry.status !== 'failed' || !entry.retryable) return;
+  entry.controller = new AbortController();
+  update(entry, { status: 'queued', attempts: 0, error: undefined });
+  pump();
+};
+
+export const dismissJob = (id: string) => {
+  const entry = entries.find(candidate => candidate.id === id);
+  if (entry?.status === 'failed') removeEntry(id);
+};
+
+export const getJobConcurrency = () => concurrency;
+
+export const setJobConcurrency = (value: number) => {
+  concurrency = Math.min(MAX_JOB_CONCURRENCY, Math.max(1, Math.round(value)));
+  notify();
+  pump();
+};
+
+export const getJobs = (): Job[] => snapshot;
+
+export const subscribeJobs = (listener: (jobs: Job[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
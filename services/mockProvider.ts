@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, drawContain, fileToDataUrl, hashString, loadImage } from "../lib/image";
+import { analyzeGarmentLocally } from "../lib/garmentAttributes";
+import type { ImageSource, LookItem, TryOnProvider } from "./tryOnProvider";
+import type { GarmentSlot } from "../types";
+
+// Local stand-in for the Gemini backend. Every result is composited on a canvas
+// and depends only on its inputs, so the dressing flow can be exercised offline.
+
+const MODEL_WIDTH = 576;
+const MODEL_HEIGHT = 1024;
+const ITEM_SIZE = 512;
+const SIMULATED_LATENCY_MS = 400;
+
+const delay = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        signal?.throwIfAborted();
+        const timeout = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(signal.reason);
+        }, { once: true });
+    });
+
+const toSourceUrl = async (imageSource: ImageSource) =>
+    typeof imageSource === 'string' ? imageSource : fileToDataUrl(imageSource);
+
+const hueFor = (seed: string) => hashString(seed) % 360;
+
+// Where each kind of item lands on the model, as fractions of the image: [x, y, width, height].
+const SLOT_REGIONS: Record<GarmentSlot, [number, number, number, number]> = {
+    top: [0.25, 0.28, 0.5, 0.28],
+    outerwear: [0.2, 0.26, 0.6, 0.34],
+    bottom: [0.28, 0.52, 0.44, 0.3],
+    dress: [0.22, 0.28, 0.56, 0.48],
+    footwear: [0.3, 0.86, 0.4, 0.1],
+    headwear: [0.34, 0.02, 0.32, 0.12],
+    eyewear: [0.38, 0.12, 0.24, 0.05],
+    bag: [0.62, 0.45, 0.3, 0.2],
+    jewelry: [0.42, 0.22, 0.16, 0.06],
+};
+const DEFAULT_REGION: [number, number, number, number] = [0.25, 0.28, 0.5, 0.32];
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.6)';
+    ctx.fillRect(0, height - 44, width, 44);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '600 18px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, width / 2, height - 22, width - 24);
+};
+
+const dressModel = async (modelImageUrl: string, items: LookItem[]) => {
+    const [model, ...itemImages] = await Promise.all([
+        loadImage(modelImageUrl),
+        ...items.map(item => toSourceUrl(item.image).then(loadImage)),
+    ]);
+    const { canvas, ctx } = createCanvas(model.width, model.height);
+    ctx.drawImage(model, 0, 0);
+    // Multiply keeps the item's white product background from covering the model.
+    ctx.globalCompositeOperation = 'multiply';
+    items.forEach((item, index) => {
+        const [x, y, w, h] = item.slot ? SLOT_REGIONS[item.slot] : DEFAULT_REGION;
+        drawContain(ctx, itemImages[index], canvas.width * x, canvas.height * y, canvas.width * w, canvas.height * h);
+    });
+    return canvas.toDataURL('image/png');
+};
+
+export const createMockProvider = (): TryOnProvider => ({
+    id: 'mock',
+    imageModel: 'mock-compositor-v1',
+
+    async removeBackground(imageSource, signal) {
+        const image = await loadImage(await toSourceUrl(imageSource));
+        const { canvas, ctx } = createCanvas(image.width, image.height);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, 0, 0);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return canvas.toDataURL('image/png');
+    },
+
+    async generateModelImage(imageSource, signal) {
+        const image = await loadImage(await toSourceUrl(imageSource));
+        const { canvas, ctx } = createCanvas(MODEL_WIDTH, MODEL_HEIGHT);
+        const backdrop = ctx.createLinearGradient(0, 0, 0, MODEL_HEIGHT);
+        backdrop.addColorStop(0, '#F9FAFB');
+        backdrop.addColorStop(1, '#E5E7EB');
+        ctx.fillStyle = backdrop;
+        ctx.fillRect(0, 0, MODEL_WIDTH, MODEL_HEIGHT);
+        drawContain(ctx, image, 0, 0, MODEL_WIDTH, MODEL_HEIGHT);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return canvas.toDataURL('image/png');
+    },
+
+    async generateFashionItem(category, style = 'trendy and stylish', signal) {
+        const { canvas, ctx } = createCanvas(ITEM_SIZE, ITEM_SIZE);
+        const hue = hueFor(`${category}|${style}`);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, ITEM_SIZE, ITEM_SIZE);
+        ctx.fillStyle = `hsl(${hue}, 55%, 55%)`;
+        ctx.beginPath();
+        ctx.roundRect(ITEM_SIZE * 0.2, ITEM_SIZE * 0.15, ITEM_SIZE * 0.6, ITEM_SIZE * 0.6, 36);
+        ctx.fill();
+        ctx.fillStyle = '#374151';
+        ctx.font = '600 22px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(category, ITEM_SIZE / 2, ITEM_SIZE * 0.88, ITEM_SIZE - 40);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return canvas.toDataURL('image/png');
+    },
+
+    // The edit is shown as a tint picked from the instruction, with the instruction as a caption.
+    async editGarment(image, instruction, signal) {
+        const source = await loadImage(await toSourceUrl(image));
+        const { canvas, ctx } = createCanvas(source.width, source.height);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(source, 0, 0);
+        ctx.globalCompositeOperation = 'multiply';
+        ctx.fillStyle = `hsla(${hueFor(instruction)}, 70%, 60%, 0.35)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        drawCaption(ctx, instruction, canvas.width, canvas.height);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return canvas.toDataURL('image/png');
+    },
+
+    // Keeps the local order; the rule-based scores already rank the looks.
+    async rankLooks(_occasion, looks, signal) {
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return looks.map(look => ({ id: look.id }));
+    },
+
+    async generateVirtualTryOnImage(modelImageUrl, itemImage, slot, signal) {
+        const result = await dressModel(modelImageUrl, [{ image: itemImage, slot }]);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return result;
+    },
+
+    async generateFullLook(modelImageUrl, items, signal) {
+        const result = await dressModel(modelImageUrl, items);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return result;
+    },
+
+    async analyzeGarment(image, signal) {
+        const attributes = await analyzeGarmentLocally(await toSourceUrl(image));
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return attributes;
+    },
+
+    // Reference images are not composited; the instruction alone decides the local render.
+    async generatePoseVariation(tryOnImageUrl, poseInstruction, _references, signal) {
+        const image = await loadImage(tryOnImageUrl);
+        const { canvas, ctx } = createCanvas(image.width, image.height);
+        const seed = hashString(poseInstruction);
+        const angle = (((seed % 13) - 6) * Math.PI) / 180;
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.save();
+        ctx.translate(canvas.width / 2, canvas.height / 2);
+        ctx.rotate(angle);
+        if (seed % 2 === 1) ctx.scale(-1, 1);
+        ctx.drawImage(image, -image.width / 2, -image.height / 2);
+        ctx.restore();
+        drawCaption(ctx, poseInstruction, canvas.width, canvas.height);
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return canvas.toDataURL('image/png');
+    },
+
+    async generateVideo(imageSource, settings, signal) {
+        if (typeof MediaRecorder === 'undefined') {
+            throw new Error('This browser cannot record video locally.');
+        }
+        const image = await loadImage(imageSource);
+        signal?.throwIfAborted();
+        // Only the aspect ratio is honoured; the clip is always short to keep the mock quick.
+        const [width, height] = settings.aspectRatio === '16:9' ? [MODEL_HEIGHT, MODEL_WIDTH] : [MODEL_WIDTH, MODEL_HEIGHT];
+        const { canvas, ctx } = createCanvas(width, height);
+        const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e) => chunks.push(e.data);
+        const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+        // A slow push-in over two seconds stands in for the catwalk clip.
+        const durationMs = 2000;
+        recorder.start();
+        const start = performance.now();
+        await new Promise<void>((resolve, reject) => {
+            let frameId = 0;
+            const onAbort = () => {
+                cancelAnimationFrame(frameId);
+                recorder.stop();
+                reject(signal!.reason);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            const frame = (now: number) => {
+                const progress = Math.min(1, (now - start) / durationMs);
+                const zoom = 1 + progress * 0.08;
+                ctx.fillStyle = '#FFFFFF';
+                ctx.fillRect(0, 0, width, height);
+                ctx.save();
+                ctx.translate(width / 2, height / 2);
+                ctx.scale(zoom, zoom);
+                drawContain(ctx, image, -width / 2, -height / 2, width, height);
+                ctx.restore();
+                if (progress < 1) {
+                    frameId = requestAnimationFrame(frame);
+                } else {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                }
+            };
+            frameId = requestAnimationFrame(frame);
+        });
+        recorder.stop();
+        await stopped;
+        signal?.throwIfAborted();
+        return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+    },
+});
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { OutfitLayer, WardrobeItem } from '../types';
+import { loadWardrobeItemFile } from '../lib/garmentPreprocess';
+import { generateVirtualTryOnImage } from './geminiService';
+import { enqueueJob } from './jobQueue';
+
+export interface ReplayStep {
+  garment: WardrobeItem;
+  file?: File; // Freshly uploaded garments come with their file; others are re-read from `garment.url`
+}
+
+export interface ReplayProgress {
+  completed: number;
+  total: number;
+  garment: WardrobeItem;
+}
+
+/**
+ * Dresses `baseImageUrl` with each garment in turn, the same way the garments
+ * were originally stacked. Every result is stored under `poseKey`, the pose
+ * the base image was taken in. Throws JobCancelledError once `signal` aborts.
+ */
+export const replayOutfit = async (
+  baseImageUrl: string,
+  steps: ReplayStep[],
+  { poseKey, signal, onProgress }: { poseKey: string; signal?: AbortSignal; onProgress?: (progress: ReplayProgress) => void },
+): Promise<OutfitLayer[]> => {
+  const layers: OutfitLayer[] = [];
+  let imageUrl = baseImageUrl;
+  for (const [index, step] of steps.entries()) {
+    onProgress?.({ completed: index, total: steps.length, garment: step.garment });
+    const file = step.file ?? await loadWardrobeItemFile(step.garment);
+    const baseUrl = imageUrl;
+    imageUrl = await enqueueJob(
+      jobSignal => generateVirtualTryOnImage(baseUrl, file, step.garment.slot, jobSignal),
+      { label: `สร้างชุดใหม่: ${step.garment.name}`, signal },
+    );
+    layers.push({ garment: step.garment, poseImages: { [poseKey]: imageUrl } });
+  }
+  return layers;
+};
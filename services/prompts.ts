@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentSlot, VideoScene, VideoSettings } from '../types';
+import { SLOT_INFO } from '../lib/garmentSlots';
+
+// Every prompt sent to the image and video models. They live here rather than in
+// the provider so the generation cache can key results on the exact prompt text.
+
+export const REMOVE_BACKGROUND_PROMPT = "Remove the background from this photo, keeping only the person. Place the person on a solid pure white background (#FFFFFF). Ensure clean edges.";
+
+export const MODEL_IMAGE_PROMPT = "Transform the person in this image into a photorealistic full-body fashion model photo in a neutral studio backdrop. Preserve the person's identity and body type.";
+
+export const buildFashionItemPrompt = (category: string, style: string) =>
+    `Professional product photography of a single ${category}, ${style}, photorealistic, studio lighting, isolated on a pure white background (#FFFFFF). High resolution, high fashion.`;
+
+export const buildTryOnPrompt = (slot?: GarmentSlot) => {
+    const itemRules = slot
+        ? `1. ${SLOT_INFO[slot].instruction}
+2. Do not change any other clothing or accessories the model is already wearing.`
+        : `1. If the item is CLOTHING: Replace the current corresponding clothing on the model with the new one.
+2. If the item is an ACCESSORY: Add the accessory to the model realistically (e.g., put the hat on the head, glasses on the face, or bag in the hand/on the shoulder).`;
+    return `You are an expert virtual try-on AI. You will be given a 'base image' of a model and an 'item image' (either clothing or an accessory like a hat, sunglasses, or bag).
+
+Your task:
+${itemRules}
+3. Preserve the model's identity, pose, and background perfectly.
+4. The item should look photorealistic and naturally fit the lighting and shadows of the scene.
+5. Return ONLY the final image.`;
+};
+
+const GENERIC_ITEM_RULE = 'If it is clothing, replace the corresponding clothing; if it is an accessory, add it where it is worn.';
+
+/** The model is the first image and the items follow in list order. */
+export const buildFullLookPrompt = (slots: (GarmentSlot | undefined)[]) => {
+    const itemLines = slots.map((slot, index) =>
+        `- Item ${index + 1} (image ${index + 2}): ${slot ? SLOT_INFO[slot].instruction : GENERIC_ITEM_RULE}`);
+    return `You are an expert virtual try-on AI. The first image is a 'base image' of a model. The next ${slots.length} images are items to dress the model in, all at once, as one complete look.
+
+Items, from innermost to outermost:
+${itemLines.join('\n')}
+
+Rules:
+1. Dress every item in a single consistent result; later items are layered over earlier ones where they overlap.
+2. Preserve the model's identity, pose, and background perfectly.
+3. Every item should look photorealistic and naturally fit the lighting and shadows of the scene.
+4. Return ONLY the final image.`;
+};
+
+/** Reference images follow the image being re-posed in this order: pose, identity, garments. */
+export const buildPosePrompt = (
+    poseInstruction: string,
+    { hasPose = false, hasIdentity = false, garmentCount = 0 }: { hasPose?: boolean; hasIdentity?: boolean; garmentCount?: number } = {},
+) => {
+    const lines = [`Regenerate the first image from a new perspective/pose: "${poseInstruction}". The person, outfit, accessories, and background must remain identical. Return ONLY the image.`];
+    let imageNumber = 2;
+    if (hasPose) {
+        lines.push(`Image ${imageNumber++} is a pose reference: copy only its body position. Ignore the reference person's identity, clothing and background.`);
+    }
+    if (hasIdentity) {
+        lines.push(`Image ${imageNumber++} is the same person before dressing: keep their face, hair, skin tone and body shape exactly as shown there.`);
+    }
+    if (garmentCount > 0) {
+        const range = garmentCount === 1 ? `Image ${imageNumber} is` : `Images ${imageNumber} to ${imageNumber + garmentCount - 1} are`;
+        lines.push(`${range} the garments being worn: keep their colors, patterns and details exactly.`);
+    }
+    return lines.join('\n');
+};
+
+export const buildGarmentEditPrompt = (instruction: string) =>
+    `Edit this product photo of a single garment or accessory: "${instruction}". Change only what the instruction asks for and keep everything else about the item (shape, details, proportions) exactly as it is. Keep the product photography style: the item alone, photorealistic, studio lighting, isolated on a pure white background (#FFFFFF). Return ONLY the edited image.`;
+
+/** Asks for the JSON described by GARMENT_ANALYSIS_SCHEMA in geminiProvider.ts. */
+export const buildGarmentAnalysisPrompt = (colorNames: string[]) => `You are a fashion cataloguing assistant. Describe the single garment or accessory in the image as JSON.
+
+- garmentType: a short English noun phrase, e.g. "denim jacket".
+- slot: where it is worn, one of ${Object.keys(SLOT_INFO).join(', ')}.
+- colors: up to 3 dominant colours of the item itself (not the background), most prominent first, using only these names: ${colorNames.join(', ')}.
+- pattern: e.g. "solid", "striped", "floral".
+- material: your best guess, e.g. "cotton", "leather".
+- formality: one of casual, smart-casual, business, formal, sport.
+- nameTh: a short natural product name in Thai.
+- nameEn: the same name in English.`;
+
+export const buildLookRankingPrompt = (occasion: string, looks: { id: string; items: string[] }[]) => `You are a personal stylist. Rank these outfits from best to worst for this occasion: ${occasion}.
+Consider colour harmony, formality and whether the pieces work together.
+
+${looks.map(look => `Look ${look.id}:\n${look.items.map(item => `- ${item}`).join('\n')}`).join('\n\n')}
+
+Return a JSON array with every look exactly once, best first. Each entry has "id" (the look id) and "reason" (one short sentence in Thai).`;
+
+const VIDEO_SCENE_PROMPTS: Record<VideoScene, string> = {
+    runway: "The model walks gracefully on a minimalist studio catwalk, showing off the outfit and accessories.",
+    street: "The model strolls down a sunlit city street with a relaxed street-style feel, so the outfit is seen moving naturally.",
+    'studio-spin': "The model turns slowly on the spot in a clean white photo studio, a full 360 degrees, so the outfit is seen from every side. The camera stays still.",
+    beach: "The model walks barefoot along a sandy beach at golden hour, with a light sea breeze moving the fabric.",
+};
+
+export const buildVideoPrompt = ({ model, scene, direction }: VideoSettings) => {
+    const directionText = direction.trim() ? ` Additional direction: ${direction.trim()}` : '';
+    const basePrompt = `Cinematic fashion clip. ${VIDEO_SCENE_PROMPTS[scene]}${directionText} Keep the person and every garment exactly as in the image. Photorealistic, professional lighting.`;
+    return model.includes('fast') ? basePrompt : `${basePrompt} Extremely high detail, 4k cinematic resolution, buttery smooth motion, dramatic shadows.`;
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { OutfitNode, OutfitTree } from '../types';
+import { DEFAULT_POSES } from '../lib/poses';
+import { SessionSnapshot } from './sessionStore';
+import { SessionBundleError, validateSnapshot } from './sessionBundle';
+
+const node = (id: string, parentId: string | null, childIds: string[]): OutfitNode => ({
+  id,
+  parentId,
+  childIds,
+  layer: { garment: parentId ? { id: `item-${id}`, name: id, url: `${id}.png` } : null, poseImages: { standing: `asset:${id}` } },
+  createdAt: 0,
+});
+
+// root -> a -> b, with a second branch root -> c
+const validTree = (): OutfitTree => ({
+  rootId: 'root',
+  currentId: 'b',
+  nodes: {
+    root: node('root', null, ['a', 'c']),
+    a: node('a', 'root', ['b']),
+    b: node('b', 'a', []),
+    c: node('c', 'root', []),
+  },
+});
+
+const snapshot = (outfitTree: OutfitTree | null): SessionSnapshot => ({
+  modelImageUrl: 'asset:root',
+  outfitTree,
+  wardrobe: [{ id: 'item-a', name: 'a', url: 'a.png' }],
+  savedOutfits: [{ id: 'saved', imageUrl: 'asset:b', items: [], timestamp: 0 }],
+  outfitCollections: [],
+  savedModels: [{ id: 'model', name: 'Model', imageUrl: 'asset:root', createdAt: 0 }],
+  poses: DEFAULT_POSES,
+  garmentUsage: { 'item-a': { count: 2, lastUsedAt: 10 } },
+});
+
+const withNodes = (changes: Record<string, Partial<OutfitNode>>): OutfitTree => {
+  const tree = validTree();
+  for (const [id, change] of Object.entries(changes)) tree.nodes[id] = { ...tree.nodes[id], ...change };
+  return tree;
+};
+
+describe('validateSnapshot', () => {
+  it('accepts a well-formed session, with or without an outfit history', () => {
+    expect(() => validateSnapshot(snapshot(validTree()))).not.toThrow();
+    expect(() => validateSnapshot(snapshot(null))).not.toThrow();
+  });
+
+  it('rejects malformed library entries', () => {
+    const session = { ...snapshot(null), wardrobe: [{ id: 'broken' }] } as unknown as SessionSnapshot;
+    expect(() => validateSnapshot(session)).toThrow(SessionBundleError);
+  });
+
+  it('rejects malformed item usage', () => {
+    const session = { ...snapshot(null), garmentUsage: { 'item-a': { count: '2' } } } as unknown as SessionSnapshot;
+    expect(() => validateSnapshot(session)).toThrow(/item usage/);
+  });
+
+  it('rejects a root or current node that is missing', () => {
+    expect(() => validateSnapshot(snapshot({ ...validTree(), currentId: 'gone' }))).toThrow(/root/);
+    expect(() => validateSnapshot(snapshot({ ...validTree(), rootId: 'a' }))).toThrow(/root/);
+  });
+
+  it('rejects a child its parent does not list', () => {
+    expect(() => validateSnapshot(snapshot(withNodes({ root: { childIds: ['a'] } })))).toThrow(/parent of outfit node c/);
+  });
+
+  it('rejects a listed child that points at another parent', () => {
+    expect(() => validateSnapshot(snapshot(withNodes({ c: { childIds: ['b'] } })))).toThrow(/children of outfit node c/);
+  });
+
+  it('rejects a cycle that never reaches the root', () => {
+    const tree = withNodes({
+      root: { childIds: ['c'] },
+      a: { parentId: 'b' },
+      b: { childIds: ['a'] },
+    });
+    expect(() => validateSnapshot(snapshot(tree))).toThrow(/ancestors of outfit node a/);
+  });
+
+  it('rejects a second root', () => {
+    const tree = withNodes({ root: { childIds: ['c'] }, a: { parentId: null } });
+    expect(() => validateSnapshot(snapshot(tree))).toThrow(/ancestors of outfit node a/);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { fileToDataUrl } from '../lib/image';
+import { ASSET_REF_PREFIX, AssetRef, hashBlob, isAssetRef, isLocalImageUrl } from './assetStore';
+import { mapSessionUrls, PersistedSession, PersistedSessionV1, SESSION_VERSION, SessionSnapshot, upgradeSession } from './sessionStore';
+
+// A bundle is a single JSON file: a manifest, the session with every local
+// image swapped for an `asset:<sha256>` reference, and the images themselves
+// as base64 data URLs keyed by that hash.
+
+const BUNDLE_FORMAT = 'wear-fit-session';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_FILE_EXTENSION = '.wearfit.json';
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  sessionVersion: number;
+  exportedAt: string;
+  assetCount: number;
+}
+
+interface SessionBundle {
+  manifest: BundleManifest;
+  session: PersistedSession | PersistedSessionV1;
+  assets: Record<string, string>;
+}
+
+export class SessionBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionBundleError';
+  }
+}
+
+export const exportSessionBundle = async (session: SessionSnapshot): Promise<Blob> => {
+  const assets: Record<string, string> = {};
+  const refByUrl = new Map<string, AssetRef>();
+  const stored = await mapSessionUrls(session, async (url) => {
+    if (!isLocalImageUrl(url)) return url;
+    const known = refByUrl.get(url);
+    if (known) return known;
+    const blob = await (await fetch(url)).blob();
+    const hash = await hashBlob(blob);
+    assets[hash] ??= await fileToDataUrl(blob);
+    const ref: AssetRef = `${ASSET_REF_PREFIX}${hash}`;
+    refByUrl.set(url, ref);
+    return ref;
+  });
+
+  const bundle: SessionBundle = {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      sessionVersion: SESSION_VERSION,
+      exportedAt: new Date().toISOString(),
+      assetCount: Object.keys(assets).length,
+    },
+    session: { version: SESSION_VERSION, ...stored },
+    assets,
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isWardrobeItem = (value: unknown) =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.url)
+  && (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every(isString)))
+  && (value.versions === undefined || (Array.isArray(value.versions) && value.versions.every(version => isRecord(version) && isString(version.url))));
+
+const isLayer = (value: unknown) =>
+  isRecord(value)
+  && (value.garment === null || isWardrobeItem(value.garment))
+  && (value.lookGarments === undefined || (Array.isArray(value.lookGarments) && value.lookGarments.every(isWardrobeItem)))
+  && isRecord(value.poseImages)
+  && Object.values(value.poseImages).every(isString);
+
+/** Throws SessionBundleError unless `session` has the shape the rest of the app relies on. */
+export const validateSnapshot = (session: SessionSnapshot) => {
+  const fail = (what: string): never => { throw new SessionBundleError(`The session in this file is invalid: ${what}.`); };
+
+  if (session.modelImageUrl !== null && !isString(session.modelImageUrl)) fail('model image');
+  if (!Array.isArray(session.wardrobe) || !session.wardrobe.every(isWardrobeItem)) fail('wardrobe');
+  if (!Array.isArray(session.savedOutfits) || !session.savedOutfits.every(outfit =>
+    isRecord(outfit) && isString(outfit.id) && isString(outfit.imageUrl)
+    && typeof outfit.timestamp === 'number' && Array.isArray(outfit.items) && outfit.items.every(isWardrobeItem)
+    && (outfit.modelImageUrl === undefined || isString(outfit.modelImageUrl))
+    && (outfit.layers === undefined || (Array.isArray(outfit.layers) && outfit.layers.every(isLayer)))
+    && (outfit.title === undefined || isString(outfit.title))
+    && (outfit.rating === undefined || typeof outfit.rating === 'number')
+    && (outfit.occasions === undefined || (Array.isArray(outfit.occasions) && outfit.occasions.every(isString)))
+    && (outfit.collectionId === undefined || isString(outfit.collectionId))
+  )) fail('saved outfits');
+  if (!Array.isArray(session.outfitCollections) || !session.outfitCollections.every(collection =>
+    isRecord(collection) && isString(collection.id) && isString(collection.name)
+  )) fail('outfit collections');
+  if (!Array.isArray(session.savedModels) || !session.savedModels.every(model =>
+    isRecord(model) && isString(model.id) && isString(model.name) && isString(model.imageUrl)
+  )) fail('model library');
+  if (!Array.isArray(session.poses) || !session.poses.every(pose =>
+    isRecord(pose) && isString(pose.id) && isString(pose.name) && isString(pose.instruction)
+    && (pose.referenceImageUrl === undefined || isString(pose.referenceImageUrl))
+  )) fail('pose library');
+  if (!isRecord(session.garmentUsage) || !Object.values(session.garmentUsage).every(entry =>
+    isRecord(entry) && typeof entry.count === 'number' && typeof entry.lastUsedAt === 'number'
+  )) fail('item usage');
+
+  const tree = session.outfitTree;
+  if (tree === null) return;
+  if (!isRecord(tree) || !isRecord(tree.nodes)) fail('outfit history');
+  if (!tree.nodes[tree.rootId] || !tree.nodes[tree.currentId] || tree.nodes[tree.rootId].parentId !== null) fail('outfit history root');
+  for (const [id, node] of Object.entries(tree.nodes)) {
+    if (!isRecord(node) || node.id !== id || !isLayer(node.layer) || !Array.isArray(node.childIds)) fail(`outfit node ${id}`);
+  }
+  // Parents and children have to agree in both directions.
+  for (const [id, node] of Object.entries(tree.nodes)) {
+    if (node.parentId !== null && !tree.nodes[node.parentId]?.childIds.includes(id)) fail(`parent of outfit node ${id}`);
+    if (!node.childIds.every(childId => tree.nodes[childId]?.parentId === id)) fail(`children of outfit node ${id}`);
+  }
+  // Walking up must reach the root without revisiting a node; the history views rely on it.
+  for (const id of Object.keys(tree.nodes)) {
+    const visited = new Set<string>();
+    let nodeId: string | null = id;
+    while (nodeId !== null) {
+      if (visited.has(nodeId)) fail(`ancestors of outfit node ${id}`);
+      visited.add(nodeId);
+      nodeId = tree.nodes[nodeId].parentId;
+    }
+    if (!visited.has(tree.rootId)) fail(`ancestors of outfit node ${id}`);
+  }
+};
+
+const parseBundle = async (file: Blob): Promise<SessionBundle> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new SessionBundleError('This file is not a session bundle or it is corrupted.');
+  }
+  if (!isRecord(parsed) || !isRecord(parsed.manifest) || parsed.manifest.format !== BUNDLE_FORMAT) {
+    throw new SessionBundleError('This file is not a Wear Fit session bundle.');
+  }
+  const { manifest } = parsed;
+  if (typeof manifest.version !== 'number' || typeof manifest.sessionVersion !== 'number') {
+    throw new SessionBundleError('The bundle manifest is corrupted.');
+  }
+  if (manifest.version > BUNDLE_VERSION || manifest.sessionVersion > SESSION_VERSION) {
+    throw new SessionBundleError('This bundle was exported by a newer version of the app. Please update before importing it.');
+  }
+  if (!isRecord(parsed.session) || parsed.session.version !== manifest.sessionVersion || !isRecord(parsed.assets)) {
+    throw new SessionBundleError('The bundle contents are corrupted.');
+  }
+  return parsed as unknown as SessionBundle;
+};
+
+/**
+ * Reads a bundle written by `exportSessionBundle`. Every image is checked
+ * against its hash and comes back as a blob: URL, so the next save copies it
+ * into this browser's asset store like any other fresh image.
+ */
+export const importSessionBundle = async (file: Blob): Promise<SessionSnapshot> => {
+  const bundle = await parseBundle(file);
+  let session: SessionSnapshot;
+  try {
+    session = upgradeSession(bundle.session);
+  } catch {
+    throw new SessionBundleError('The bundle contents are corrupted.');
+  }
+  validateSnapshot(session);
+
+  const urlByRef = new Map<string, string>();
+  const toLiveUrl = async (url: string) => {
+    if (!isAssetRef(url)) return url;
+    const known = urlByRef.get(url);
+    if (known) return known;
+    const hash = url.slice(ASSET_REF_PREFIX.length);
+    const dataUrl = bundle.assets[hash];
+    if (!isString(dataUrl) || !dataUrl.startsWith('data:')) {
+      throw new SessionBundleError(`The bundle is missing image ${hash.slice(0, 12)}.`);
+    }
+    const blob = await (await fetch(dataUrl)).blob();
+    if (await hashBlob(blob) !== hash) {
+      throw new SessionBundleError(`Image ${hash.slice(0, 12)} in the bundle is corrupted.`);
+    }
+    const liveUrl = URL.createObjectURL(blob);
+    urlByRef.set(url, liveUrl);
+    return liveUrl;
+  };
+  return mapSessionUrls(session, toLiveUrl);
+};
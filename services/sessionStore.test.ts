@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { OutfitLayer } from '../types';
+import { getActivePath } from '../lib/outfitTree';
+import { DEFAULT_POSES } from '../lib/poses';
+import { PersistedSession, PersistedSessionV1, SESSION_VERSION, upgradeSession } from './sessionStore';
+
+const baseLayer: OutfitLayer = { garment: null, poseImages: { standing: 'asset:model' } };
+
+describe('upgradeSession', () => {
+  it('turns a version 1 layer stack into a tree and fills in everything added since', () => {
+    const stored: PersistedSessionV1 = {
+      version: 1,
+      modelImageUrl: 'asset:model',
+      outfitHistory: [
+        baseLayer,
+        { garment: { id: 'gemini-tee', name: 'Tee', url: 'tee.png' }, poseImages: { standing: 'asset:tee' } },
+        { garment: { id: 'upload-1', name: 'Scarf', url: 'scarf.png' }, poseImages: { 'หันข้างเต็มตัว': 'asset:scarf-side' } },
+      ],
+      currentOutfitIndex: 1,
+      wardrobe: [{ id: 'gemini-tee', name: 'Tee', url: 'tee.png' }],
+      savedOutfits: [],
+    };
+
+    const session = upgradeSession(stored);
+    const tree = session.outfitTree!;
+    expect(Object.keys(tree.nodes)).toHaveLength(3);
+    expect(getActivePath(tree).map(node => node.layer.garment?.id ?? null)).toEqual([null, 'gemini-tee']);
+    expect(session.wardrobe[0].slot).toBe('top');
+
+    const scarfNode = Object.values(tree.nodes).find(node => node.layer.garment?.id === 'upload-1')!;
+    expect(scarfNode.layer.garment?.slot).toBeUndefined();
+    expect(scarfNode.layer.poseImages).toEqual({ 'side-profile': 'asset:scarf-side' });
+
+    expect(session.savedModels).toEqual([expect.objectContaining({ imageUrl: 'asset:model' })]);
+    expect(session.outfitCollections).toEqual([]);
+    expect(Object.keys(session.garmentUsage).sort()).toEqual(['gemini-tee', 'upload-1']);
+    expect(session.garmentUsage['gemini-tee'].count).toBe(1);
+    expect(session.poses.map(pose => pose.id)).toEqual(DEFAULT_POSES.map(pose => pose.id));
+  });
+
+  it('keeps the model library, collections, item usage and pose order of a current session', () => {
+    const stored: PersistedSession = {
+      version: SESSION_VERSION,
+      modelImageUrl: null,
+      outfitTree: null,
+      wardrobe: [],
+      savedOutfits: [],
+      outfitCollections: [{ id: 'c1', name: 'Work', createdAt: 1 }],
+      savedModels: [],
+      poses: [{ id: 'custom', name: 'Wave', instruction: 'Wave at the camera' }, DEFAULT_POSES[1]],
+      garmentUsage: { 'gemini-tee': { count: 4, lastUsedAt: 20 } },
+    };
+
+    const session = upgradeSession(stored);
+    expect(session).not.toHaveProperty('version');
+    expect(session.savedModels).toEqual([]);
+    expect(session.outfitCollections).toEqual(stored.outfitCollections);
+    expect(session.garmentUsage).toEqual(stored.garmentUsage);
+    expect(session.poses.slice(0, 2).map(pose => pose.id)).toEqual(['custom', DEFAULT_POSES[1].id]);
+    expect(session.poses).toHaveLength(DEFAULT_POSES.length + 1);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentSlot, OutfitCollection, OutfitLayer, OutfitTree, Pose, SavedModel, SavedOutfit, WardrobeItem } from '../types';
+import { defaultWardrobe } from '../wardrobe';
+import { GarmentUsage, getGarmentUsage, outfitTreeFromLayers } from '../lib/outfitTree';
+import { DEFAULT_POSES, LEGACY_POSE_IDS, withBuiltInPoses } from '../lib/poses';
+import { isAssetRef, isLocalImageUrl, pruneAssets, putAssetFromUrl, readState, resolveAssetRef, writeState } from './assetStore';
+
+const SESSION_KEY = 'session';
+const LEGACY_SAVED_OUTFITS_KEY = 'wear-fit-saved-outfits';
+
+export const SESSION_VERSION = 7;
+
+/** Everything needed to put the dressing room back the way it was. */
+export interface SessionSnapshot {
+  modelImageUrl: string | null;
+  outfitTree: OutfitTree | null;
+  wardrobe: WardrobeItem[];
+  savedOutfits: SavedOutfit[];
+  outfitCollections: OutfitCollection[];
+  savedModels: SavedModel[];
+  poses: Pose[];
+  garmentUsage: Record<string, GarmentUsage>; // Survives new models and fresh outfit histories
+}
+
+export interface PersistedSession extends SessionSnapshot {
+  version: number;
+}
+
+/** Version 1 kept a linear stack of layers instead of a tree. */
+export interface PersistedSessionV1 extends Omit<SessionSnapshot, 'outfitTree' | 'outfitCollections' | 'savedModels' | 'poses' | 'garmentUsage'> {
+  version: 1;
+  outfitHistory: OutfitLayer[];
+  currentOutfitIndex: number;
+}
+
+/** Versions 1 and 2 only knew whether an item was clothing or an accessory. */
+type LegacyWardrobeItem = Omit<WardrobeItem, 'slot'> & { category?: 'clothing' | 'accessory'; slot?: GarmentSlot };
+
+const DEFAULT_ITEM_SLOTS = new Map(defaultWardrobe.map(item => [item.id, item.slot]));
+
+// Built-in items get their real slot back; anything else stays unslotted and stacks like before.
+const upgradeItem = ({ category, ...item }: LegacyWardrobeItem): WardrobeItem =>
+  ({ ...item, slot: item.slot ?? DEFAULT_ITEM_SLOTS.get(item.id) });
+
+const mapSessionItems = (session: SessionSnapshot, mapItem: (item: WardrobeItem) => WardrobeItem): SessionSnapshot => ({
+  ...session,
+  outfitTree: session.outfitTree && {
+    ...session.outfitTree,
+    nodes: Object.fromEntries(Object.values(session.outfitTree.nodes).map(node => [node.id, {
+      ...node,
+      layer: {
+        ...node.layer,
+        garment: node.layer.garment && mapItem(node.layer.garment),
+        ...(node.layer.lookGarments ? { lookGarments: node.layer.lookGarments.map(mapItem) } : {}),
+      },
+    }])),
+  },
+  wardrobe: session.wardrobe.map(mapItem),
+  savedOutfits: session.savedOutfits.map(outfit => ({ ...outfit, items: outfit.items.map(mapItem) })),
+});
+
+// Before version 5 pose images were keyed by the built-in instruction text instead of a pose id.
+const upgradePoseKeys = (session: SessionSnapshot): SessionSnapshot => ({
+  ...session,
+  outfitTree: session.outfitTree && {
+    ...session.outfitTree,
+    nodes: Object.fromEntries(Object.values(session.outfitTree.nodes).map(node => [node.id, {
+      ...node,
+      layer: {
+        ...node.layer,
+        poseImages: Object.fromEntries(Object.entries(node.layer.poseImages)
+          .map(([key, url]) => [LEGACY_POSE_IDS.get(key) ?? key, url])),
+      },
+    }])),
+  },
+});
+
+/** Brings a snapshot written by any earlier version up to the current shape. */
+export const upgradeSession = (stored: PersistedSession | PersistedSessionV1): SessionSnapshot => {
+  let session: SessionSnapshot;
+  if (stored.version === 1) {
+    const { version, outfitHistory, currentOutfitIndex, ...rest } = stored as PersistedSessionV1;
+    session = { ...rest, outfitTree: outfitTreeFromLayers(outfitHistory, currentOutfitIndex), outfitCollections: [], savedModels: [], poses: [], garmentUsage: {} };
+  } else {
+    const { version, ...rest } = stored as PersistedSession;
+    session = rest;
+  }
+  if (stored.version < 3) session = mapSessionItems(session, upgradeItem);
+  // Before version 4 there was no model library; start it with the model in use.
+  if (stored.version < 4) {
+    session = {
+      ...session,
+      savedModels: session.modelImageUrl
+        ? [{ id: `model-${Date.now()}`, name: 'โมเดล 1', imageUrl: session.modelImageUrl, createdAt: Date.now() }]
+        : [],
+    };
+  }
+  if (stored.version < 5) session = upgradePoseKeys(session);
+  // Before version 6 saved outfits were one flat list.
+  if (stored.version < 6) session = { ...session, outfitCollections: [] };
+  // Before version 7 usage was read from the outfit history alone, so start from what it holds.
+  if (stored.version < 7) session = { ...session, garmentUsage: session.outfitTree ? getGarmentUsage(session.outfitTree) : {} };
+  return { ...session, poses: withBuiltInPoses(session.poses ?? []) };
+};
+
+type UrlMapper = (url: string) => Promise<string>;
+
+const mapItem = async (item: WardrobeItem, mapUrl: UrlMapper): Promise<WardrobeItem> => ({
+  ...item,
+  url: await mapUrl(item.url),
+  ...(item.versions ? { versions: await Promise.all(item.versions.map(async version => ({ ...version, url: await mapUrl(version.url) }))) } : {}),
+});
+
+const mapLayer = async (layer: OutfitLayer, mapUrl: UrlMapper): Promise<OutfitLayer> => {
+  const poseEntries = await Promise.all(
+    Object.entries(layer.poseImages).map(async ([pose, url]) => [pose, await mapUrl(url)] as const)
+  );
+  return {
+    ...layer,
+    garment: layer.garment ? await mapItem(layer.garment, mapUrl) : null,
+    ...(layer.lookGarments ? { lookGarments: await Promise.all(layer.lookGarments.map(item => mapItem(item, mapUrl))) } : {}),
+    poseImages: Object.fromEntries(poseEntries),
+  };
+};
+
+const mapSavedOutfit = async (outfit: SavedOutfit, mapUrl: UrlMapper): Promise<SavedOutfit> => ({
+  ...outfit,
+  imageUrl: await mapUrl(outfit.imageUrl),
+  items: await Promise.all(outfit.items.map(item => mapItem(item, mapUrl))),
+  ...(outfit.modelImageUrl ? { modelImageUrl: await mapUrl(outfit.modelImageUrl) } : {}),
+  ...(outfit.layers ? { layers: await Promise.all(outfit.layers.map(layer => mapLayer(layer, mapUrl))) } : {}),
+});
+
+const mapTree = async (tree: OutfitTree, mapUrl: UrlMapper): Promise<OutfitTree> => {
+  const nodes = await Promise.all(
+    Object.values(tree.nodes).map(async node => ({ ...node, layer: await mapLayer(node.layer, mapUrl) }))
+  );
+  return { ...tree, nodes: Object.fromEntries(nodes.map(node => [node.id, node])) };
+};
+
+/** Rewrites every image URL in the snapshot, e.g. to swap data URLs for asset references. */
+export const mapSessionUrls = async (session: SessionSnapshot, mapUrl: UrlMapper): Promise<SessionSnapshot> => ({
+  ...session,
+  modelImageUrl: session.modelImageUrl ? await mapUrl(session.modelImageUrl) : null,
+  outfitTree: session.outfitTree ? await mapTree(session.outfitTree, mapUrl) : null,
+  wardrobe: await Promise.all(session.wardrobe.map(item => mapItem(item, mapUrl))),
+  savedOutfits: await Promise.all(session.savedOutfits.map(outfit => mapSavedOutfit(outfit, mapUrl))),
+  savedModels: await Promise.all(session.savedModels.map(async model => ({ ...model, imageUrl: await mapUrl(model.imageUrl) }))),
+  poses: await Promise.all(session.poses.map(async pose =>
+    pose.referenceImageUrl ? { ...pose, referenceImageUrl: await mapUrl(pose.referenceImageUrl) } : pose)),
+});
+
+// Remote URLs (the default wardrobe) are kept as they are; only tab-local images are stored.
+const toStoredUrl: UrlMapper = async (url) => (isLocalImageUrl(url) ? putAssetFromUrl(url) : url);
+
+const toLiveUrl: UrlMapper = async (url) => (isAssetRef(url) ? resolveAssetRef(url) : url);
+
+// Images referenced by the session as it was last loaded. Until a load has
+// succeeded nothing is pruned, and these are never pruned during the tab's
+// lifetime, so a bad restore or a stale save cannot delete the only copy.
+let loadedRefs: Set<string> | null = null;
+
+const writeSession = async (session: SessionSnapshot): Promise<void> => {
+  const referenced = new Set<string>();
+  const stored = await mapSessionUrls(session, async (url) => {
+    const storedUrl = await toStoredUrl(url);
+    if (isAssetRef(storedUrl)) referenced.add(storedUrl);
+    return storedUrl;
+  });
+  await writeState<PersistedSession>(SESSION_KEY, { version: SESSION_VERSION, ...stored });
+  if (loadedRefs) await pruneAssets(new Set([...referenced, ...loadedRefs]));
+};
+
+let saveChain: Promise<void> = Promise.resolve();
+
+/**
+ * Saves are queued one after another: pruning in an earlier save must never
+ * delete images that a later save has just written.
+ */
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+  const next = saveChain.then(write);
+  saveChain = next.catch(() => undefined);
+  return next;
+};
+
+export const saveSession = (session: SessionSnapshot): Promise<void> => enqueueWrite(() => writeSession(session));
+
+/** Deletes the stored session and all its images, for when it cannot be restored and the user starts afresh. */
+export const discardStoredSession = (): Promise<void> => enqueueWrite(async () => {
+  await writeState(SESSION_KEY, null);
+  await pruneAssets(new Set());
+  loadedRefs = new Set();
+});
+
+/**
+ * Saved outfits used to live in localStorage as JSON with inline data URLs.
+ * They are moved into the asset store once and the old key is removed.
+ */
+const migrateLegacySavedOutfits = async (): Promise<SessionSnapshot | null> => {
+  const legacy = localStorage.getItem(LEGACY_SAVED_OUTFITS_KEY);
+  if (!legacy) return null;
+  let savedOutfits: SavedOutfit[] = [];
+  try {
+    savedOutfits = JSON.parse(legacy);
+  } catch (e) {
+    console.error("Failed to migrate saved outfits from localStorage", e);
+  }
+  let session: SessionSnapshot = {
+    modelImageUrl: null,
+    outfitTree: null,
+    wardrobe: defaultWardrobe,
+    savedOutfits: Array.isArray(savedOutfits) ? savedOutfits : [],
+    outfitCollections: [],
+    savedModels: [],
+    poses: DEFAULT_POSES,
+    garmentUsage: {},
+  };
+  session = mapSessionItems(session, upgradeItem);
+  await saveSession(session);
+  localStorage.removeItem(LEGACY_SAVED_OUTFITS_KEY);
+  return session;
+};
+
+// Records which stored images the session uses only once every one of them has been read back.
+const toLiveSession = async (session: SessionSnapshot): Promise<SessionSnapshot> => {
+  const refs = new Set<string>();
+  const live = await mapSessionUrls(session, async (url) => {
+    if (isAssetRef(url)) refs.add(url);
+    return toLiveUrl(url);
+  });
+  loadedRefs = refs;
+  return live;
+};
+
+/**
+ * Restores the last session, or returns null when there is nothing stored
+ * yet. Rejects when the stored session cannot be read in full; callers must
+ * then not save over it.
+ */
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+  const stored = await readState<PersistedSession | PersistedSessionV1 | null>(SESSION_KEY);
+  if (!stored) {
+    const migrated = await migrateLegacySavedOutfits();
+    if (migrated) return toLiveSession(migrated);
+    loadedRefs = new Set();
+    return null;
+  }
+  if (stored.version > SESSION_VERSION) {
+    throw new Error(`Stored session version ${stored.version} is newer than this app supports.`);
+  }
+  return toLiveSession(upgradeSession(stored));
+};
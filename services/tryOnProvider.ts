@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentAttributes, GarmentSlot, VideoSettings } from '../types';
+
+export type TryOnProviderId = 'gemini' | 'mock';
+
+export type ImageSource = File | string;
+
+/** One garment in a full look, dressed in list order. */
+export interface LookItem {
+  image: ImageSource;
+  slot?: GarmentSlot;
+}
+
+/** A candidate look described in text, for ranking by the model. */
+export interface LookSummary {
+  id: string;
+  items: string[]; // One short description per item, e.g. "white cotton t-shirt (top, casual)"
+}
+
+/** A look the model ranked, best first, with its reason in Thai. */
+export interface RankedLook {
+  id: string;
+  reason?: string;
+}
+
+/** Extra images sent with a pose request so the result stays true to the person and outfit. */
+export interface PoseReferences {
+  pose?: ImageSource; // Shows the body position to copy
+  identity?: ImageSource; // The finalized model photo, before any garment
+  garments?: ImageSource[]; // Every garment worn in the image being re-posed
+}
+
+/**
+ * Everything the dressing flow needs from an image backend. Every method
+ * resolves to an image data URL, except `generateVideo` which resolves to an
+ * object URL for the rendered clip, `analyzeGarment` which resolves to the
+ * item's attributes and `rankLooks` which resolves to the looks it was given,
+ * reordered. Each call stops with an error once its `signal` aborts.
+ */
+export interface TryOnProvider {
+  readonly id: TryOnProviderId;
+  /** Identifies the image model; part of the generation cache key, so changing it invalidates old results. */
+  readonly imageModel: string;
+  removeBackground(imageSource: ImageSource, signal?: AbortSignal): Promise<string>;
+  generateModelImage(imageSource: ImageSource, signal?: AbortSignal): Promise<string>;
+  generateFashionItem(category: string, style?: string, signal?: AbortSignal): Promise<string>;
+  editGarment(image: ImageSource, instruction: string, signal?: AbortSignal): Promise<string>;
+  generateVirtualTryOnImage(modelImageUrl: string, itemImage: ImageSource, slot?: GarmentSlot, signal?: AbortSignal): Promise<string>;
+  generateFullLook(modelImageUrl: string, items: LookItem[], signal?: AbortSignal): Promise<string>;
+  generatePoseVariation(tryOnImageUrl: string, poseInstruction: string, references?: PoseReferences, signal?: AbortSignal): Promise<string>;
+  generateVideo(imageSource: string, settings: VideoSettings, signal?: AbortSignal): Promise<string>;
+  analyzeGarment(image: ImageSource, signal?: AbortSignal): Promise<GarmentAttributes>;
+  rankLooks(occasion: string, looks: LookSummary[], signal?: AbortSignal): Promise<RankedLook[]>;
+}
@@ -4,16 +4,121 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+// Image URL fields below hold data:, blob: or remote URLs at runtime. When a
+// session is persisted, local images are replaced by `asset:<sha256>` references
+// into the IndexedDB asset store (see services/assetStore.ts).
+
+export type GarmentSlot =
+  | 'top'
+  | 'outerwear'
+  | 'bottom'
+  | 'dress'
+  | 'footwear'
+  | 'headwear'
+  | 'eyewear'
+  | 'bag'
+  | 'jewelry';
+
+/** Where a wardrobe item came from. */
+export type WardrobeSource = 'default' | 'uploaded' | 'ai';
+
+export type Season = 'all' | 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type Formality = 'casual' | 'smart-casual' | 'business' | 'formal' | 'sport';
+
+export type Occasion = 'office' | 'date' | 'beach' | 'wedding';
+
+/** What the attribute analysis found in a garment image. */
+export interface GarmentAttributes {
+  garmentType: string; // e.g. "t-shirt", "sneakers"
+  slot?: GarmentSlot;
+  colors: string[]; // Dominant colours, most prominent first, named from COLOR_NAMES
+  pattern?: string;
+  material?: string;
+  formality?: Formality;
+  nameTh?: string;
+  nameEn?: string;
+  analyzedBy: 'provider' | 'local'; // `local` only ever knows the colours
+}
+
+/** Choices made in the garment designer; kept on the item so it can be designed again with changes. */
+export interface DesignParams {
+  slot: GarmentSlot;
+  garmentType: string;
+  palette: string[]; // Colour names from COLOR_NAMES
+  fabric?: string;
+  fit?: string;
+  pattern?: string;
+  era?: string;
+  notes?: string;
+}
+
+/** One image of a wardrobe item; a new one is added each time the item is edited. */
+export interface GarmentVersion {
+  id: string;
+  url: string;
+  instruction?: string; // The edit that produced this version; unset for the original image
+  createdAt: number;
+}
+
 export interface WardrobeItem {
   id: string;
   name: string;
   url: string;
-  category?: 'clothing' | 'accessory';
+  slot?: GarmentSlot; // Where the item is worn; items without a slot simply stack on top
+  source?: WardrobeSource; // Missing on items from older sessions; see getItemSource
+  tags?: string[];
+  color?: string;
+  brand?: string;
+  season?: Season;
+  notes?: string;
+  attributes?: GarmentAttributes;
+  designParams?: DesignParams; // Set on items made in the garment designer
+  versions?: GarmentVersion[]; // Oldest first; only present once the item has been edited
+  versionId?: string; // The version `url` shows; unset means the original image
 }
 
+/** Ways a generated image can drift from its references, found by the local perceptual check. */
+export type DriftFlag = 'face' | 'garment';
+
 export interface OutfitLayer {
   garment: WardrobeItem | null; // null represents the base model layer
-  poseImages: Record<string, string>; // Maps pose instruction to image URL
+  lookGarments?: WardrobeItem[]; // Set when a whole look was dressed in one pass; `garment` is then its first item
+  poseImages: Record<string, string>; // Maps pose id to image URL
+  driftFlags?: Record<string, DriftFlag[]>; // Maps pose id to the drift found in that image
+}
+
+export interface OutfitNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  layer: OutfitLayer;
+  createdAt: number;
+  redoChildId?: string; // Child last visited from this node; redo follows it
+}
+
+/** Branching outfit history. The active outfit is the path from the root to `currentId`. */
+export interface OutfitTree {
+  rootId: string;
+  currentId: string;
+  nodes: Record<string, OutfitNode>;
+}
+
+/** An entry in the pose library. Images are stored under `id`, so the text can be edited freely. */
+export interface Pose {
+  id: string;
+  name: string;
+  instruction: string; // Sent to the model as the pose description
+  referenceImageUrl?: string; // Optional photo of the pose, sent alongside the instruction
+  builtIn?: boolean; // Shipped with the app; can be reordered but not edited or deleted
+}
+
+/** A finalized model photo kept in the library so it can be reused or batch-dressed. */
+export interface SavedModel {
+  id: string;
+  name: string;
+  imageUrl: string;
+  createdAt: number;
 }
 
 export interface SavedOutfit {
@@ -21,4 +126,47 @@ export interface SavedOutfit {
   imageUrl: string;
   items: WardrobeItem[];
   timestamp: number;
+  // Outfits saved before these were recorded can only be restored by dressing the items again
+  modelImageUrl?: string;
+  layers?: OutfitLayer[]; // From the base model layer to the saved one, with every pose image
+  poseId?: string; // Pose on screen when saved
+  sourceOutfitId?: string; // Saved look this one was duplicated from
+  title?: string;
+  notes?: string;
+  rating?: number; // 1–5 stars
+  occasions?: Occasion[];
+  collectionId?: string; // Unsorted when missing
+}
+
+/** A named group of saved outfits, e.g. a lookbook for a trip. */
+export interface OutfitCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export type VideoModelType = 'veo-3.1-fast-generate-preview' | 'veo-3.1-generate-preview';
+
+export type VideoScene = 'runway' | 'street' | 'studio-spin' | 'beach';
+
+export type VideoAspectRatio = '9:16' | '16:9';
+
+export type VideoResolution = '720p' | '1080p';
+
+export interface VideoSettings {
+  model: VideoModelType;
+  scene: VideoScene;
+  direction: string; // Free-text direction added to the scene prompt
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  negativePrompt: string; // What the clip should avoid; empty sends none
+}
+
+/** A clip with the settings and still it was made from, so it can be made again. */
+export interface GeneratedVideo {
+  id: string;
+  url: string;
+  settings: VideoSettings;
+  sourceImageUrl: string;
 }
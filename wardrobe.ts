@@ -11,30 +11,30 @@ export const defaultWardrobe: WardrobeItem[] = [
     id: 'gemini-sweat',
     name: 'เสื้อสเวตเตอร์ Gemini',
     url: 'https://raw.githubusercontent.com/ammaarreshi/app-images/refs/heads/main/gemini-sweat-2.png',
-    category: 'clothing'
+    slot: 'top'
   },
   {
     id: 'gemini-tee',
     name: 'เสื้อยืด Gemini',
     url: 'https://raw.githubusercontent.com/ammaarreshi/app-images/refs/heads/main/Gemini-tee.png',
-    category: 'clothing'
+    slot: 'top'
   },
   {
     id: 'black-cap',
     name: 'หมวกแก๊ปสีดำ',
     url: 'https://images.unsplash.com/photo-1588850561407-ed78c282e1c7?q=80&w=400&auto=format&fit=crop',
-    category: 'accessory'
+    slot: 'headwear'
   },
   {
     id: 'sunglasses',
     name: 'แว่นกันแดดทรงเท่',
     url: 'https://images.unsplash.com/photo-1572635196237-14b3f281503f?q=80&w=400&auto=format&fit=crop',
-    category: 'accessory'
+    slot: 'eyewear'
   },
   {
     id: 'leather-bag',
     name: 'กระเป๋าถือหนัง',
     url: 'https://images.unsplash.com/photo-1584917865442-de89df76afd3?q=80&w=400&auto=format&fit=crop',
-    category: 'accessory'
+    slot: 'bag'
   }
 ];